@@ -30,19 +30,48 @@ describe('loadConfig', () => {
   it('should load and validate a YAML config file', () => {
     const config = loadConfig('/test/config.yaml');
     expect(config.redis.url).toBe('redis://localhost:6379');
-    expect(config.mongodb.uri).toBe('mongodb://localhost:27017/test');
+    expect(config.mongodb?.uri).toBe('mongodb://localhost:27017/test');
   });
 
   it('should apply default values', () => {
     const config = loadConfig('/test/config.yaml');
     expect(config.stream.key).toBe('counter-bridge:events');
     expect(config.stream.consumerGroup).toBe('counter-bridge-group');
+    expect(config.stream.idempotent).toBe(false);
+    expect(config.stream.partitions.count).toBe(1);
+    expect(config.stream.partitions.assigned).toBeUndefined();
     expect(config.batching.maxWaitMs).toBe(500);
     expect(config.batching.maxMessages).toBe(1000);
+    expect(config.buckets).toEqual([]);
+    expect(config.mongodb?.retention).toEqual({});
+    expect(config.backpressure.maxScopes).toBe(100000);
+    expect(config.backpressure.maxPendingIds).toBe(100000);
+    expect(config.backpressure.maxMemoryBytes).toBe(67108864);
+    expect(config.monitoring.intervalMs).toBe(15000);
+    expect(config.monitoring.maxLag).toBe(10000);
+    expect(config.monitoring.maxPendingAgeMs).toBe(300000);
+    expect(config.monitoring.maxStreamLength).toBe(100000);
+    expect(config.monitoring.maxStreamFill).toBe(0.9);
+    expect(config.claim.minIdleMs).toBe(60000);
+    expect(config.claim.intervalMs).toBe(30000);
+    expect(config.deadLetter.enabled).toBe(true);
+    expect(config.deadLetter.maxDeliveries).toBe(10);
+    expect(config.deadLetter.maxFlushFailures).toBe(5);
+    expect(config.numericPolicy.integerOnly).toBe(false);
+    expect(config.numericPolicy.finiteOnly).toBe(true);
+    expect(config.retry.initialDelayMs).toBe(500);
+    expect(config.retry.maxDelayMs).toBe(30000);
+    expect(config.circuitBreaker.failureThreshold).toBe(5);
+    expect(config.circuitBreaker.resetTimeoutMs).toBe(30000);
     expect(config.logging.level).toBe('info');
     expect(config.health.enabled).toBe(true);
     expect(config.health.port).toBe(9090);
-    expect(config.mongodb.collectionName).toBe('counters');
+    expect(config.health.metrics).toBe(true);
+    expect(config.health.maxReadAgeMs).toBe(60000);
+    expect(config.health.checkTimeoutMs).toBe(2000);
+    expect(config.mongodb?.collectionName).toBe('counters');
+    expect(config.provider).toBe('mongodb');
+    expect(config.sqlite).toEqual({ filename: 'counter-bridge.db', tableName: 'counters' });
   });
 
   it('should override values from environment variables', () => {
@@ -50,10 +79,13 @@ describe('loadConfig', () => {
     process.env.COUNTER_BRIDGE_STREAM_KEY = 'custom:stream';
     process.env.COUNTER_BRIDGE_BATCHING_MAX_WAIT_MS = '1000';
     process.env.COUNTER_BRIDGE_LOG_LEVEL = 'debug';
+    process.env.COUNTER_BRIDGE_STREAM_PARTITIONS = '8';
+    process.env.COUNTER_BRIDGE_STREAM_ASSIGNED_PARTITIONS = '0,4';
 
     const config = loadConfig('/test/config.yaml');
     expect(config.redis.url).toBe('redis://override:6380');
     expect(config.stream.key).toBe('custom:stream');
+    expect(config.stream.partitions).toEqual({ count: 8, assigned: [0, 4] });
     expect(config.batching.maxWaitMs).toBe(1000);
     expect(config.logging.level).toBe('debug');
   });
@@ -70,6 +102,21 @@ describe('loadConfig', () => {
 
     const config = loadConfig('/nonexistent.yaml');
     expect(config.redis.url).toBe('redis://env:6379');
-    expect(config.mongodb.uri).toBe('mongodb://env:27017/test');
+    expect(config.mongodb?.uri).toBe('mongodb://env:27017/test');
+  });
+
+  it('should select SQLite without a MongoDB section', () => {
+    vi.mocked(fs.readFileSync).mockReturnValue('redis:\n  url: redis://localhost:6379\nprovider: sqlite\n');
+    process.env.COUNTER_BRIDGE_SQLITE_FILENAME = '/data/counters.db';
+
+    const config = loadConfig('/test/config.yaml');
+    expect(config.provider).toBe('sqlite');
+    expect(config.mongodb).toBeUndefined();
+    expect(config.sqlite.filename).toBe('/data/counters.db');
+  });
+
+  it('should require the MongoDB section when it is the provider', () => {
+    vi.mocked(fs.readFileSync).mockReturnValue('redis:\n  url: redis://localhost:6379\n');
+    expect(() => loadConfig('/test/config.yaml')).toThrow('Required when provider is');
   });
 });
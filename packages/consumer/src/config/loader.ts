@@ -6,16 +6,45 @@ const ENV_PREFIX = 'COUNTER_BRIDGE_';
 
 const ENV_MAP: Record<string, (config: any, value: string) => void> = {
   [`${ENV_PREFIX}REDIS_URL`]: (c, v) => { c.redis = c.redis || {}; c.redis.url = v; },
+  [`${ENV_PREFIX}PROVIDER`]: (c, v) => { c.provider = v; },
   [`${ENV_PREFIX}MONGODB_URI`]: (c, v) => { c.mongodb = c.mongodb || {}; c.mongodb.uri = v; },
   [`${ENV_PREFIX}MONGODB_COLLECTION`]: (c, v) => { c.mongodb = c.mongodb || {}; c.mongodb.collectionName = v; },
+  [`${ENV_PREFIX}SQLITE_FILENAME`]: (c, v) => { c.sqlite = c.sqlite || {}; c.sqlite.filename = v; },
+  [`${ENV_PREFIX}SQLITE_TABLE`]: (c, v) => { c.sqlite = c.sqlite || {}; c.sqlite.tableName = v; },
   [`${ENV_PREFIX}STREAM_KEY`]: (c, v) => { c.stream = c.stream || {}; c.stream.key = v; },
   [`${ENV_PREFIX}STREAM_CONSUMER_GROUP`]: (c, v) => { c.stream = c.stream || {}; c.stream.consumerGroup = v; },
   [`${ENV_PREFIX}STREAM_CONSUMER_ID`]: (c, v) => { c.stream = c.stream || {}; c.stream.consumerId = v; },
+  [`${ENV_PREFIX}STREAM_IDEMPOTENT`]: (c, v) => { c.stream = c.stream || {}; c.stream.idempotent = v === 'true'; },
+  [`${ENV_PREFIX}STREAM_PARTITIONS`]: (c, v) => { c.stream = c.stream || {}; c.stream.partitions = c.stream.partitions || {}; c.stream.partitions.count = parseInt(v, 10); },
+  [`${ENV_PREFIX}STREAM_ASSIGNED_PARTITIONS`]: (c, v) => { c.stream = c.stream || {}; c.stream.partitions = c.stream.partitions || {}; c.stream.partitions.assigned = v.split(',').map((p) => parseInt(p, 10)); },
   [`${ENV_PREFIX}BATCHING_MAX_WAIT_MS`]: (c, v) => { c.batching = c.batching || {}; c.batching.maxWaitMs = parseInt(v, 10); },
   [`${ENV_PREFIX}BATCHING_MAX_MESSAGES`]: (c, v) => { c.batching = c.batching || {}; c.batching.maxMessages = parseInt(v, 10); },
+  [`${ENV_PREFIX}BACKPRESSURE_MAX_SCOPES`]: (c, v) => { c.backpressure = c.backpressure || {}; c.backpressure.maxScopes = parseInt(v, 10); },
+  [`${ENV_PREFIX}BACKPRESSURE_MAX_PENDING_IDS`]: (c, v) => { c.backpressure = c.backpressure || {}; c.backpressure.maxPendingIds = parseInt(v, 10); },
+  [`${ENV_PREFIX}BACKPRESSURE_MAX_MEMORY_BYTES`]: (c, v) => { c.backpressure = c.backpressure || {}; c.backpressure.maxMemoryBytes = parseInt(v, 10); },
+  [`${ENV_PREFIX}MONITORING_INTERVAL_MS`]: (c, v) => { c.monitoring = c.monitoring || {}; c.monitoring.intervalMs = parseInt(v, 10); },
+  [`${ENV_PREFIX}MONITORING_MAX_LAG`]: (c, v) => { c.monitoring = c.monitoring || {}; c.monitoring.maxLag = parseInt(v, 10); },
+  [`${ENV_PREFIX}MONITORING_MAX_PENDING_AGE_MS`]: (c, v) => { c.monitoring = c.monitoring || {}; c.monitoring.maxPendingAgeMs = parseInt(v, 10); },
+  [`${ENV_PREFIX}MONITORING_MAX_STREAM_LENGTH`]: (c, v) => { c.monitoring = c.monitoring || {}; c.monitoring.maxStreamLength = parseInt(v, 10); },
+  [`${ENV_PREFIX}MONITORING_MAX_STREAM_FILL`]: (c, v) => { c.monitoring = c.monitoring || {}; c.monitoring.maxStreamFill = Number(v); },
+  [`${ENV_PREFIX}CLAIM_MIN_IDLE_MS`]: (c, v) => { c.claim = c.claim || {}; c.claim.minIdleMs = parseInt(v, 10); },
+  [`${ENV_PREFIX}CLAIM_INTERVAL_MS`]: (c, v) => { c.claim = c.claim || {}; c.claim.intervalMs = parseInt(v, 10); },
+  [`${ENV_PREFIX}DEAD_LETTER_ENABLED`]: (c, v) => { c.deadLetter = c.deadLetter || {}; c.deadLetter.enabled = v === 'true'; },
+  [`${ENV_PREFIX}DEAD_LETTER_STREAM_KEY`]: (c, v) => { c.deadLetter = c.deadLetter || {}; c.deadLetter.streamKey = v; },
+  [`${ENV_PREFIX}DEAD_LETTER_MAX_DELIVERIES`]: (c, v) => { c.deadLetter = c.deadLetter || {}; c.deadLetter.maxDeliveries = parseInt(v, 10); },
+  [`${ENV_PREFIX}DEAD_LETTER_MAX_FLUSH_FAILURES`]: (c, v) => { c.deadLetter = c.deadLetter || {}; c.deadLetter.maxFlushFailures = parseInt(v, 10); },
+  [`${ENV_PREFIX}NUMERIC_INTEGER_ONLY`]: (c, v) => { c.numericPolicy = c.numericPolicy || {}; c.numericPolicy.integerOnly = v === 'true'; },
+  [`${ENV_PREFIX}NUMERIC_MAX_ABS_DELTA`]: (c, v) => { c.numericPolicy = c.numericPolicy || {}; c.numericPolicy.maxAbsDelta = Number(v); },
+  [`${ENV_PREFIX}RETRY_INITIAL_DELAY_MS`]: (c, v) => { c.retry = c.retry || {}; c.retry.initialDelayMs = parseInt(v, 10); },
+  [`${ENV_PREFIX}RETRY_MAX_DELAY_MS`]: (c, v) => { c.retry = c.retry || {}; c.retry.maxDelayMs = parseInt(v, 10); },
+  [`${ENV_PREFIX}CIRCUIT_BREAKER_FAILURE_THRESHOLD`]: (c, v) => { c.circuitBreaker = c.circuitBreaker || {}; c.circuitBreaker.failureThreshold = parseInt(v, 10); },
+  [`${ENV_PREFIX}CIRCUIT_BREAKER_RESET_TIMEOUT_MS`]: (c, v) => { c.circuitBreaker = c.circuitBreaker || {}; c.circuitBreaker.resetTimeoutMs = parseInt(v, 10); },
   [`${ENV_PREFIX}LOG_LEVEL`]: (c, v) => { c.logging = c.logging || {}; c.logging.level = v; },
   [`${ENV_PREFIX}HEALTH_ENABLED`]: (c, v) => { c.health = c.health || {}; c.health.enabled = v === 'true'; },
   [`${ENV_PREFIX}HEALTH_PORT`]: (c, v) => { c.health = c.health || {}; c.health.port = parseInt(v, 10); },
+  [`${ENV_PREFIX}HEALTH_METRICS`]: (c, v) => { c.health = c.health || {}; c.health.metrics = v === 'true'; },
+  [`${ENV_PREFIX}HEALTH_MAX_READ_AGE_MS`]: (c, v) => { c.health = c.health || {}; c.health.maxReadAgeMs = parseInt(v, 10); },
+  [`${ENV_PREFIX}HEALTH_CHECK_TIMEOUT_MS`]: (c, v) => { c.health = c.health || {}; c.health.checkTimeoutMs = parseInt(v, 10); },
 };
 
 export function loadConfig(configPath?: string): ValidatedConfig {
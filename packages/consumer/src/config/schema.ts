@@ -4,26 +4,89 @@ export const configSchema = z.object({
   redis: z.object({
     url: z.string().url(),
   }),
+  provider: z.enum(['mongodb', 'sqlite']).default('mongodb'),
   mongodb: z.object({
     uri: z.string(),
     collectionName: z.string().default('counters'),
-  }),
+    retention: z.object({
+      minute: z.number().int().nonnegative().optional(),
+      hour: z.number().int().nonnegative().optional(),
+      day: z.number().int().nonnegative().optional(),
+    }).default({}),
+  }).optional(),
+  sqlite: z.object({
+    filename: z.string().default('counter-bridge.db'),
+    tableName: z.string().default('counters'),
+  }).default({}),
   stream: z.object({
     key: z.string().default('counter-bridge:events'),
     consumerGroup: z.string().default('counter-bridge-group'),
     consumerId: z.string().default(`consumer-${process.pid}`),
+    idempotent: z.boolean().default(false),
+    partitions: z.object({
+      count: z.number().int().positive().default(1),
+      assigned: z.array(z.number().int().nonnegative()).optional(),
+    }).default({}),
   }).default({}),
   batching: z.object({
     maxWaitMs: z.number().int().positive().default(500),
     maxMessages: z.number().int().positive().default(1000),
   }).default({}),
+  buckets: z.array(z.object({
+    pattern: z.string(),
+    granularities: z.array(z.enum(['minute', 'hour', 'day'])).min(1),
+  })).default([]),
+  backpressure: z.object({
+    maxScopes: z.number().int().nonnegative().default(100000),
+    maxPendingIds: z.number().int().nonnegative().default(100000),
+    maxMemoryBytes: z.number().int().nonnegative().default(67108864),
+  }).default({}),
+  monitoring: z.object({
+    intervalMs: z.number().int().nonnegative().default(15000),
+    maxLag: z.number().int().nonnegative().default(10000),
+    maxPendingAgeMs: z.number().int().nonnegative().default(300000),
+    maxStreamLength: z.number().int().nonnegative().default(100000),
+    maxStreamFill: z.number().min(0).max(1).default(0.9),
+  }).default({}),
+  claim: z.object({
+    minIdleMs: z.number().int().positive().default(60000),
+    intervalMs: z.number().int().nonnegative().default(30000),
+  }).default({}),
+  deadLetter: z.object({
+    enabled: z.boolean().default(true),
+    streamKey: z.string().optional(),
+    maxDeliveries: z.number().int().positive().default(10),
+    maxFlushFailures: z.number().int().positive().default(5),
+  }).default({}),
+  numericPolicy: z.object({
+    integerOnly: z.boolean().default(false),
+    maxAbsDelta: z.number().positive().optional(),
+    finiteOnly: z.boolean().default(true),
+  }).default({}),
+  retry: z.object({
+    initialDelayMs: z.number().int().positive().default(500),
+    maxDelayMs: z.number().int().positive().default(30000),
+    multiplier: z.number().min(1).default(2),
+    jitter: z.number().min(0).max(1).default(0.2),
+  }).default({}),
+  circuitBreaker: z.object({
+    failureThreshold: z.number().int().nonnegative().default(5),
+    resetTimeoutMs: z.number().int().positive().default(30000),
+  }).default({}),
   logging: z.object({
     level: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   }).default({}),
   health: z.object({
     enabled: z.boolean().default(true),
     port: z.number().int().positive().default(9090),
+    metrics: z.boolean().default(true),
+    maxReadAgeMs: z.number().int().nonnegative().default(60000),
+    checkTimeoutMs: z.number().int().positive().default(2000),
   }).default({}),
+}).superRefine((config, ctx) => {
+  if (config.provider === 'mongodb' && !config.mongodb) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['mongodb'], message: 'Required when provider is "mongodb"' });
+  }
 });
 
 export type ValidatedConfig = z.infer<typeof configSchema>;
@@ -2,24 +2,83 @@ export interface ConsumerConfig {
   redis: {
     url: string;
   };
-  mongodb: {
+  provider?: 'mongodb' | 'sqlite';
+  mongodb?: {
     uri: string;
     collectionName?: string;
+    retention?: {
+      minute?: number;
+      hour?: number;
+      day?: number;
+    };
+  };
+  sqlite?: {
+    filename?: string;
+    tableName?: string;
   };
   stream: {
     key?: string;
     consumerGroup?: string;
     consumerId?: string;
+    idempotent?: boolean;
+    partitions?: {
+      count?: number;
+      assigned?: number[];
+    };
   };
   batching: {
     maxWaitMs?: number;
     maxMessages?: number;
   };
+  buckets: {
+    pattern: string;
+    granularities: ('minute' | 'hour' | 'day')[];
+  }[];
+  backpressure: {
+    maxScopes?: number;
+    maxPendingIds?: number;
+    maxMemoryBytes?: number;
+  };
+  monitoring: {
+    intervalMs?: number;
+    maxLag?: number;
+    maxPendingAgeMs?: number;
+    maxStreamLength?: number;
+    maxStreamFill?: number;
+  };
+  claim: {
+    minIdleMs?: number;
+    intervalMs?: number;
+  };
+  deadLetter: {
+    enabled?: boolean;
+    streamKey?: string;
+    maxDeliveries?: number;
+    maxFlushFailures?: number;
+  };
+  numericPolicy: {
+    integerOnly?: boolean;
+    maxAbsDelta?: number;
+    finiteOnly?: boolean;
+  };
+  retry: {
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+    multiplier?: number;
+    jitter?: number;
+  };
+  circuitBreaker: {
+    failureThreshold?: number;
+    resetTimeoutMs?: number;
+  };
   logging: {
     level?: 'debug' | 'info' | 'warn' | 'error';
   };
   health: {
     enabled?: boolean;
     port?: number;
+    metrics?: boolean;
+    maxReadAgeMs?: number;
+    checkTimeoutMs?: number;
   };
 }
@@ -1,9 +1,12 @@
 import http from 'http';
-import type { CounterBridge } from '@counter-bridge/core';
+import type { CounterBridge, HealthCheckResult } from '@counter-bridge/core';
+import type { MetricsRegistry } from './metrics';
 
 export interface HealthServerConfig {
   port: number;
   bridge: CounterBridge;
+  /** Served in the Prometheus text format on /metrics when set. */
+  metrics?: MetricsRegistry;
 }
 
 export function createHealthServer(config: HealthServerConfig): http.Server {
@@ -13,12 +16,33 @@ export function createHealthServer(config: HealthServerConfig): http.Server {
     if (req.url === '/healthz' || req.url === '/health') {
       const stats = config.bridge.getStats();
       const body = JSON.stringify({
-        status: 'ok',
+        // Still 200: an open circuit, full buffers or a lagging group mean
+        // the provider is down or slow, not this process
+        status: stats.circuitState === 'open' || stats.backpressured
+          || stats.streams.some((stream) => stream.exceeded.length > 0) ? 'degraded' : 'ok',
         uptime: Math.floor((Date.now() - startedAt) / 1000),
         stats,
       });
       res.writeHead(200, { 'Content-Type': 'application/json' });
       res.end(body);
+    } else if (req.url === '/livez') {
+      sendProbe(res, config.bridge.checkLiveness());
+    } else if (req.url === '/readyz') {
+      config.bridge.checkReadiness().then(
+        (result) => sendProbe(res, result),
+        (err) => sendProbe(res, { ok: false, reasons: [String(err)] }),
+      );
+    } else if (req.url === '/metrics' && config.metrics) {
+      config.metrics.render().then(
+        (body) => {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(body);
+        },
+        () => {
+          res.writeHead(500);
+          res.end();
+        },
+      );
     } else {
       res.writeHead(404);
       res.end();
@@ -28,3 +52,9 @@ export function createHealthServer(config: HealthServerConfig): http.Server {
   server.listen(config.port);
   return server;
 }
+
+/** 200 when the check passed, 503 with its reasons otherwise. */
+function sendProbe(res: http.ServerResponse, result: HealthCheckResult): void {
+  res.writeHead(result.ok ? 200 : 503, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(result.ok ? { status: 'ok' } : { status: 'fail', reasons: result.reasons }));
+}
@@ -1,9 +1,12 @@
 import mongoose from 'mongoose';
 import { CounterBridge } from '@counter-bridge/core';
+import type { ICounterProvider } from '@counter-bridge/types';
 import { MongoProvider } from '@counter-bridge/provider-mongo';
 import { loadConfig } from './config';
+import type { ValidatedConfig } from './config';
 import { Logger } from './logger';
 import { createHealthServer } from './health';
+import { createBridgeMetrics } from './metrics';
 import { setupSignalHandlers } from './signals';
 
 async function main(): Promise<void> {
@@ -16,14 +19,7 @@ async function main(): Promise<void> {
     consumerId: config.stream.consumerId,
   });
 
-  // Connect to MongoDB
-  await mongoose.connect(config.mongodb.uri);
-  logger.info('Connected to MongoDB');
-
-  // Create provider and bridge
-  const provider = new MongoProvider({
-    collectionName: config.mongodb.collectionName,
-  });
+  const provider = await createProvider(config, logger);
 
   const bridge = new CounterBridge({
     redis: config.redis.url,
@@ -31,10 +27,32 @@ async function main(): Promise<void> {
     streamKey: config.stream.key,
     consumerGroup: config.stream.consumerGroup,
     consumerId: config.stream.consumerId,
+    idempotent: config.stream.idempotent,
+    partitions: config.stream.partitions,
     batching: {
       maxWaitMs: config.batching.maxWaitMs,
       maxMessages: config.batching.maxMessages,
     },
+    buckets: config.buckets,
+    backpressure: config.backpressure,
+    monitoring: config.monitoring,
+    healthCheck: {
+      maxReadAgeMs: config.health.maxReadAgeMs,
+      timeoutMs: config.health.checkTimeoutMs,
+    },
+    claim: {
+      minIdleMs: config.claim.minIdleMs,
+      intervalMs: config.claim.intervalMs,
+    },
+    deadLetter: {
+      enabled: config.deadLetter.enabled,
+      streamKey: config.deadLetter.streamKey,
+      maxDeliveries: config.deadLetter.maxDeliveries,
+      maxFlushFailures: config.deadLetter.maxFlushFailures,
+    },
+    numericPolicy: config.numericPolicy,
+    retry: config.retry,
+    circuitBreaker: config.circuitBreaker,
   });
 
   // Wire bridge events to logger
@@ -42,14 +60,26 @@ async function main(): Promise<void> {
   bridge.on('stopped', () => logger.info('Bridge stopped'));
   bridge.on('flush', (stats) => logger.debug('Flush completed', stats));
   bridge.on('recovery', (count) => logger.info('PEL recovery', { recovered: count }));
+  bridge.on('claim', (info) => logger.info('Claimed stale entries', info));
+  bridge.on('deadLetter', (info) => logger.warn('Dead-lettered event', info));
+  bridge.on('circuit', (info) => logger.warn('Circuit breaker state changed', info));
+  bridge.on('backpressure', (info) => logger.warn(info.paused ? 'Backpressure: reads paused' : 'Backpressure: reads resumed', info));
+  bridge.on('lag', (info) => {
+    if (info.lagging) logger.warn('Stream lagging', info);
+    else logger.info('Stream caught up', info);
+  });
   bridge.on('error', (err) => logger.error('Bridge error', { error: String(err) }));
   bridge.on('warn', (msg) => logger.warn('Bridge warning', { detail: msg }));
 
   // Health server
   let healthServer: ReturnType<typeof createHealthServer> | undefined;
   if (config.health.enabled) {
-    healthServer = createHealthServer({ port: config.health.port, bridge });
-    logger.info('Health server listening', { port: config.health.port });
+    healthServer = createHealthServer({
+      port: config.health.port,
+      bridge,
+      metrics: config.health.metrics ? createBridgeMetrics(bridge) : undefined,
+    });
+    logger.info('Health server listening', { port: config.health.port, metrics: config.health.metrics });
   }
 
   // Signal handlers
@@ -61,7 +91,7 @@ async function main(): Promise<void> {
       if (healthServer) {
         await new Promise<void>((resolve) => healthServer!.close(() => resolve()));
       }
-      await mongoose.disconnect();
+      if (config.provider === 'mongodb') await mongoose.disconnect();
       logger.info('Shutdown complete');
     },
   });
@@ -71,6 +101,38 @@ async function main(): Promise<void> {
   logger.info('CounterBridge consumer is running');
 }
 
+/** Connect the configured persistence backend. */
+async function createProvider(config: ValidatedConfig, logger: Logger): Promise<ICounterProvider> {
+  if (config.provider === 'sqlite') {
+    // The bridge runs the migrations when it starts
+    logger.info('Using SQLite', { filename: config.sqlite.filename });
+    const { SqliteProvider } = loadSqliteProvider();
+    return new SqliteProvider(config.sqlite);
+  }
+
+  await mongoose.connect(config.mongodb!.uri);
+  logger.info('Connected to MongoDB');
+  return new MongoProvider({
+    collectionName: config.mongodb!.collectionName,
+    retention: config.mongodb!.retention,
+  });
+}
+
+/**
+ * The SQLite provider and its native `better-sqlite3` binding are optional
+ * dependencies, so they are loaded only when configured and a MongoDB
+ * deployment runs where the binding can't be built.
+ */
+function loadSqliteProvider(): typeof import('@counter-bridge/provider-sqlite') {
+  try {
+    return require('@counter-bridge/provider-sqlite');
+  } catch (err) {
+    throw new Error(
+      `provider: sqlite needs the optional better-sqlite3 dependency: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
 main().catch((err) => {
   console.error('Fatal error:', err);
   process.exit(1);
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { createBridgeMetrics, MetricsRegistry } from './metrics';
+
+function createMockBridge(lag = new Map<string, number | undefined>([['events', 12]])) {
+  return Object.assign(new EventEmitter(), {
+    getGroupLag: vi.fn().mockResolvedValue(lag),
+  });
+}
+
+describe('MetricsRegistry', () => {
+  it('should render counters with escaped labels', async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('things_total', 'Things');
+    counter.inc({ reason: 'a "quoted"\nvalue' }, 2);
+
+    expect(await registry.render()).toBe(
+      '# HELP things_total Things\n# TYPE things_total counter\nthings_total{reason="a \\"quoted\\"\\nvalue"} 2\n'
+    );
+  });
+
+  it('should render cumulative histogram buckets', async () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+    histogram.observe(3);
+
+    const output = await registry.render();
+    expect(output).toContain('latency_seconds_bucket{le="0.1"} 1\n');
+    expect(output).toContain('latency_seconds_bucket{le="1"} 2\n');
+    expect(output).toContain('latency_seconds_bucket{le="+Inf"} 3\n');
+    expect(output).toContain('latency_seconds_sum 3.55\n');
+    expect(output).toContain('latency_seconds_count 3\n');
+  });
+
+  it('should render one histogram series per label set', async () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram('latency_seconds', 'Latency', [1]);
+    histogram.observe(0.5, { outcome: 'success' });
+    histogram.observe(2, { outcome: 'failure' });
+
+    const output = await registry.render();
+    expect(output).toContain('latency_seconds_bucket{outcome="success",le="1"} 1\n');
+    expect(output).toContain('latency_seconds_bucket{outcome="failure",le="1"} 0\n');
+    expect(output).toContain('latency_seconds_sum{outcome="failure"} 2\n');
+    expect(output).not.toContain('latency_seconds_count 0');
+  });
+
+  it('should omit collected gauge samples when collection fails', async () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('lag', 'Lag', () => Promise.reject(new Error('Redis down')));
+
+    expect(await registry.render()).toBe('# HELP lag Lag\n# TYPE lag gauge\n');
+  });
+});
+
+describe('createBridgeMetrics', () => {
+  it('should record bridge events', async () => {
+    const bridge = createMockBridge();
+    const registry = createBridgeMetrics(bridge as any);
+
+    bridge.emit('read', { stream: 'events', messageCount: 3, eventCount: 2, bufferedScopes: 1, bufferedIds: 2 });
+    bridge.emit('rejected', { reason: 'malformed', stream: 'events', id: '3-0' });
+    bridge.emit('flush', {
+      scopeCount: 1, eventCount: 2, failedScopes: 1, skippedScopes: 0, flushNumber: 1,
+      durationMs: 20, bufferedScopes: 0, bufferedIds: 0,
+    });
+    bridge.emit('providerFlush', { scopeCount: 1, durationMs: 20, outcome: 'partial' });
+    bridge.emit('providerFlush', { scopeCount: 1, durationMs: 3000, outcome: 'failure' });
+    bridge.emit('error', new Error('boom'));
+
+    const output = await registry.render();
+    expect(output).toContain('counter_bridge_events_processed_total 2\n');
+    expect(output).toContain('counter_bridge_flushes_total 1\n');
+    expect(output).toContain('counter_bridge_partial_flushes_total 1\n');
+    expect(output).toContain('counter_bridge_errors_total 1\n');
+    expect(output).toContain('counter_bridge_rejected_events_total{reason="malformed"} 1\n');
+    expect(output).toContain('counter_bridge_dead_lettered_total 0\n');
+    expect(output).toContain('counter_bridge_flush_duration_seconds_bucket{outcome="partial",le="0.025"} 1\n');
+    expect(output).toContain('counter_bridge_flush_duration_seconds_bucket{outcome="failure",le="2.5"} 0\n');
+    expect(output).toContain('counter_bridge_flush_duration_seconds_count{outcome="failure"} 1\n');
+    expect(output).toContain('counter_bridge_flush_batch_scopes_count 1\n');
+    expect(output).toContain('counter_bridge_buffered_scopes 0\n');
+    expect(output).toContain('counter_bridge_pending_ids 0\n');
+    expect(output).toContain('counter_bridge_consumer_group_lag{stream="events"} 12\n');
+  });
+
+  it('should skip streams whose lag Redis cannot report', async () => {
+    const bridge = createMockBridge(new Map([['events', undefined]]));
+    const output = await createBridgeMetrics(bridge as any).render();
+    expect(output).not.toContain('counter_bridge_consumer_group_lag{');
+  });
+});
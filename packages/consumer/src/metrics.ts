@@ -0,0 +1,191 @@
+import type { CounterBridge } from '@counter-bridge/core';
+
+type Labels = Record<string, string>;
+
+const FLUSH_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const BATCH_SIZE_BUCKETS = [1, 5, 10, 50, 100, 500, 1000, 5000, 10000];
+
+interface Metric {
+  render(): Promise<string[]>;
+}
+
+/** Counter with optional labels, e.g. `rejected_events_total{reason="malformed"}`. */
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  async render(): Promise<string[]> {
+    const lines = header(this.name, this.help, 'counter');
+    // Unlabelled counters are exported as 0 before their first increment
+    if (this.values.size === 0) lines.push(`${this.name} 0`);
+    for (const [labels, value] of this.values) lines.push(`${this.name}${labels} ${value}`);
+    return lines;
+  }
+}
+
+/**
+ * Gauge set from events, or sampled at scrape time by `collect` — whose
+ * samples replace any set values. A failing `collect` omits the samples.
+ */
+export class Gauge implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect?: () => Promise<[Labels, number][]>,
+  ) {}
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(formatLabels(labels), value);
+  }
+
+  async render(): Promise<string[]> {
+    if (this.collect) {
+      this.values.clear();
+      try {
+        for (const [labels, value] of await this.collect()) this.set(value, labels);
+      } catch {
+        // Leave the gauge empty rather than fail the whole scrape
+      }
+    }
+    const lines = header(this.name, this.help, 'gauge');
+    for (const [labels, value] of this.values) lines.push(`${this.name}${labels} ${value}`);
+    return lines;
+  }
+}
+
+/** Histogram with fixed upper bounds and optional labels, rendered as cumulative buckets. */
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index >= 0) series.counts[index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  async render(): Promise<string[]> {
+    const lines = header(this.name, this.help, 'histogram');
+    // Like counters, an unobserved histogram is exported as an empty unlabelled series
+    const series = this.series.size > 0
+      ? [...this.series.values()]
+      : [{ labels: {}, counts: this.buckets.map(() => 0), sum: 0, count: 0 }];
+    for (const { labels, counts, sum, count } of series) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += counts[i];
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/** A set of metrics rendered together in the Prometheus text format. */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: () => Promise<[Labels, number][]>): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  async render(): Promise<string> {
+    const lines: string[] = [];
+    for (const metric of this.metrics) lines.push(...await metric.render());
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Metrics fed by the bridge's instrumentation events. Consumer-group lag
+ * is the only value read at scrape time, since Redis has to be asked.
+ */
+export function createBridgeMetrics(bridge: CounterBridge): MetricsRegistry {
+  const registry = new MetricsRegistry();
+  const prefix = 'counter_bridge';
+
+  const eventsProcessed = registry.counter(`${prefix}_events_processed_total`, 'Events read from the stream and aggregated');
+  const flushes = registry.counter(`${prefix}_flushes_total`, 'Batches flushed to the provider');
+  const partialFlushes = registry.counter(`${prefix}_partial_flushes_total`, 'Flushes in which the provider reported failed scopes');
+  const errors = registry.counter(`${prefix}_errors_total`, 'Errors emitted by the bridge');
+  const rejected = registry.counter(`${prefix}_rejected_events_total`, 'Stream entries that could never be applied, by reason');
+  const deadLettered = registry.counter(`${prefix}_dead_lettered_total`, 'Events written to the dead-letter stream, by reason');
+  const flushDuration = registry.histogram(
+    `${prefix}_flush_duration_seconds`, 'Time spent in provider.flush(), by outcome', FLUSH_DURATION_BUCKETS
+  );
+  const batchSize = registry.histogram(`${prefix}_flush_batch_scopes`, 'Scopes per flushed batch', BATCH_SIZE_BUCKETS);
+  const bufferedScopes = registry.gauge(`${prefix}_buffered_scopes`, 'Scopes in the aggregation window');
+  const pendingIds = registry.gauge(`${prefix}_pending_ids`, "Stream entries read but not yet ACK'd");
+  registry.gauge(`${prefix}_consumer_group_lag`, 'Stream entries not yet delivered to the consumer group', async () => {
+    const samples: [Labels, number][] = [];
+    for (const [stream, lag] of await bridge.getGroupLag()) {
+      if (lag !== undefined) samples.push([{ stream }, lag]);
+    }
+    return samples;
+  });
+
+  const updateBuffers = (info: { bufferedScopes: number; bufferedIds: number }) => {
+    bufferedScopes.set(info.bufferedScopes);
+    pendingIds.set(info.bufferedIds);
+  };
+
+  bridge.on('read', (info) => {
+    eventsProcessed.inc({}, info.eventCount);
+    updateBuffers(info);
+  });
+  bridge.on('flush', (info) => {
+    flushes.inc();
+    if (info.failedScopes > 0) partialFlushes.inc();
+    batchSize.observe(info.scopeCount);
+    updateBuffers(info);
+  });
+  bridge.on('providerFlush', (info) => flushDuration.observe(info.durationMs / 1000, { outcome: info.outcome }));
+  bridge.on('error', () => errors.inc());
+  bridge.on('rejected', (info) => rejected.inc({ reason: info.reason }));
+  bridge.on('deadLetter', (info) => deadLettered.inc({ reason: info.reason }));
+
+  return registry;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Aggregator } from './aggregator';
+import { Aggregator, updateOps } from './aggregator';
 
 describe('Aggregator', () => {
   it('should accumulate deltas for a single scope', () => {
@@ -98,4 +98,171 @@ describe('Aggregator', () => {
       expect(batch.get(`scope:${i}`)).toBe(100);
     }
   });
+
+  it('should track the highest stream ID per scope', () => {
+    const agg = new Aggregator();
+    agg.add({ scope: 'a', delta: 1, id: '1000-10' });
+    agg.add({ scope: 'a', delta: 1, id: '1000-9' });
+    agg.add({ scope: 'b', delta: 1, id: '999-0' });
+    agg.add({ scope: 'c', delta: 1 });
+
+    const { batch, context } = agg.drainBatch();
+    expect(batch.get('a')).toBe(2);
+    expect(context.watermarks!.get('a')).toBe('1000-10');
+    expect(context.watermarks!.get('b')).toBe('999-0');
+    expect(context.watermarks!.has('c')).toBe(false);
+  });
+
+  it('should keep the metadata of the newest event per scope', () => {
+    const agg = new Aggregator();
+    agg.add({ scope: 'a', delta: 1, id: '2-0', metadata: { tenantId: 'new' } });
+    agg.add({ scope: 'a', delta: 1, id: '1-0', metadata: { tenantId: 'old' } });
+    agg.add({ scope: 'a', delta: 1, id: '3-0' });
+    agg.add({ scope: 'b', delta: 1, id: '4-0' });
+
+    const { context } = agg.drainBatch();
+    expect(context.metadata).toEqual(new Map([['a', { tenantId: 'new' }]]));
+    expect(agg.drainBatch().context.metadata).toBeUndefined();
+  });
+
+  it('should let metadata added since a drain win over restored metadata', () => {
+    const agg = new Aggregator();
+    agg.add({ scope: 'a', delta: 1, metadata: { model: 'newer' } });
+    agg.restore('a', { delta: 2 }, undefined, { model: 'restored' });
+    agg.restore('b', { delta: 2 }, undefined, { model: 'restored' });
+
+    expect(agg.drainBatch().context.metadata).toEqual(new Map([
+      ['a', { model: 'newer' }],
+      ['b', { model: 'restored' }],
+    ]));
+  });
+
+  it('should estimate memory per distinct scope and reset it on drain', () => {
+    const agg = new Aggregator();
+    agg.add({ scope: 'a', delta: 1 });
+    const oneScope = agg.estimatedBytes;
+    expect(oneScope).toBeGreaterThan(0);
+
+    agg.add({ scope: 'a', delta: 1 });
+    expect(agg.estimatedBytes).toBe(oneScope);
+
+    agg.add({ scope: 'b', delta: 1 });
+    expect(agg.estimatedBytes).toBe(oneScope * 2);
+
+    agg.drain();
+    expect(agg.estimatedBytes).toBe(0);
+  });
+
+  describe('time buckets', () => {
+    const HOUR = 3_600_000;
+
+    it('should add matching events to the bucket containing their timestamp', () => {
+      const agg = new Aggregator([{ pattern: 'post:*:views', granularities: ['hour', 'day'] }]);
+      agg.add({ scope: 'post:1:views', delta: 2, timestamp: HOUR + 5 });
+      agg.add({ scope: 'post:1:views', delta: 3, timestamp: 2 * HOUR });
+      agg.add({ scope: 'post:1:likes', delta: 1, timestamp: HOUR });
+
+      const batch = agg.drain();
+      expect(batch.get('post:1:views')).toBe(5);
+      expect(batch.get(`post:1:views#hour#${HOUR}`)).toBe(2);
+      expect(batch.get(`post:1:views#hour#${2 * HOUR}`)).toBe(3);
+      expect(batch.get('post:1:views#day#0')).toBe(5);
+      expect(batch.size).toBe(5);
+    });
+
+    it('should only match whole segments with *', () => {
+      const agg = new Aggregator([{ pattern: 'post:*:views', granularities: ['hour'] }]);
+      agg.add({ scope: 'post:1:2:views', delta: 1, timestamp: 0 });
+      expect(agg.drain().size).toBe(1);
+    });
+
+    it('should not bucket set/max/min events', () => {
+      const agg = new Aggregator([{ pattern: 'score', granularities: ['hour'] }]);
+      agg.add({ scope: 'score', delta: 10, op: 'max', timestamp: 0 });
+      expect(Array.from(agg.drain().keys())).toEqual(['score']);
+    });
+  });
+
+  describe('ops', () => {
+    it('should keep pure-add scopes out of context.updates', () => {
+      const agg = new Aggregator();
+      agg.add({ scope: 'a', delta: 1 });
+      agg.add({ scope: 'b', delta: 5, op: 'set' });
+
+      const { batch, context } = agg.drainBatch();
+      expect(batch.get('a')).toBe(1);
+      expect(context.updates!.has('a')).toBe(false);
+      expect(context.updates!.get('b')).toEqual({ delta: 0, floor: 5, ceiling: 5 });
+    });
+
+    it('should let a set override earlier adds and shift with later ones', () => {
+      const agg = new Aggregator();
+      agg.add({ scope: 'a', delta: 3 });
+      agg.add({ scope: 'a', delta: 10, op: 'set' });
+      agg.add({ scope: 'a', delta: 2 });
+
+      const { context } = agg.drainBatch();
+      expect(context.updates!.get('a')).toMatchObject({ floor: 12, ceiling: 12 });
+    });
+
+    it('should keep the larger operand for max and the smaller for min', () => {
+      const agg = new Aggregator();
+      agg.add({ scope: 'hi', delta: 7, op: 'max' });
+      agg.add({ scope: 'hi', delta: 4, op: 'max' });
+      agg.add({ scope: 'lo', delta: 7, op: 'min' });
+      agg.add({ scope: 'lo', delta: 4, op: 'min' });
+
+      const { context } = agg.drainBatch();
+      expect(context.updates!.get('hi')).toEqual({ delta: 0, floor: 7, ceiling: undefined });
+      expect(context.updates!.get('lo')).toEqual({ delta: 0, floor: undefined, ceiling: 4 });
+    });
+
+    it('should fold mixed ops into the same value as applying them in order', () => {
+      const events = [
+        { delta: 5 }, { delta: 20, op: 'max' as const }, { delta: -3 },
+        { delta: 30, op: 'min' as const }, { delta: 4 },
+      ];
+      const agg = new Aggregator();
+      for (const event of events) agg.add({ scope: 'a', ...event });
+      const { batch, context } = agg.drainBatch();
+      const { floor = -Infinity, ceiling = Infinity } = context.updates!.get('a')!;
+
+      for (const stored of [-100, 0, 18, 25, 100]) {
+        let expected = stored;
+        for (const { delta, op } of events) {
+          if (op === 'max') expected = Math.max(expected, delta);
+          else if (op === 'min') expected = Math.min(expected, delta);
+          else expected += delta;
+        }
+        expect(Math.min(Math.max(stored + batch.get('a')!, floor), ceiling)).toBe(expected);
+      }
+    });
+
+    it('should restore a failed update before events added since the drain', () => {
+      const agg = new Aggregator();
+      agg.add({ scope: 'a', delta: 10, op: 'set' });
+      const { context } = agg.drainBatch();
+
+      agg.add({ scope: 'a', delta: 1 });
+      agg.restore('a', context.updates!.get('a')!);
+
+      expect(agg.drainBatch().context.updates!.get('a')).toMatchObject({ floor: 11, ceiling: 11 });
+    });
+
+    it('should turn updates back into replayable ops', () => {
+      expect(updateOps({ delta: 3 })).toEqual([['add', 3]]);
+      expect(updateOps({ delta: 0, floor: 4, ceiling: 4 })).toEqual([['set', 4]]);
+      expect(updateOps({ delta: 0, floor: 4 })).toEqual([['max', 4]]);
+      expect(updateOps({ delta: 2, floor: 4, ceiling: 9 })).toEqual([['add', 2], ['max', 4], ['min', 9]]);
+    });
+  });
+
+  it('should reset watermarks after drain', () => {
+    const agg = new Aggregator();
+    agg.add({ scope: 'a', delta: 1, id: '1-0' });
+    agg.drain();
+
+    const { context } = agg.drainBatch();
+    expect(context.watermarks!.size).toBe(0);
+  });
 });
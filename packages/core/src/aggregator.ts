@@ -1,19 +1,116 @@
-import { CounterEvent } from '@counter-bridge/types';
+import { bucketKey, bucketStart } from '@counter-bridge/types';
+import type {
+  BucketDefinition,
+  CounterEvent,
+  CounterOp,
+  CounterUpdate,
+  FlushContext,
+  Granularity,
+  ScopeMetadata,
+} from '@counter-bridge/types';
+import { compareStreamIds } from './stream-id';
+
+/**
+ * Rough per-entry cost of a Map slot plus a boxed number, used for memory
+ * estimates. Strings add two bytes per character on top.
+ */
+const ENTRY_OVERHEAD_BYTES = 80;
+
+/**
+ * A drained aggregation window: the folded deltas plus the context
+ * the provider needs to persist them.
+ */
+export interface DrainedBatch {
+  batch: Map<string, number>;
+  context: FlushContext;
+}
+
+type Bounds = Pick<CounterUpdate, 'floor' | 'ceiling'>;
 
 /**
  * In-memory aggregator that folds individual counter events into net deltas.
  *
  * Example: three events for "post_123" (+1, +1, -1) fold into net +1.
+ *
+ * Scopes that also see set/max/min events fold into a `CounterUpdate`
+ * instead: `min(max(stored + delta, floor), ceiling)`. Every op has that
+ * shape and composing two of them yields it again, so a set overrides the
+ * adds before it, adds after it shift the set value, and max keeps the
+ * larger operand.
+ *
+ * Adds to scopes matching a `BucketDefinition` are also folded into one
+ * key per granularity — `bucketKey(scope, granularity, start)` for the
+ * bucket containing the event timestamp — which flush like any other scope.
+ *
+ * Events carrying a stream `id` also advance the scope's watermark — the
+ * highest entry ID folded into its delta — used for idempotent flushes.
+ * The scope's metadata is taken from the newest event that carries any.
  */
 export class Aggregator {
   private deltas = new Map<string, number>();
+  private bounds = new Map<string, Bounds>();
+  private watermarks = new Map<string, string>();
+  private metadata = new Map<string, ScopeMetadata>();
   private count = 0;
+  private bytes = 0;
+  private readonly buckets: { pattern: RegExp; granularities: Granularity[] }[];
+
+  constructor(buckets: BucketDefinition[] = []) {
+    this.buckets = buckets.map((definition) => ({
+      pattern: compilePattern(definition.pattern),
+      granularities: definition.granularities,
+    }));
+  }
 
   /** Add a single event to the aggregation window. */
   add(event: CounterEvent): void {
-    const current = this.deltas.get(event.scope) ?? 0;
-    this.deltas.set(event.scope, current + event.delta);
+    const op = event.op ?? 'add';
+    if (op === 'add' && !this.bounds.has(event.scope)) {
+      this.addDelta(event.scope, event.delta);
+    } else {
+      this.fold(event.scope, this.current(event.scope), toUpdate(op, event.delta));
+    }
     this.count++;
+    if (event.metadata && this.isNewest(event.scope, event.id)) {
+      this.setMetadata(event.scope, event.metadata);
+    }
+    this.advanceWatermark(event.scope, event.id);
+
+    if (op === 'add') {
+      this.addToBuckets(event);
+    }
+  }
+
+  /**
+   * Put back a scope's update from a drained batch that failed to flush.
+   * It is applied before anything added to the scope since the drain,
+   * whose metadata takes precedence.
+   */
+  restore(scope: string, update: CounterUpdate, id?: string, metadata?: ScopeMetadata): void {
+    if (update.floor === undefined && update.ceiling === undefined && !this.bounds.has(scope)) {
+      this.addDelta(scope, update.delta);
+    } else {
+      this.fold(scope, update, this.current(scope));
+    }
+    this.count++;
+    if (metadata && !this.metadata.has(scope)) {
+      this.setMetadata(scope, metadata);
+    }
+    this.advanceWatermark(scope, id);
+  }
+
+  /** Put back the given scopes of a drained batch (default: all of them), as `restore` does. */
+  restoreAll({ batch, context }: DrainedBatch, scopes: Iterable<string> = batch.keys()): void {
+    for (const scope of scopes) {
+      const delta = batch.get(scope);
+      if (delta === undefined) continue;
+      this.restore(
+        scope,
+        context.updates?.get(scope) ?? { delta },
+        context.watermarks?.get(scope),
+        context.metadata?.get(scope),
+      );
+    }
   }
 
   /** Returns the number of events accumulated. */
@@ -26,14 +123,158 @@ export class Aggregator {
     return this.deltas.size;
   }
 
+  /** Approximate heap footprint of the current window, in bytes. */
+  get estimatedBytes(): number {
+    return this.bytes;
+  }
+
   /**
    * Drain the aggregator and return the folded deltas.
    * Resets internal state for the next window.
    */
   drain(): Map<string, number> {
+    return this.drainBatch().batch;
+  }
+
+  /**
+   * Drain the aggregator and return the folded deltas together with
+   * the per-scope watermarks and metadata and, for scopes that saw
+   * set/max/min events, their full updates. Resets internal state for
+   * the next window.
+   */
+  drainBatch(): DrainedBatch {
     const batch = this.deltas;
+    const context: FlushContext = { watermarks: this.watermarks };
+    if (this.bounds.size > 0) {
+      context.updates = new Map();
+      for (const [scope, bounds] of this.bounds) {
+        context.updates.set(scope, { delta: batch.get(scope)!, ...bounds });
+      }
+    }
+    if (this.metadata.size > 0) {
+      context.metadata = this.metadata;
+    }
+
     this.deltas = new Map();
+    this.bounds = new Map();
+    this.watermarks = new Map();
+    this.metadata = new Map();
     this.count = 0;
-    return batch;
+    this.bytes = 0;
+    return { batch, context };
   }
+
+  private addToBuckets(event: CounterEvent): void {
+    const timestamp = event.timestamp ?? Date.now();
+    for (const { pattern, granularities } of this.buckets) {
+      if (!pattern.test(event.scope)) continue;
+      for (const granularity of granularities) {
+        const key = bucketKey(event.scope, granularity, bucketStart(timestamp, granularity));
+        this.addDelta(key, event.delta);
+        this.advanceWatermark(key, event.id);
+      }
+    }
+  }
+
+  private addDelta(scope: string, delta: number): void {
+    const current = this.deltas.get(scope);
+    if (current === undefined) {
+      this.bytes += ENTRY_OVERHEAD_BYTES + scope.length * 2;
+    }
+    this.deltas.set(scope, (current ?? 0) + delta);
+  }
+
+  private current(scope: string): CounterUpdate {
+    return { delta: this.deltas.get(scope) ?? 0, ...this.bounds.get(scope) };
+  }
+
+  /** Store the update equivalent to applying `first`, then `then`. */
+  private fold(scope: string, first: CounterUpdate, then: CounterUpdate): void {
+    if (!this.deltas.has(scope)) {
+      this.bytes += ENTRY_OVERHEAD_BYTES + scope.length * 2;
+    }
+    if (!this.bounds.has(scope)) {
+      this.bytes += ENTRY_OVERHEAD_BYTES;
+    }
+
+    // clamp(clamp(x + d1, f1, c1) + d2, f2, c2)
+    //   = clamp(x + d1 + d2, clamp(f1 + d2, f2, c2), clamp(c1 + d2, f2, c2))
+    const shift = (bound: number | undefined) => (bound === undefined ? undefined : bound + then.delta);
+    let floor = clamp(shift(first.floor), then.floor, then.ceiling);
+    let ceiling = clamp(shift(first.ceiling), then.floor, then.ceiling);
+    // An unbounded side clamps to the other update's bound
+    if (first.floor === undefined) floor = then.floor;
+    if (first.ceiling === undefined) ceiling = then.ceiling;
+
+    // Once pinned to a single value the delta no longer matters
+    const pinned = floor !== undefined && floor === ceiling;
+    this.deltas.set(scope, pinned ? 0 : first.delta + then.delta);
+    this.bounds.set(scope, { floor, ceiling });
+  }
+
+  /** Whether an event is at least as new as everything folded into the scope. */
+  private isNewest(scope: string, id?: string): boolean {
+    const watermark = this.watermarks.get(scope);
+    return id === undefined || watermark === undefined || compareStreamIds(id, watermark) >= 0;
+  }
+
+  private setMetadata(scope: string, metadata: ScopeMetadata): void {
+    if (!this.metadata.has(scope)) {
+      // Metadata is small: estimate from its JSON length
+      this.bytes += ENTRY_OVERHEAD_BYTES + JSON.stringify(metadata).length * 2;
+    }
+    this.metadata.set(scope, metadata);
+  }
+
+  private advanceWatermark(scope: string, id?: string): void {
+    if (id === undefined) return;
+
+    const watermark = this.watermarks.get(scope);
+    if (watermark === undefined) {
+      this.bytes += ENTRY_OVERHEAD_BYTES + id.length * 2;
+    }
+    if (watermark === undefined || compareStreamIds(id, watermark) > 0) {
+      this.watermarks.set(scope, id);
+    }
+  }
+}
+
+/**
+ * Events that replay an update, in order: a single set, or an add
+ * followed by a max and/or min.
+ */
+export function updateOps(update: CounterUpdate): [op: CounterOp, value: number][] {
+  const { delta, floor, ceiling } = update;
+  if (floor !== undefined && floor === ceiling) return [['set', floor]];
+
+  const ops: [CounterOp, number][] = [];
+  if (delta !== 0 || (floor === undefined && ceiling === undefined)) ops.push(['add', delta]);
+  if (floor !== undefined) ops.push(['max', floor]);
+  if (ceiling !== undefined) ops.push(['min', ceiling]);
+  return ops;
+}
+
+/** The single-event update for an op applied with `value`. */
+function toUpdate(op: CounterOp, value: number): CounterUpdate {
+  switch (op) {
+    case 'add': return { delta: value };
+    case 'set': return { delta: 0, floor: value, ceiling: value };
+    case 'max': return { delta: 0, floor: value };
+    case 'min': return { delta: 0, ceiling: value };
+  }
+}
+
+/** Compile a scope pattern where `*` matches one `:`-separated segment. */
+function compilePattern(pattern: string): RegExp {
+  const segments = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${segments.join('[^:]*')}$`);
+}
+
+/** Clamp a bound that may be undefined (unbounded) between two more. */
+function clamp(value: number | undefined, floor?: number, ceiling?: number): number | undefined {
+  if (value === undefined) return undefined;
+  let result = value;
+  if (floor !== undefined) result = Math.max(result, floor);
+  if (ceiling !== undefined) result = Math.min(result, ceiling);
+  return result;
 }
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker';
+
+function createBreaker(failureThreshold = 3, resetTimeoutMs = 1000) {
+  let now = 0;
+  const onStateChange = vi.fn();
+  const breaker = new CircuitBreaker({ failureThreshold, resetTimeoutMs }, onStateChange, () => now);
+  return { breaker, onStateChange, advance: (ms: number) => { now += ms; } };
+}
+
+describe('CircuitBreaker', () => {
+  it('should stay closed below the failure threshold', () => {
+    const { breaker } = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.consecutiveFailures).toBe(2);
+  });
+
+  it('should open after consecutive failures and block requests', () => {
+    const { breaker, onStateChange } = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed');
+  });
+
+  it('should reset the failure count on success', () => {
+    const { breaker } = createBreaker();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.consecutiveFailures).toBe(1);
+  });
+
+  it('should half-open after the reset timeout and close on a successful probe', () => {
+    const { breaker, onStateChange, advance } = createBreaker(1);
+    breaker.recordFailure();
+    advance(999);
+    expect(breaker.state).toBe('open');
+    advance(1);
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(onStateChange).toHaveBeenLastCalledWith('closed', 'half-open');
+  });
+
+  it('should re-open when the half-open probe fails', () => {
+    const { breaker, advance } = createBreaker(1);
+    breaker.recordFailure();
+    advance(1000);
+    expect(breaker.state).toBe('half-open');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    advance(500);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should never open when the threshold is 0', () => {
+    const { breaker } = createBreaker(0);
+    for (let i = 0; i < 100; i++) breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+  });
+});
@@ -0,0 +1,74 @@
+import type { CircuitBreakerConfig, CircuitState } from '@counter-bridge/types';
+
+export const CIRCUIT_BREAKER_DEFAULTS: Required<CircuitBreakerConfig> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+/**
+ * Consecutive-failure circuit breaker.
+ *
+ * closed → open after `failureThreshold` consecutive failures.
+ * open → half-open once `resetTimeoutMs` has elapsed (checked lazily on read).
+ * half-open → closed on the next success, or back to open on failure.
+ *
+ * A `failureThreshold` of 0 disables the breaker; it then only counts failures.
+ */
+export class CircuitBreaker {
+  private current: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(
+    private readonly config: Required<CircuitBreakerConfig>,
+    private readonly onStateChange: (state: CircuitState, previous: CircuitState) => void = () => {},
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /** Current state. Moves open → half-open once the reset timeout has elapsed. */
+  get state(): CircuitState {
+    if (this.current === 'open' && this.now() - this.openedAt >= this.config.resetTimeoutMs) {
+      this.transition('half-open');
+    }
+    return this.current;
+  }
+
+  /** Number of failures since the last success. */
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+
+  /** Whether a request (flush) may be attempted right now. */
+  allowRequest(): boolean {
+    return this.state !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    if (this.current !== 'closed') this.transition('closed');
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.current === 'half-open') {
+      this.open();
+    } else if (
+      this.current === 'closed' &&
+      this.config.failureThreshold > 0 &&
+      this.failures >= this.config.failureThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.openedAt = this.now();
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.current;
+    this.current = state;
+    this.onStateChange(state, previous);
+  }
+}
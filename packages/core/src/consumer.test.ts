@@ -1,6 +1,11 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { context, propagation, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { getTracing } from '@counter-bridge/types';
 import { CounterBridge } from './consumer';
-import type { ICounterProvider } from '@counter-bridge/types';
+import type { FlushMiddleware, ICounterProvider } from '@counter-bridge/types';
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -10,11 +15,24 @@ function hang(): Promise<null> {
 }
 
 function createMockRedis() {
+  const tx = {
+    xack: vi.fn().mockReturnThis(),
+    eval: vi.fn().mockReturnThis(),
+    exec: vi.fn().mockResolvedValue([]),
+  };
   return {
     xgroup: vi.fn().mockResolvedValue('OK'),
+    hmget: vi.fn().mockResolvedValue([]),
+    multi: vi.fn().mockReturnValue(tx),
+    tx,
     // First call (PEL recovery) returns null, then hang forever for readLoop
     xreadgroup: vi.fn().mockResolvedValueOnce(null).mockReturnValue(hang()),
     xack: vi.fn().mockResolvedValue(1),
+    xadd: vi.fn().mockResolvedValue('99-0'),
+    xpending: vi.fn().mockResolvedValue([]),
+    xclaim: vi.fn().mockResolvedValue([]),
+    xinfo: vi.fn().mockResolvedValue([]),
+    ping: vi.fn().mockResolvedValue('PONG'),
     quit: vi.fn().mockResolvedValue('OK'),
   };
 }
@@ -52,6 +70,7 @@ describe('CounterBridge', () => {
       consumerGroup: 'test-group',
       consumerId: 'test-consumer',
       batching: { maxWaitMs: 500, maxMessages: 1000 },
+      monitoring: { intervalMs: 0 },
       ...overrides,
     });
   }
@@ -219,6 +238,121 @@ describe('CounterBridge', () => {
     });
   });
 
+  describe('flush middleware', () => {
+    function readScopes(...scopes: string[]) {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', scopes.map((scope, i) => [`${i + 1}-0`, ['scope', scope, 'delta', '1', 'timestamp', '1000']])],
+        ])
+        .mockReturnValue(hang());
+    }
+
+    const remap: FlushMiddleware = {
+      name: 'remap',
+      before: (entries) => entries
+        .filter((e) => !e.scope.startsWith('test:'))
+        .map((e) => ({ ...e, scope: e.scope.replace(/^v0:/, 'v1:') })),
+    };
+
+    it('should flush the transformed batch and still ACK dropped scopes', async () => {
+      readScopes('v0:a', 'test:b', 'c');
+      const after = vi.fn();
+      const bridge = createBridge({ middleware: [remap, { after }] });
+      await bridge.start();
+
+      expect(provider.flush).toHaveBeenCalledWith(new Map([['v1:a', 1], ['c', 1]]), {});
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0', '2-0', '3-0');
+      expect(after).toHaveBeenCalledWith([
+        expect.objectContaining({ scope: 'v1:a', source: 'v0:a' }),
+        expect.objectContaining({ scope: 'c', source: 'c' }),
+      ], {});
+
+      await bridge.stop();
+    });
+
+    it('should carry event metadata through the middleware to the provider', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [['1-0', ['scope', 'v0:a', 'delta', '1', 'metadata', '{"tenantId":"acme"}']]]],
+        ])
+        .mockReturnValue(hang());
+      const bridge = createBridge({ middleware: [remap] });
+      await bridge.start();
+
+      expect(provider.flush).toHaveBeenCalledWith(
+        new Map([['v1:a', 1]]),
+        { metadata: new Map([['v1:a', { tenantId: 'acme' }]]) },
+      );
+
+      await bridge.stop();
+    });
+
+    it('should retry a failed scope as flushed, without re-running the middleware', async () => {
+      readScopes('v0:a', 'c');
+      provider.flush.mockResolvedValueOnce({ failed: new Map([['v1:a', 1]]) });
+      const bridge = createBridge({ middleware: [remap] });
+      bridge.on('warn', () => {});
+      await bridge.start();
+      await bridge.stop();
+
+      expect(provider.flush).toHaveBeenCalledTimes(2);
+      expect(provider.flush.mock.calls[1][0]).toEqual(new Map([['v1:a', 1]]));
+    });
+
+    it('should retry only the failed output of a split scope', async () => {
+      readScopes('a');
+      const before = vi.fn((entries: Parameters<NonNullable<FlushMiddleware['before']>>[0]) =>
+        entries.flatMap((e) => [e, { ...e, scope: `analytics:${e.scope}` }]));
+      const failAnalytics = { failed: new Map([['analytics:a', 1]]) };
+      provider.flush.mockResolvedValueOnce(failAnalytics).mockResolvedValueOnce(failAnalytics);
+      const bridge = createBridge({ middleware: [{ before }], batching: { maxWaitMs: 10, maxMessages: 1000 } });
+      bridge.on('warn', () => {});
+      await bridge.start();
+      await vi.waitFor(() => expect(provider.flush).toHaveBeenCalledTimes(3));
+      await bridge.stop();
+
+      expect(provider.flush.mock.calls.map(([batch]) => batch)).toEqual([
+        new Map([['a', 1], ['analytics:a', 1]]),
+        new Map([['analytics:a', 1]]),
+        new Map([['analytics:a', 1]]),
+      ]);
+      expect(bridge.getStats().bufferedScopes).toBe(0);
+    });
+
+    it('should fail the flush when a before hook throws', async () => {
+      readScopes('a');
+      const errors: Error[] = [];
+      const bridge = createBridge({
+        middleware: [{ name: 'broken', before: () => { throw new Error('boom'); } }],
+      });
+      bridge.on('error', (err) => errors.push(err));
+      await bridge.start();
+
+      expect(provider.flush).not.toHaveBeenCalled();
+      expect(redis.xack).not.toHaveBeenCalled();
+      expect(errors[0].message).toBe('Flush middleware "broken" failed: boom');
+      expect(bridge.getStats().pendingMessages).toBe(1);
+
+      await bridge.stop();
+    });
+
+    it('should report a failing after hook without affecting the flush', async () => {
+      readScopes('a');
+      const errors: Error[] = [];
+      const bridge = createBridge({
+        middleware: [{ after: () => { throw new Error('analytics down'); } }],
+      });
+      bridge.on('error', (err) => errors.push(err));
+      await bridge.start();
+
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0');
+      expect(errors.map((e) => e.message)).toEqual(['Flush middleware #0 failed after flush: analytics down']);
+      expect(bridge.getStats().flushCount).toBe(1);
+
+      await bridge.stop();
+    });
+  });
+
   describe('stats', () => {
     it('should return initial stats', () => {
       const bridge = createBridge();
@@ -227,84 +361,1209 @@ describe('CounterBridge', () => {
       expect(stats.flushCount).toBe(0);
       expect(stats.errorCount).toBe(0);
       expect(stats.pendingMessages).toBe(0);
+      expect(stats.claimedMessages).toBe(0);
+      expect(stats.deadLettered).toBe(0);
+      expect(stats.circuitState).toBe('closed');
+      expect(stats.consecutiveFailures).toBe(0);
     });
   });
 
-  describe('get / getBatch', () => {
-    it('should delegate get() to the provider', async () => {
-      provider.get.mockResolvedValueOnce(42);
+  describe('instrumentation', () => {
+    it('should report read batches, rejected entries and flush timings', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['2-0', ['scope', 'a', 'delta', '2', 'timestamp', '1000']],
+            ['3-0', ['bad', 'data']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
       const bridge = createBridge();
-      const value = await bridge.get('post:1:likes');
-      expect(value).toBe(42);
-      expect(provider.get).toHaveBeenCalledWith('post:1:likes');
+      const read = vi.fn();
+      const rejected = vi.fn();
+      const flush = vi.fn();
+      bridge.on('read', read);
+      bridge.on('rejected', rejected);
+      bridge.on('flush', flush);
+      bridge.on('warn', () => {});
+      await bridge.start();
+
+      expect(read).toHaveBeenCalledWith(expect.objectContaining({
+        stream: 'test:stream', messageCount: 3, eventCount: 2, bufferedScopes: 1, bufferedIds: 2,
+      }));
+      expect(rejected).toHaveBeenCalledWith({ reason: 'malformed', stream: 'test:stream', id: '3-0' });
+      expect(flush).toHaveBeenCalledWith(expect.objectContaining({
+        scopeCount: 1, eventCount: 2, failedScopes: 0, bufferedScopes: 0, bufferedIds: 0,
+      }));
+      expect(flush.mock.calls[0][0].durationMs).toBeGreaterThanOrEqual(0);
+
+      await bridge.stop();
     });
 
-    it('should delegate getBatch() to the provider when available', async () => {
-      const result = new Map([['a', 1], ['b', 2]]);
-      provider.getBatch.mockResolvedValueOnce(result);
+    it('should time each provider call, including failed ones', async () => {
+      provider.flush.mockRejectedValueOnce(new Error('DB down'));
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']]]],
+        ])
+        .mockReturnValue(hang());
+
       const bridge = createBridge();
-      const values = await bridge.getBatch(['a', 'b']);
-      expect(values).toEqual(result);
+      const providerFlush = vi.fn();
+      bridge.on('providerFlush', providerFlush);
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      expect(providerFlush).toHaveBeenCalledWith({ scopeCount: 1, durationMs: expect.any(Number), outcome: 'failure' });
+
+      await bridge.stop();
+      expect(providerFlush).toHaveBeenLastCalledWith({ scopeCount: 1, durationMs: expect.any(Number), outcome: 'success' });
     });
 
-    it('should fall back to individual gets when getBatch is not available', async () => {
-      const providerNoBatch: ICounterProvider = {
-        flush: vi.fn(),
-        get: vi.fn()
-          .mockResolvedValueOnce(10)
-          .mockResolvedValueOnce(20),
-      };
+    it('should read consumer-group lag from XINFO GROUPS', async () => {
+      redis.xinfo.mockResolvedValueOnce([
+        ['name', 'other-group', 'lag', 100],
+        ['name', 'test-group', 'consumers', 1, 'pending', 2, 'lag', 7],
+      ]);
+      const bridge = createBridge();
 
-      const bridge = new CounterBridge({
-        redis: redis as any,
-        provider: providerNoBatch,
+      expect(await bridge.getGroupLag()).toEqual(new Map([['test:stream', 7]]));
+      expect(redis.xinfo).toHaveBeenCalledWith('GROUPS', 'test:stream');
+
+      redis.xinfo.mockResolvedValueOnce([['name', 'test-group', 'lag', null]]);
+      expect(await bridge.getGroupLag()).toEqual(new Map([['test:stream', undefined]]));
+    });
+  });
+
+  describe('tracing', () => {
+    const exporter = new InMemorySpanExporter();
+
+    beforeAll(() => {
+      context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+      propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+      trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+    });
+
+    afterAll(() => {
+      trace.disable();
+      propagation.disable();
+      context.disable();
+    });
+
+    beforeEach(() => exporter.reset());
+
+    /** Stream fields for an event published inside a producer span. */
+    function produce(scope: string): { fields: string[]; spanId: string } {
+      const span = trace.getTracer('test').startSpan('publish');
+      const fields = ['scope', scope, 'delta', '1', 'timestamp', '1000'];
+      context.with(trace.setSpan(context.active(), span), () => fields.push(...getTracing().inject()));
+      span.end();
+      return { fields, spanId: span.spanContext().spanId };
+    }
+
+    it('should link receive and flush spans to producer spans', async () => {
+      const a = produce('a');
+      const b = produce('b');
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce([['test:stream', [['1-0', a.fields], ['2-0', b.fields]]]])
+        .mockReturnValue(hang());
+      provider.flush.mockImplementation(() =>
+        getTracing().withSpan('provider', {}, async () => undefined)
+      );
+
+      const bridge = createBridge();
+      await bridge.start();
+      await bridge.stop();
+
+      const spans = exporter.getFinishedSpans();
+      const receive = spans.find((span) => span.name === 'counter-bridge receive')!;
+      const flush = spans.find((span) => span.name === 'counter-bridge flush')!;
+      const child = spans.find((span) => span.name === 'provider')!;
+
+      expect(receive.links.map((link) => link.context.spanId)).toEqual([a.spanId, b.spanId]);
+      expect(receive.attributes['messaging.batch.message_count']).toBe(2);
+      expect(flush.links.map((link) => link.context.spanId)).toEqual([a.spanId, b.spanId]);
+      expect(flush.attributes['counter_bridge.scope_count']).toBe(2);
+      expect(child.parentSpanContext?.spanId).toBe(flush.spanContext().spanId);
+    });
+
+    it('should mark the flush span failed and keep links for the retry', async () => {
+      const a = produce('a');
+      provider.flush
+        .mockRejectedValueOnce(new Error('DB down'))
+        .mockResolvedValueOnce(undefined);
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([['test:stream', [['1-0', a.fields]]]])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      bridge.on('error', () => {});
+      await bridge.start();
+      await bridge.stop();
+
+      const [failed, retried] = exporter.getFinishedSpans().filter((span) => span.name === 'counter-bridge flush');
+      expect(failed.status.message).toContain('DB down');
+      expect(retried.links.map((link) => link.context.spanId)).toEqual([a.spanId]);
+    });
+  });
+
+  describe('stream health', () => {
+    function mockStreamInfo(lag: number | null, length: number, oldestPendingId: string | null) {
+      redis.xinfo.mockImplementation(async (kind: string) => (kind === 'GROUPS'
+        ? [['name', 'test-group', 'consumers', 2, 'pending', 3, 'last-delivered-id', '90-0', 'lag', lag]]
+        : ['length', length, 'last-generated-id', '100-0']));
+      redis.xpending.mockImplementation(async (...args: unknown[]) => (args.length === 2
+        ? [3, oldestPendingId, '90-0', [['consumer-1', '2'], ['consumer-2', '1']]]
+        : []));
+    }
+
+    it('should collect lag, pending and length into getStats()', async () => {
+      vi.spyOn(Date, 'now').mockReturnValue(70_000);
+      mockStreamInfo(12, 500, '10000-0');
+      const bridge = createBridge({ monitoring: { intervalMs: 60_000 } });
+      await bridge.start();
+
+      expect(redis.xpending).toHaveBeenCalledWith('test:stream', 'test-group');
+      expect(bridge.getStats().streams).toEqual([{
+        stream: 'test:stream',
+        length: 500,
+        fill: 0.005,
+        lag: 12,
+        lastDeliveredId: '90-0',
+        pending: 3,
+        oldestPendingAgeMs: 60_000,
+        consumers: { 'consumer-1': 2, 'consumer-2': 1 },
+        exceeded: [],
+        collectedAt: 70_000,
+      }]);
+
+      vi.mocked(Date.now).mockRestore();
+      await bridge.stop();
+    });
+
+    it('should emit lag events when thresholds are crossed in either direction', async () => {
+      mockStreamInfo(50, 95, null);
+      const bridge = createBridge({
+        monitoring: { intervalMs: 5, maxLag: 20, maxStreamLength: 100, maxStreamFill: 0.9 },
       });
+      const events: any[] = [];
+      bridge.on('lag', (e) => events.push(e));
+      await bridge.start();
 
-      const values = await bridge.getBatch(['a', 'b']);
-      expect(values.get('a')).toBe(10);
-      expect(values.get('b')).toBe(20);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ stream: 'test:stream', lagging: true, exceeded: ['maxLag', 'maxStreamFill'] });
+
+      mockStreamInfo(0, 10, null);
+      await vi.waitFor(() => expect(events).toHaveLength(2));
+      expect(events[1]).toMatchObject({ lagging: false, exceeded: [] });
+
+      await bridge.stop();
+    });
+
+    it('should not collect when monitoring is disabled', async () => {
+      const bridge = createBridge();
+      await bridge.start();
+      expect(redis.xinfo).not.toHaveBeenCalled();
+      expect(bridge.getStats().streams).toEqual([]);
+      await bridge.stop();
     });
   });
 
-  describe('parseEvent', () => {
-    it('should emit warn for malformed events', async () => {
+  describe('health checks', () => {
+    it('should be live while the read loop keeps reading', async () => {
+      redis.xreadgroup.mockReset().mockImplementation(() => new Promise((r) => setTimeout(() => r(null), 5)));
+      const bridge = createBridge({ healthCheck: { maxReadAgeMs: 20 } });
+      await bridge.start();
+
+      await new Promise((r) => setTimeout(r, 50));
+      expect(bridge.checkLiveness()).toEqual({ ok: true, reasons: [] });
+      expect(bridge.getStats().lastReadAt).toBeInstanceOf(Date);
+
+      await bridge.stop();
+    });
+
+    it('should fail liveness when the read loop stops completing reads', async () => {
+      const bridge = createBridge({ healthCheck: { maxReadAgeMs: 20 } });
+      expect(bridge.checkLiveness()).toEqual({ ok: false, reasons: ['bridge is not running'] });
+
+      await bridge.start();
+      expect(bridge.checkLiveness().ok).toBe(true);
+
+      // The mock read loop hangs after recovery
+      await new Promise((r) => setTimeout(r, 40));
+      const result = bridge.checkLiveness();
+      expect(result.ok).toBe(false);
+      expect(result.reasons[0]).toMatch(/^no successful stream read for \d+ms$/);
+
+      await bridge.stop();
+    });
+
+    it('should be ready when Redis and the provider are healthy', async () => {
+      const healthCheck = vi.fn().mockResolvedValue(undefined);
+      const bridge = createBridge({ provider: { ...provider, healthCheck } });
+      await bridge.start();
+
+      expect(await bridge.checkReadiness()).toEqual({ ok: true, reasons: [] });
+      expect(redis.ping).toHaveBeenCalled();
+      expect(healthCheck).toHaveBeenCalled();
+
+      await bridge.stop();
+    });
+
+    it('should report failing and hung dependencies as not ready', async () => {
+      redis.ping.mockRejectedValue(new Error('Connection is closed.'));
+      const healthCheck = vi.fn().mockReturnValue(hang());
+      const bridge = createBridge({ provider: { ...provider, healthCheck }, healthCheck: { timeoutMs: 10 } });
+
+      expect(await bridge.checkReadiness()).toEqual({
+        ok: false,
+        reasons: ['bridge is not running', 'redis: Connection is closed.', 'provider: timed out after 10ms'],
+      });
+    });
+
+    it('should not be ready while a stream exceeds a monitoring threshold', async () => {
+      redis.xinfo.mockImplementation(async (kind: string) => (kind === 'GROUPS'
+        ? [['name', 'test-group', 'last-delivered-id', '0-0', 'lag', 50]]
+        : ['length', 50]));
+      redis.xpending.mockImplementation(async (...args: unknown[]) => (args.length === 2 ? [0, null, null, null] : []));
+      const bridge = createBridge({ monitoring: { intervalMs: 60_000, maxLag: 20 } });
+      await bridge.start();
+
+      expect(await bridge.checkReadiness()).toEqual({ ok: false, reasons: ['test:stream: maxLag exceeded'] });
+
+      await bridge.stop();
+    });
+  });
+
+  describe('retry backoff and circuit breaker', () => {
+    function failingRecovery() {
+      provider.flush.mockRejectedValue(new Error('DB down'));
       redis.xreadgroup.mockReset()
         .mockResolvedValueOnce([
           ['test:stream', [
-            ['7-0', ['bad', 'data']],
+            ['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
           ]],
         ])
         .mockReturnValue(hang());
+    }
 
-      const bridge = createBridge();
-      const warns: any[] = [];
-      bridge.on('warn', (w) => warns.push(w));
+    it('should back off instead of retrying every window', async () => {
+      failingRecovery();
+      const bridge = createBridge({
+        batching: { maxWaitMs: 5, maxMessages: 1000 },
+        retry: { initialDelayMs: 10_000, jitter: 0 },
+      });
+      bridge.on('error', () => {});
       await bridge.start();
 
-      expect(warns.some((w) => w.message === 'Dropped malformed event')).toBe(true);
+      await new Promise((r) => setTimeout(r, 50));
+      expect(provider.flush).toHaveBeenCalledOnce();
+      expect(bridge.getStats().consecutiveFailures).toBe(1);
 
       await bridge.stop();
     });
 
-    it('should handle malformed JSON metadata gracefully', async () => {
+    it('should open the circuit and stop reading after consecutive failures', async () => {
+      failingRecovery();
+      const bridge = createBridge({ circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60_000 } });
+      const circuit = vi.fn();
+      bridge.on('circuit', circuit);
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      expect(circuit).toHaveBeenCalledWith({ state: 'open', previous: 'closed', consecutiveFailures: 1 });
+      expect(bridge.getStats().circuitState).toBe('open');
+
+      await new Promise((r) => setTimeout(r, 20));
+      // Only the PEL recovery read — the read loop is paused
+      expect(redis.xreadgroup).toHaveBeenCalledOnce();
+
+      await bridge.stop();
+    });
+
+    it('should close the circuit after a successful half-open probe', async () => {
+      provider.flush.mockRejectedValueOnce(new Error('DB down'));
       redis.xreadgroup.mockReset()
         .mockResolvedValueOnce([
           ['test:stream', [
-            ['8-0', ['scope', 'x', 'delta', '1', 'timestamp', '1000', 'metadata', '{bad}']],
+            ['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({
+        batching: { maxWaitMs: 5, maxMessages: 1000 },
+        retry: { initialDelayMs: 1, jitter: 0 },
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 10 },
+      });
+      const states: string[] = [];
+      bridge.on('circuit', (c) => states.push(c.state));
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      await vi.waitFor(() => expect(states).toEqual(['open', 'half-open', 'closed']));
+      expect(provider.flush).toHaveBeenCalledTimes(2);
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0');
+
+      await bridge.stop();
+    });
+  });
+
+  describe('ops', () => {
+    function recoverOps() {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', ['scope', 'a', 'delta', '3', 'timestamp', '1000']],
+            ['2-0', ['scope', 'a', 'delta', '10', 'timestamp', '1000', 'op', 'set']],
+            ['3-0', ['scope', 'b', 'delta', '1', 'timestamp', '1000']],
           ]],
         ])
         .mockReturnValue(hang());
+    }
 
+    it('should pass set/max/min updates to a provider that supports them', async () => {
+      recoverOps();
+      (provider as any).operations = ['add', 'set', 'max', 'min'];
       const bridge = createBridge();
-      const warns: any[] = [];
-      bridge.on('warn', (w) => warns.push(w));
       await bridge.start();
 
-      // Event with bad metadata should still be processed — flush happens in recovery
-      expect(provider.flush).toHaveBeenCalled();
-      expect(warns.some((w) => w.message === 'Failed to parse event metadata')).toBe(true);
+      const [batch, context] = provider.flush.mock.calls[0];
+      expect(batch.get('b')).toBe(1);
+      expect(context.updates.get('a')).toEqual({ delta: 0, floor: 10, ceiling: 10 });
+      expect(context.updates.has('b')).toBe(false);
+
+      await bridge.stop();
+    });
+
+    it('should keep the update when retrying a failed flush', async () => {
+      recoverOps();
+      (provider as any).operations = ['add', 'set'];
+      provider.flush.mockRejectedValueOnce(new Error('DB down'));
+      const bridge = createBridge({
+        batching: { maxWaitMs: 5, maxMessages: 1000 },
+        retry: { initialDelayMs: 1, jitter: 0 },
+      });
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      await vi.waitFor(() => expect(provider.flush).toHaveBeenCalledTimes(2));
+      const [, context] = provider.flush.mock.calls[1];
+      expect(context.updates.get('a')).toEqual({ delta: 0, floor: 10, ceiling: 10 });
+
+      await bridge.stop();
+    });
+
+    it('should dead-letter ops the provider does not support', async () => {
+      recoverOps();
+      const bridge = createBridge();
+      const deadLetters: any[] = [];
+      bridge.on('deadLetter', (d) => deadLetters.push(d));
+      bridge.on('warn', () => {});
+      await bridge.start();
+
+      expect(deadLetters).toEqual([expect.objectContaining({ reason: 'unsupported-op', sourceId: '2-0' })]);
+      const [batch, context] = provider.flush.mock.calls[0];
+      expect(batch.get('a')).toBe(3);
+      expect(context.updates).toBeUndefined();
+
+      await bridge.stop();
+    });
+
+    it('should dead-letter unknown ops', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [['1-0', ['scope', 'a', 'delta', '1', 'op', 'mul']]]],
+        ])
+        .mockReturnValue(hang());
+      const bridge = createBridge();
+      const warn = vi.fn();
+      bridge.on('warn', warn);
+      await bridge.start();
+
+      expect(warn).toHaveBeenCalledWith({ message: 'Rejected unknown op', scope: 'a', op: 'mul' });
+      expect(redis.xadd.mock.calls[0]).toContain('unsupported-op');
+
+      await bridge.stop();
+    });
+  });
+
+  describe('partitioned streams', () => {
+    it('should create groups for and read only the assigned partitions', async () => {
+      redis.xreadgroup.mockReset().mockResolvedValueOnce(null).mockResolvedValueOnce(null).mockReturnValue(hang());
+      const bridge = createBridge({ partitions: { count: 4, assigned: [1, 3] } });
+      await bridge.start();
+
+      expect(redis.xgroup).toHaveBeenCalledTimes(2);
+      expect(redis.xgroup).toHaveBeenCalledWith('CREATE', 'test:stream:1', 'test-group', '0', 'MKSTREAM');
+      expect(redis.xgroup).toHaveBeenCalledWith('CREATE', 'test:stream:3', 'test-group', '0', 'MKSTREAM');
+
+      await vi.waitFor(() => expect(redis.xreadgroup).toHaveBeenCalledTimes(3));
+      // The block time is split across the assigned streams
+      expect(redis.xreadgroup).toHaveBeenLastCalledWith(
+        'GROUP', 'test-group', 'test-consumer', 'COUNT', 1000, 'BLOCK', 250, 'STREAMS', 'test:stream:1', '>'
+      );
 
       await bridge.stop();
     });
+
+    it('should ACK each entry on the stream it was read from', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream:0', [['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']]]],
+        ])
+        .mockResolvedValueOnce([
+          ['test:stream:1', [['1-0', ['scope', 'b', 'delta', '2', 'timestamp', '1000']]]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ partitions: { count: 2 } });
+      await bridge.start();
+
+      const batch = provider.flush.mock.calls[0][0] as Map<string, number>;
+      expect(batch.get('a')).toBe(1);
+      expect(batch.get('b')).toBe(2);
+      expect(redis.xack).toHaveBeenCalledWith('test:stream:0', 'test-group', '1-0');
+      expect(redis.xack).toHaveBeenCalledWith('test:stream:1', 'test-group', '1-0');
+
+      await bridge.stop();
+    });
+
+    it('should reject partitions outside the partition count', () => {
+      expect(() => createBridge({ partitions: { count: 2, assigned: [2] } }))
+        .toThrow('Assigned partition 2 is outside 0..1');
+    });
+  });
+
+  describe('backpressure', () => {
+    function readTwoScopes() {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['2-0', ['scope', 'b', 'delta', '1', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+    }
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should pause reading when buffers are full and resume after a flush drains them', async () => {
+      vi.useFakeTimers();
+      readTwoScopes();
+      provider.flush.mockRejectedValueOnce(new Error('DB down'));
+      const bridge = createBridge({
+        batching: { maxWaitMs: 5, maxMessages: 1000 },
+        retry: { initialDelayMs: 30, jitter: 0 },
+        circuitBreaker: { failureThreshold: 0 },
+        backpressure: { maxScopes: 2 },
+      });
+      const events: any[] = [];
+      bridge.on('backpressure', (e) => events.push(e));
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      // Filling the buffers flushes at once; the failure backs off for 30ms
+      await vi.advanceTimersByTimeAsync(0);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ paused: true, limit: 'maxScopes', bufferedScopes: 2, bufferedIds: 2 });
+      expect(bridge.getStats().backpressured).toBe(true);
+      expect(redis.xreadgroup).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(29);
+      expect(events).toHaveLength(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(events).toHaveLength(2);
+      expect(events[1]).toMatchObject({ paused: false, bufferedScopes: 0, bufferedIds: 0 });
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0', '2-0');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(redis.xreadgroup).toHaveBeenCalledTimes(3);
+
+      await bridge.stop();
+    });
+
+    it('should stay paused while the provider keeps failing', async () => {
+      readTwoScopes();
+      provider.flush.mockRejectedValue(new Error('DB down'));
+      const bridge = createBridge({
+        batching: { maxWaitMs: 5, maxMessages: 1000 },
+        retry: { initialDelayMs: 1, jitter: 0 },
+        circuitBreaker: { failureThreshold: 0 },
+        backpressure: { maxMemoryBytes: 1 },
+      });
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      await new Promise((r) => setTimeout(r, 50));
+      expect(provider.flush.mock.calls.length).toBeGreaterThan(1);
+      expect(redis.xreadgroup).toHaveBeenCalledTimes(2);
+
+      const stats = bridge.getStats();
+      expect(stats.backpressured).toBe(true);
+      expect(stats.bufferedScopes).toBe(2);
+      expect(stats.estimatedMemoryBytes).toBeGreaterThan(0);
+
+      await bridge.stop();
+    });
+  });
+
+  describe('dead-letter stream', () => {
+    it('should dead-letter and ACK malformed events', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['7-0', ['bad', 'data']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      const deadLetters: any[] = [];
+      bridge.on('deadLetter', (d) => deadLetters.push(d));
+      bridge.on('warn', () => {});
+      await bridge.start();
+
+      await vi.waitFor(() => expect(deadLetters).toHaveLength(1));
+      const args = redis.xadd.mock.calls[0];
+      expect(args[0]).toBe('test:stream:dlq');
+      expect(args.slice(2, 6)).toEqual(['reason', 'malformed', 'fields', '["bad","data"]']);
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '7-0');
+      expect(deadLetters[0]).toMatchObject({ reason: 'malformed', sourceId: '7-0' });
+      expect(bridge.getStats().deadLettered).toBe(1);
+
+      await bridge.stop();
+    });
+
+    it('should dead-letter recovered entries over the delivery limit', async () => {
+      redis.xpending.mockResolvedValueOnce([['1-0', 'test-consumer', 1000, 3]]);
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['2-0', ['scope', 'b', 'delta', '1', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ deadLetter: { maxDeliveries: 3 } });
+      await bridge.start();
+
+      expect(redis.xpending).toHaveBeenCalledWith('test:stream', 'test-group', '-', '+', 1000, 'test-consumer');
+      const dlqArgs = redis.xadd.mock.calls[0];
+      expect(dlqArgs[3]).toBe('max-deliveries');
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0');
+
+      const batch = provider.flush.mock.calls[0][0] as Map<string, number>;
+      expect(batch.has('a')).toBe(false);
+      expect(batch.get('b')).toBe(1);
+
+      await bridge.stop();
+    });
+
+    it('should dead-letter a scope after repeated partial flush failures', async () => {
+      provider.flush.mockResolvedValueOnce({ failed: new Map([['b', 2]]) });
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['4-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['5-0', ['scope', 'b', 'delta', '2', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ deadLetter: { maxFlushFailures: 1 } });
+      bridge.on('warn', () => {});
+      await bridge.start();
+
+      const args = redis.xadd.mock.calls[0];
+      expect(args[0]).toBe('test:stream:dlq');
+      expect(args[3]).toBe('flush-failed');
+      expect(JSON.parse(args[5]).slice(0, 4)).toEqual(['scope', 'b', 'delta', '2']);
+      // Not re-added to the aggregator
+      expect(bridge.getStats().pendingMessages).toBe(0);
+
+      await bridge.stop();
+    });
+
+    it('should dead-letter events with non-numeric deltas instead of aggregating them', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', ['scope', 'a', 'delta', 'abc', 'timestamp', '1000']],
+            ['2-0', ['scope', 'a', 'delta', '', 'timestamp', '1000']],
+            ['3-0', ['scope', 'a', 'delta', '2', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      const warns: any[] = [];
+      bridge.on('warn', (w) => warns.push(w));
+      await bridge.start();
+
+      expect(redis.xadd).toHaveBeenCalledTimes(2);
+      expect(redis.xadd.mock.calls[0][3]).toBe('invalid-delta');
+      expect(warns.filter((w) => w.message === 'Rejected invalid delta')).toHaveLength(2);
+
+      const batch = provider.flush.mock.calls[0][0] as Map<string, number>;
+      expect(batch.get('a')).toBe(2);
+
+      await bridge.stop();
+    });
+
+    it('should apply the configured numeric policy', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', ['scope', 'a', 'delta', '1.5', 'timestamp', '1000']],
+            ['2-0', ['scope', 'a', 'delta', '1e300', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ numericPolicy: { integerOnly: true } });
+      bridge.on('warn', () => {});
+      await bridge.start();
+
+      expect(redis.xadd).toHaveBeenCalledTimes(2);
+      expect(provider.flush).not.toHaveBeenCalled();
+
+      await bridge.stop();
+    });
+
+    it('should leave malformed events un-ACK\'d when disabled', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['7-0', ['bad', 'data']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ deadLetter: { enabled: false } });
+      bridge.on('warn', () => {});
+      await bridge.start();
+
+      expect(redis.xadd).not.toHaveBeenCalled();
+      expect(redis.xack).not.toHaveBeenCalled();
+      await expect(bridge.listDeadLetters()).rejects.toThrow('disabled');
+
+      await bridge.stop();
+    });
+  });
+
+  describe('stale entry reclaim', () => {
+    /** XPENDING calls made by the claim scan (those with IDLE). */
+    const claimScans = () => redis.xpending.mock.calls.filter((args) => args[2] === 'IDLE');
+
+    it('should claim idle entries from other consumers and aggregate them', async () => {
+      redis.xpending
+        .mockResolvedValueOnce([]) // PEL recovery delivery counts
+        .mockResolvedValueOnce([
+          ['20-0', 'consumer-dead-1', 120000, 1],
+          ['21-0', 'consumer-dead-2', 90000, 2],
+        ]);
+      redis.xclaim.mockResolvedValueOnce([
+        ['20-0', ['scope', 'a', 'delta', '2', 'timestamp', '1000']],
+        ['21-0', ['scope', 'a', 'delta', '3', 'timestamp', '1000']],
+      ]);
+
+      const bridge = createBridge({ claim: { intervalMs: 5, minIdleMs: 60000 } });
+      const claims: any[] = [];
+      bridge.on('claim', (c) => claims.push(c));
+      await bridge.start();
+
+      await vi.waitFor(() => expect(claims).toHaveLength(1));
+      expect(redis.xpending).toHaveBeenCalledWith(
+        'test:stream', 'test-group', 'IDLE', 60000, '0-0', '+', 1000
+      );
+      expect(redis.xclaim).toHaveBeenCalledWith(
+        'test:stream', 'test-group', 'test-consumer', 60000, '20-0', '21-0'
+      );
+      expect(claims[0]).toEqual({
+        stream: 'test:stream',
+        messageCount: 2,
+        alreadyApplied: 0,
+        fromConsumers: { 'consumer-dead-1': 1, 'consumer-dead-2': 1 },
+      });
+      expect(bridge.getStats().claimedMessages).toBe(2);
+
+      await bridge.stop();
+      const batch = provider.flush.mock.calls[0][0] as Map<string, number>;
+      expect(batch.get('a')).toBe(5);
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '20-0', '21-0');
+    });
+
+    it('should resume scanning after a full page and wrap around after a partial one', async () => {
+      redis.xpending
+        .mockResolvedValueOnce([]) // PEL recovery delivery counts
+        .mockResolvedValueOnce([['20-0', 'consumer-dead', 90000, 1], ['21-0', 'consumer-dead', 90000, 1]])
+        .mockResolvedValueOnce([['22-0', 'consumer-dead', 90000, 1]]);
+
+      const bridge = createBridge({ claim: { intervalMs: 5 }, batching: { maxWaitMs: 500, maxMessages: 2 } });
+      await bridge.start();
+
+      await vi.waitFor(() => expect(claimScans().length).toBeGreaterThanOrEqual(3));
+      expect(claimScans().slice(0, 3).map((args) => args[4])).toEqual(['0-0', '(21-0', '0-0']);
+
+      await bridge.stop();
+    });
+
+    it('should leave entries it still buffers alone', async () => {
+      provider.flush.mockRejectedValue(new Error('DB down'));
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([['test:stream', [['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']]]]])
+        .mockReturnValue(hang());
+      redis.xpending
+        .mockResolvedValueOnce([]) // PEL recovery delivery counts
+        .mockResolvedValue([['1-0', 'test-consumer', 70000, 1], ['20-0', 'consumer-dead', 70000, 1]]);
+
+      const bridge = createBridge({
+        claim: { intervalMs: 5 },
+        retry: { initialDelayMs: 60_000, jitter: 0 },
+        circuitBreaker: { failureThreshold: 0 },
+      });
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      await vi.waitFor(() => expect(redis.xclaim).toHaveBeenCalled());
+      expect(redis.xclaim.mock.calls.every((args) => !args.includes('1-0'))).toBe(true);
+      expect(redis.xclaim.mock.calls[0].slice(4)).toEqual(['20-0']);
+
+      provider.flush.mockResolvedValue(undefined);
+      await bridge.stop();
+    });
+
+    it('should not scan while a flush is in flight', async () => {
+      let release!: () => void;
+      provider.flush.mockImplementationOnce(() => new Promise<void>((resolve) => { release = resolve; }));
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce([['test:stream', [['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']]]]])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ claim: { intervalMs: 5 }, batching: { maxWaitMs: 5, maxMessages: 1000 } });
+      await bridge.start();
+      await vi.waitFor(() => expect(provider.flush).toHaveBeenCalledOnce());
+      const scansBefore = claimScans().length;
+
+      await new Promise((r) => setTimeout(r, 30));
+      expect(claimScans()).toHaveLength(scansBefore);
+      expect(redis.xclaim).not.toHaveBeenCalled();
+
+      release();
+      await bridge.stop();
+      expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0');
+    });
+
+    it('should not scan while the circuit is open', async () => {
+      provider.flush.mockRejectedValue(new Error('DB down'));
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([['test:stream', [['1-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']]]]])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({
+        claim: { intervalMs: 5 },
+        circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60_000 },
+      });
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      await new Promise((r) => setTimeout(r, 30));
+      expect(claimScans()).toHaveLength(0);
+
+      await bridge.stop();
+    });
+
+    it('should not scan when claiming is disabled', async () => {
+      const bridge = createBridge({ claim: { intervalMs: 0 } });
+      await bridge.start();
+      await new Promise((r) => setTimeout(r, 20));
+      expect(claimScans()).toHaveLength(0);
+      expect(redis.xclaim).not.toHaveBeenCalled();
+      await bridge.stop();
+    });
+  });
+
+  describe('get / getBatch', () => {
+    it('should delegate get() to the provider', async () => {
+      provider.get.mockResolvedValueOnce(42);
+      const bridge = createBridge();
+      const value = await bridge.get('post:1:likes');
+      expect(value).toBe(42);
+      expect(provider.get).toHaveBeenCalledWith('post:1:likes');
+    });
+
+    it('should delegate getBatch() to the provider when available', async () => {
+      const result = new Map([['a', 1], ['b', 2]]);
+      provider.getBatch.mockResolvedValueOnce(result);
+      const bridge = createBridge();
+      const values = await bridge.getBatch(['a', 'b']);
+      expect(values).toEqual(result);
+    });
+
+    it('should fall back to individual gets when getBatch is not available', async () => {
+      const providerNoBatch: ICounterProvider = {
+        flush: vi.fn(),
+        get: vi.fn()
+          .mockResolvedValueOnce(10)
+          .mockResolvedValueOnce(20),
+      };
+
+      const bridge = new CounterBridge({
+        redis: redis as any,
+        provider: providerNoBatch,
+      });
+
+      const values = await bridge.getBatch(['a', 'b']);
+      expect(values.get('a')).toBe(10);
+      expect(values.get('b')).toBe(20);
+    });
+  });
+
+  describe('read-your-writes', () => {
+    const tracked = (scope: string, delta: string) =>
+      ['scope', scope, 'delta', delta, 'timestamp', '1000', 'pending', '1'];
+
+    it('should add pending deltas to consistent reads', async () => {
+      provider.get.mockResolvedValueOnce(10);
+      provider.getBatch.mockResolvedValueOnce(new Map([['a', 1], ['b', 2]]));
+      redis.hmget.mockResolvedValueOnce(['3']).mockResolvedValueOnce(['4', null]);
+      const bridge = createBridge();
+
+      expect(await bridge.get('a', { consistent: true })).toBe(13);
+      expect(redis.hmget).toHaveBeenCalledWith('{test:stream}:pending', 'a');
+      expect(await bridge.getBatch(['a', 'b'], { consistent: true }))
+        .toEqual(new Map([['a', 5], ['b', 2]]));
+    });
+
+    it('should not read the pending hash by default', async () => {
+      const bridge = createBridge();
+      await bridge.get('a');
+      expect(redis.hmget).not.toHaveBeenCalled();
+    });
+
+    it('should release tracked adds in the same MULTI as the ACK', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', tracked('a', '2')],
+            ['2-0', tracked('a', '3')],
+            ['3-0', ['scope', 'b', 'delta', '1', 'timestamp', '1000']],
+            ['4-0', [...tracked('c', '5'), 'op', 'set']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+      (provider as any).operations = ['add', 'set'];
+
+      const bridge = createBridge();
+      await bridge.start();
+
+      expect(redis.xack).not.toHaveBeenCalled();
+      expect(redis.tx.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0', '2-0', '3-0', '4-0');
+      expect(redis.tx.eval).toHaveBeenCalledWith(
+        expect.stringContaining('HINCRBYFLOAT'), 1, '{test:stream}:pending', 'a', '-5'
+      );
+
+      await bridge.stop();
+    });
+
+    it('should keep failed scopes pending until a later flush persists them', async () => {
+      provider.flush
+        .mockResolvedValueOnce({ failed: new Map([['b', 4]]) })
+        .mockResolvedValueOnce(undefined);
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', tracked('a', '1')],
+            ['2-0', tracked('b', '4')],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      bridge.on('warn', () => {});
+      await bridge.start();
+      expect(redis.tx.eval).toHaveBeenLastCalledWith(
+        expect.any(String), 1, '{test:stream}:pending', 'a', '-1'
+      );
+
+      await bridge.stop();
+      // The final flush persists b; its IDs were already ACK'd
+      expect(redis.tx.eval).toHaveBeenLastCalledWith(
+        expect.any(String), 1, '{test:stream}:pending', 'b', '-4'
+      );
+      expect(redis.tx.xack).toHaveBeenCalledOnce();
+    });
+
+    it('should keep the source of a failed remapped scope pending', async () => {
+      provider.flush
+        .mockResolvedValueOnce({ failed: new Map([['v1:a', 1]]) })
+        .mockResolvedValueOnce(undefined);
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['1-0', tracked('v0:a', '1')],
+            ['2-0', tracked('b', '4')],
+          ]],
+        ])
+        .mockReturnValue(hang());
+      const remap: FlushMiddleware = {
+        before: (entries) => entries.map((e) => ({ ...e, scope: e.scope.replace(/^v0:/, 'v1:') })),
+      };
+
+      const bridge = createBridge({ middleware: [remap] });
+      bridge.on('warn', () => {});
+      await bridge.start();
+      expect(redis.tx.eval).toHaveBeenLastCalledWith(
+        expect.any(String), 1, '{test:stream}:pending', 'b', '-4'
+      );
+
+      await bridge.stop();
+      expect(provider.flush).toHaveBeenLastCalledWith(new Map([['v1:a', 1]]), {});
+      expect(redis.tx.eval).toHaveBeenLastCalledWith(
+        expect.any(String), 1, '{test:stream}:pending', 'v0:a', '-1'
+      );
+    });
+
+    it('should retry the release with the next flush when the MULTI fails', async () => {
+      redis.tx.exec.mockResolvedValueOnce([[new Error('Redis timeout'), null], [null, 0]]);
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([['test:stream', [['1-0', tracked('a', '1')]]]])
+        .mockResolvedValueOnce([['test:stream', [['2-0', tracked('a', '1')]]]])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      bridge.on('error', () => {});
+      await bridge.start();
+      await bridge.stop();
+
+      expect(provider.flush.mock.calls[1][0].get('a')).toBe(1);
+      expect(redis.tx.xack).toHaveBeenLastCalledWith('test:stream', 'test-group', '1-0', '2-0');
+      expect(redis.tx.eval).toHaveBeenLastCalledWith(
+        expect.any(String), 1, '{test:stream}:pending', 'a', '-2'
+      );
+    });
+
+    it('should release tracked adds that are dead-lettered', async () => {
+      redis.xpending.mockResolvedValueOnce([['1-0', 'test-consumer', 0, 10]]);
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([['test:stream', [['1-0', tracked('a', '2')]]]])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      await bridge.start();
+
+      expect(redis.tx.xack).toHaveBeenCalledWith('test:stream', 'test-group', '1-0');
+      expect(redis.tx.eval).toHaveBeenCalledWith(
+        expect.any(String), 1, '{test:stream}:pending', 'a', '-2'
+      );
+      expect(provider.flush).not.toHaveBeenCalled();
+
+      await bridge.stop();
+    });
+  });
+
+  describe('getSeries', () => {
+    it('should delegate to the provider', async () => {
+      const series = [{ start: new Date(0), value: 3 }];
+      (provider as any).getSeries = vi.fn().mockResolvedValue(series);
+      const bridge = createBridge();
+
+      const from = new Date(0);
+      const to = new Date(3_600_000);
+      expect(await bridge.getSeries('a', from, to, 'hour')).toBe(series);
+      expect((provider as any).getSeries).toHaveBeenCalledWith('a', from, to, 'hour');
+    });
+
+    it('should throw when the provider does not support series', async () => {
+      const bridge = createBridge();
+      await expect(bridge.getSeries('a', new Date(0), new Date(1), 'hour'))
+        .rejects.toThrow('Provider does not support time series');
+    });
+  });
+
+  describe('parseEvent', () => {
+    it('should emit warn for malformed events', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['7-0', ['bad', 'data']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      const warns: any[] = [];
+      bridge.on('warn', (w) => warns.push(w));
+      await bridge.start();
+
+      expect(warns.some((w) => w.message === 'Dropped malformed event')).toBe(true);
+
+      await bridge.stop();
+    });
+
+    it('should handle malformed JSON metadata gracefully', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['8-0', ['scope', 'x', 'delta', '1', 'timestamp', '1000', 'metadata', '{bad}']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      const warns: any[] = [];
+      bridge.on('warn', (w) => warns.push(w));
+      await bridge.start();
+
+      // Event with bad metadata should still be processed — flush happens in recovery
+      expect(provider.flush).toHaveBeenCalled();
+      expect(warns.some((w) => w.message === 'Failed to parse event metadata')).toBe(true);
+
+      await bridge.stop();
+    });
+  });
+
+  describe('idempotent mode', () => {
+    beforeEach(() => {
+      (provider as any).getWatermarks = vi.fn().mockResolvedValue(new Map());
+    });
+
+    it('should refuse to start without provider.getWatermarks', async () => {
+      delete (provider as any).getWatermarks;
+      const bridge = createBridge({ idempotent: true });
+      await expect(bridge.start()).rejects.toThrow('getWatermarks');
+    });
+
+    it('should pass per-scope watermarks to the provider', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['10-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['11-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['12-0', ['scope', 'b', 'delta', '1', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ idempotent: true });
+      await bridge.start();
+
+      const [batch, context] = provider.flush.mock.calls[0];
+      expect(batch.get('a')).toBe(2);
+      expect(context.watermarks.get('a')).toBe('11-0');
+      expect(context.watermarks.get('b')).toBe('12-0');
+
+      await bridge.stop();
+    });
+
+    it('should not pass watermarks when idempotent mode is off', async () => {
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['10-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      await bridge.start();
+
+      const [, context] = provider.flush.mock.calls[0];
+      expect(context.watermarks).toBeUndefined();
+
+      await bridge.stop();
+    });
+
+    it('should retry a failed flush under its own watermark, before newer events for the scope', async () => {
+      // The provider may have committed before the call failed
+      provider.flush.mockRejectedValueOnce(new Error('timed out'));
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([['test:stream', [['10-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']]]]])
+        .mockResolvedValueOnce([['test:stream', [['20-0', ['scope', 'a', 'delta', '5', 'timestamp', '1000']]]]])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({
+        idempotent: true,
+        batching: { maxWaitMs: 5, maxMessages: 1000 },
+        retry: { initialDelayMs: 5, jitter: 0 },
+      });
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      await vi.waitFor(() => expect(provider.flush).toHaveBeenCalledTimes(3));
+      const flushed = provider.flush.mock.calls.map(([batch, context]) => [
+        Object.fromEntries(batch), Object.fromEntries(context.watermarks),
+      ]);
+      expect(flushed).toEqual([
+        [{ a: 1 }, { a: '10-0' }],
+        [{ a: 1 }, { a: '10-0' }],
+        [{ a: 5 }, { a: '20-0' }],
+      ]);
+      await vi.waitFor(() => expect(redis.xack).toHaveBeenCalledWith('test:stream', 'test-group', '10-0', '20-0'));
+
+      await bridge.stop();
+    });
+
+    it('should ACK recovered messages at or below the stored watermark without re-applying them', async () => {
+      (provider as any).getWatermarks.mockResolvedValueOnce(new Map([['a', '11-0']]));
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['10-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['11-0', ['scope', 'a', 'delta', '1', 'timestamp', '1000']],
+            ['12-0', ['scope', 'a', 'delta', '5', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge({ idempotent: true });
+      const recovery = vi.fn();
+      bridge.on('recovery', recovery);
+      await bridge.start();
+
+      expect((provider as any).getWatermarks).toHaveBeenCalledWith(['a']);
+      expect(redis.xack).toHaveBeenNthCalledWith(1, 'test:stream', 'test-group', '10-0', '11-0');
+      const [batch] = provider.flush.mock.calls[0];
+      expect(batch.get('a')).toBe(5);
+      expect(redis.xack).toHaveBeenNthCalledWith(2, 'test:stream', 'test-group', '12-0');
+      expect(recovery).toHaveBeenCalledWith({ messageCount: 1, alreadyApplied: 2 });
+
+      await bridge.stop();
+    });
+  });
+
+  describe('ACK failure', () => {
+    it('should not re-add persisted deltas when XACK fails', async () => {
+      redis.xack.mockRejectedValueOnce(new Error('Redis timeout'));
+      redis.xreadgroup.mockReset()
+        .mockResolvedValueOnce([
+          ['test:stream', [
+            ['9-0', ['scope', 'z', 'delta', '1', 'timestamp', '1000']],
+          ]],
+        ])
+        .mockReturnValue(hang());
+
+      const bridge = createBridge();
+      bridge.on('error', () => {});
+      await bridge.start();
+
+      expect(provider.flush).toHaveBeenCalledOnce();
+      expect(bridge.getStats().pendingMessages).toBe(0);
+      expect(bridge.getStats().errorCount).toBe(1);
+
+      await bridge.stop();
+      expect(provider.flush).toHaveBeenCalledOnce();
+    });
   });
 });
@@ -1,38 +1,166 @@
 import Redis from 'ioredis';
 import { EventEmitter } from 'events';
-import type { CoreConfig, ICounterProvider, CounterEvent, SyncStats } from '@counter-bridge/types';
-import { Aggregator } from './aggregator';
+import {
+  getTracing,
+  partitionStreamKey,
+  pendingDeltaKey,
+  RELEASE_PENDING_SCRIPT,
+  streamKeyFor,
+  validateDelta,
+} from '@counter-bridge/types';
+import type {
+  BackpressureConfig,
+  CoreConfig,
+  ICounterProvider,
+  CounterEvent,
+  CounterOp,
+  CounterUpdate,
+  FlushResult,
+  Granularity,
+  HealthCheckConfig,
+  HealthCheckResult,
+  LagThreshold,
+  MonitoringConfig,
+  SeriesPoint,
+  StreamHealth,
+  SyncStats,
+  DeadLetterEntry,
+  DeadLetterReason,
+  NumericPolicy,
+  PartitionConfig,
+  RetryConfig,
+  ScopeMetadata,
+  TraceLink,
+  TraceSpan,
+} from '@counter-bridge/types';
+import { Aggregator, updateOps } from './aggregator';
+import { CircuitBreaker, CIRCUIT_BREAKER_DEFAULTS } from './circuit-breaker';
+import { computeBackoff, RETRY_DEFAULTS } from './retry';
+import { DeadLetterQueue } from './dead-letter';
+import { errorMessage } from './errors';
+import { FlushPipeline } from './middleware';
+import type { PreparedBatch } from './middleware';
+import { compareStreamIds } from './stream-id';
 
 const DEFAULTS = {
   STREAM_KEY: 'counter-bridge:events',
   GROUP_NAME: 'counter-bridge-group',
   WINDOW_MS: 500,
   MAX_BATCH_SIZE: 1000,
+  CLAIM_MIN_IDLE_MS: 60_000,
+  CLAIM_INTERVAL_MS: 30_000,
+  MAX_DELIVERIES: 10,
+  MAX_FLUSH_FAILURES: 5,
+  BACKPRESSURE: {
+    maxScopes: 100_000,
+    maxPendingIds: 100_000,
+    maxMemoryBytes: 64 * 1024 * 1024,
+  },
+  MONITORING: {
+    intervalMs: 15_000,
+    maxLag: 10_000,
+    maxPendingAgeMs: 300_000,
+    maxStreamLength: 100_000,
+    maxStreamFill: 0.9,
+  },
+  HEALTH_CHECK: {
+    maxReadAgeMs: 60_000,
+    timeoutMs: 2_000,
+  },
 };
 
+/** Rough heap cost of one pending stream ID ("<ms>-<seq>") in the array */
+const PENDING_ID_BYTES = 64;
+
+/** Most producer spans a receive or flush span links to */
+const MAX_TRACE_LINKS = 128;
+
+type StreamEntry = [id: string, fields: string[]];
+/** Un-ACK'd entry IDs per stream key */
+type PendingIds = Map<string, string[]>;
+/** `XPENDING <stream> <group>` summary: count, oldest and newest ID, per-consumer counts */
+type PendingSummary = [count: number, oldest: string | null, newest: string | null, consumers: [string, string][] | null];
+/** Tracked add deltas not yet released from each stream's pending-delta hash, by scope */
+type TrackedDeltas = Map<string, Map<string, number>>;
+/** A batch the provider answered, with its result and how long the call took */
+type ProviderFlush = { prepared: PreparedBatch; result: FlushResult | void; durationMs: number };
+type ParsedEvent =
+  | { event: CounterEvent }
+  | { reason: 'malformed' | 'invalid-delta' | 'unsupported-op'; error: string };
+
+const OPS: readonly CounterOp[] = ['add', 'set', 'max', 'min'];
+
 /**
  * Core CounterBridge engine.
  *
  * Reads from a Redis Stream using Consumer Groups, aggregates deltas
  * in-memory via windowing, and flushes batches to the configured provider.
+ * With `partitions` configured it reads its assigned partition streams
+ * instead, one XREADGROUP per stream so they may live on different
+ * Redis Cluster slots.
  *
  * Guarantees at-least-once delivery: messages are only ACK'd after the
- * provider successfully persists them.
+ * provider successfully persists them. In idempotent mode the provider
+ * also receives per-scope stream watermarks and skips replayed deltas,
+ * giving effectively exactly-once application.
  */
 export class CounterBridge extends EventEmitter {
   private redis: Redis;
   private provider: ICounterProvider;
   private aggregator: Aggregator;
+  /**
+   * Provider scopes from flushes that failed, kept as they were flushed
+   * and under their own watermarks until a retry gets them through.
+   * Re-running the middleware would also re-apply the outputs that did
+   * flush, and folding them into newer events would hide from idempotent
+   * providers what they had already applied.
+   */
+  private retries = new Aggregator();
+  /** Drained scopes each retried provider scope derives from, whose tracked deltas it holds back */
+  private retrySources = new Map<string, string[]>();
+  private pipeline: FlushPipeline;
   private running = false;
   private flushing: Promise<void> | null = null;
   private flushTimer: ReturnType<typeof setTimeout> | null = null;
-  private pendingIds: string[] = [];
+  private claimTimer: ReturnType<typeof setTimeout> | null = null;
+  private monitorTimer: ReturnType<typeof setTimeout> | null = null;
+  private streamHealth = new Map<string, StreamHealth>();
+  private claimCursors = new Map<string, string>();
+  /** IDs of the flush in progress, taken out of `pendingIds` until it ACKs or restores them */
+  private flushingIds = new Map<string, string[]>();
+  private pendingIds: PendingIds = new Map();
+  private trackedDeltas: TrackedDeltas = new Map();
+  private traceLinks: TraceLink[] = [];
+  private readonly tracing = getTracing();
+  private nextStream = 0;
+  private deadLetters: DeadLetterQueue | null;
+  private scopeFailures = new Map<string, number>();
+  private breaker: CircuitBreaker;
+  /** Earliest time (epoch ms) the next flush may be attempted after a failure */
+  private retryAt = 0;
+  private readFailures = 0;
+  /** When the read loop last read or deliberately paused (epoch ms) */
+  private readLoopAt = 0;
+  private backpressured = false;
 
   private readonly streamKey: string;
+  private readonly partitionCount: number;
+  /** Streams this consumer reads: `streamKey` or its assigned partitions */
+  private readonly streams: string[];
   private readonly groupName: string;
   private readonly consumerName: string;
   private readonly windowMs: number;
   private readonly maxBatchSize: number;
+  private readonly idempotent: boolean;
+  private readonly claimMinIdleMs: number;
+  private readonly claimIntervalMs: number;
+  private readonly maxDeliveries: number;
+  private readonly maxFlushFailures: number;
+  private readonly numericPolicy: NumericPolicy;
+  private readonly retry: Required<RetryConfig>;
+  private readonly limits: Required<BackpressureConfig>;
+  private readonly monitoring: Required<MonitoringConfig>;
+  private readonly healthCheck: Required<HealthCheckConfig>;
 
   private stats: SyncStats = {
     eventsProcessed: 0,
@@ -41,6 +169,15 @@ export class CounterBridge extends EventEmitter {
     pendingMessages: 0,
     avgBatchSize: 0,
     errorCount: 0,
+    claimedMessages: 0,
+    deadLettered: 0,
+    circuitState: 'closed',
+    consecutiveFailures: 0,
+    backpressured: false,
+    bufferedScopes: 0,
+    bufferedIds: 0,
+    estimatedMemoryBytes: 0,
+    streams: [],
   };
 
   constructor(config: CoreConfig) {
@@ -49,39 +186,79 @@ export class CounterBridge extends EventEmitter {
       ? new Redis(config.redis as string)
       : config.redis as Redis;
     this.provider = config.provider;
-    this.aggregator = new Aggregator();
+    this.aggregator = new Aggregator(config.buckets);
+    this.pipeline = new FlushPipeline(config.middleware);
 
     this.streamKey = config.streamKey ?? DEFAULTS.STREAM_KEY;
+    this.partitionCount = config.partitions?.count ?? 1;
+    this.streams = assignedStreams(this.streamKey, config.partitions);
     this.groupName = config.consumerGroup ?? DEFAULTS.GROUP_NAME;
     this.consumerName = config.consumerId ?? `consumer-${process.pid}-${Date.now()}`;
     this.windowMs = config.batching?.maxWaitMs ?? DEFAULTS.WINDOW_MS;
     this.maxBatchSize = config.batching?.maxMessages ?? DEFAULTS.MAX_BATCH_SIZE;
+    this.idempotent = config.idempotent ?? false;
+    this.claimMinIdleMs = config.claim?.minIdleMs ?? DEFAULTS.CLAIM_MIN_IDLE_MS;
+    this.claimIntervalMs = config.claim?.intervalMs ?? DEFAULTS.CLAIM_INTERVAL_MS;
+    this.maxDeliveries = config.deadLetter?.maxDeliveries ?? DEFAULTS.MAX_DELIVERIES;
+    this.maxFlushFailures = config.deadLetter?.maxFlushFailures ?? DEFAULTS.MAX_FLUSH_FAILURES;
+    this.numericPolicy = config.numericPolicy ?? {};
+    this.retry = { ...RETRY_DEFAULTS, ...config.retry };
+    this.limits = { ...DEFAULTS.BACKPRESSURE, ...config.backpressure };
+    this.monitoring = { ...DEFAULTS.MONITORING, ...config.monitoring };
+    this.healthCheck = { ...DEFAULTS.HEALTH_CHECK, ...config.healthCheck };
+    this.breaker = new CircuitBreaker(
+      { ...CIRCUIT_BREAKER_DEFAULTS, ...config.circuitBreaker },
+      (state, previous) => this.emit('circuit', {
+        state,
+        previous,
+        consecutiveFailures: this.breaker.consecutiveFailures,
+      })
+    );
+    this.deadLetters = config.deadLetter?.enabled === false
+      ? null
+      : new DeadLetterQueue(
+        this.redis,
+        config.deadLetter?.streamKey ?? `${this.streamKey}:dlq`,
+        this.streamKey,
+      );
   }
 
   /** Start consuming from the Redis Stream. */
   async start(): Promise<void> {
     if (this.running) return;
 
+    if (this.idempotent && !this.provider.getWatermarks) {
+      throw new Error('Idempotent mode requires a provider that implements getWatermarks()');
+    }
+
     if (this.provider.initialize) {
       await this.provider.initialize();
     }
 
-    // Ensure consumer group exists (MKSTREAM creates the stream if needed)
-    try {
-      await this.redis.xgroup('CREATE', this.streamKey, this.groupName, '0', 'MKSTREAM');
-    } catch (err: any) {
-      if (!err.message?.includes('BUSYGROUP')) throw err;
+    // Ensure consumer groups exist (MKSTREAM creates the streams if needed)
+    for (const stream of this.streams) {
+      try {
+        await this.redis.xgroup('CREATE', stream, this.groupName, '0', 'MKSTREAM');
+      } catch (err: any) {
+        if (!err.message?.includes('BUSYGROUP')) throw err;
+      }
     }
 
     this.running = true;
+    this.readLoopAt = Date.now();
     this.emit('started');
 
     // Recover any pending messages from a previous crash before reading new ones
     await this.recoverPending();
 
-    // Start the read loop and flush timer
+    // Start the read loop, flush timer, stale entry reclaim and monitoring
     this.readLoop();
     this.scheduleFlush();
+    this.scheduleClaim();
+    if (this.monitoring.intervalMs > 0) {
+      await this.collectStreamHealth();
+      this.scheduleMonitor();
+    }
   }
 
   /** Gracefully stop the consumer. */
@@ -93,13 +270,23 @@ export class CounterBridge extends EventEmitter {
       this.flushTimer = null;
     }
 
+    if (this.claimTimer) {
+      clearTimeout(this.claimTimer);
+      this.claimTimer = null;
+    }
+
+    if (this.monitorTimer) {
+      clearTimeout(this.monitorTimer);
+      this.monitorTimer = null;
+    }
+
     // Wait for any in-flight flush to complete
     if (this.flushing) {
       await this.flushing;
     }
 
     // Final flush of any remaining data
-    await this.flush();
+    await this.flush(true);
 
     if (this.provider.close) {
       await this.provider.close();
@@ -111,57 +298,270 @@ export class CounterBridge extends EventEmitter {
 
   /** Get current sync statistics. */
   getStats(): Readonly<SyncStats> {
-    return { ...this.stats, pendingMessages: this.aggregator.size };
+    return {
+      ...this.stats,
+      pendingMessages: this.aggregator.size,
+      circuitState: this.breaker.state,
+      consecutiveFailures: this.breaker.consecutiveFailures,
+      backpressured: this.backpressured,
+      ...this.bufferUsage(),
+      streams: Array.from(this.streamHealth.values()),
+    };
+  }
+
+  /**
+   * Whether the process should be restarted: fails when the bridge is not
+   * running, or its read loop has neither read from Redis nor deliberately
+   * paused (open circuit, backpressure) within `healthCheck.maxReadAgeMs`
+   * — it is failing every read or stuck.
+   */
+  checkLiveness(): HealthCheckResult {
+    const reasons: string[] = [];
+    if (!this.running) {
+      reasons.push('bridge is not running');
+    } else if (this.healthCheck.maxReadAgeMs > 0) {
+      const age = Date.now() - this.readLoopAt;
+      if (age > this.healthCheck.maxReadAgeMs) reasons.push(`no successful stream read for ${age}ms`);
+    }
+    return { ok: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Whether the bridge can do its work: Redis answers PING, the provider's
+   * `healthCheck()` passes (or, without one, its circuit is not open) and
+   * no stream exceeds a monitoring threshold as of the last collection.
+   */
+  async checkReadiness(): Promise<HealthCheckResult> {
+    const reasons: string[] = [];
+    if (!this.running) reasons.push('bridge is not running');
+
+    const { timeoutMs } = this.healthCheck;
+    const [redis, provider] = await Promise.allSettled([
+      withTimeout(this.redis.ping(), timeoutMs),
+      this.provider.healthCheck ? withTimeout(this.provider.healthCheck(), timeoutMs) : undefined,
+    ]);
+    if (redis.status === 'rejected') reasons.push(`redis: ${errorMessage(redis.reason)}`);
+    if (provider.status === 'rejected') {
+      reasons.push(`provider: ${errorMessage(provider.reason)}`);
+    } else if (!this.provider.healthCheck && this.breaker.state === 'open') {
+      reasons.push('provider: circuit open');
+    }
+
+    for (const health of this.streamHealth.values()) {
+      if (health.exceeded.length > 0) reasons.push(`${health.stream}: ${health.exceeded.join(', ')} exceeded`);
+    }
+    return { ok: reasons.length === 0, reasons };
   }
 
-  /** Read a counter value from the persistent store. */
-  async get(scope: string): Promise<number> {
-    return this.provider.get(scope);
+  /**
+   * Read a counter value from the persistent store. With `consistent`,
+   * adds written with `trackPending` that are not persisted yet are
+   * included, so the value reflects the caller's recent writes. The store
+   * and the pending-delta hash are read separately, so a read landing
+   * between a flush's provider write and its ACK counts that delta twice.
+   */
+  async get(scope: string, options: { consistent?: boolean } = {}): Promise<number> {
+    if (!options.consistent) {
+      return this.provider.get(scope);
+    }
+    const [value, pending] = await Promise.all([this.provider.get(scope), this.readPending([scope])]);
+    return value + (pending.get(scope) ?? 0);
   }
 
-  /** Batch-read counter values from the persistent store. */
-  async getBatch(scopes: string[]): Promise<Map<string, number>> {
+  /** Batch-read counter values from the persistent store. See `get` for `consistent`. */
+  async getBatch(scopes: string[], options: { consistent?: boolean } = {}): Promise<Map<string, number>> {
+    let values: Map<string, number>;
     if (this.provider.getBatch) {
-      return this.provider.getBatch(scopes);
+      values = await this.provider.getBatch(scopes);
+    } else {
+      const entries = await Promise.all(
+        scopes.map(async (scope) => [scope, await this.provider.get(scope)] as const)
+      );
+      values = new Map(entries);
     }
-    const entries = await Promise.all(
-      scopes.map(async (scope) => [scope, await this.provider.get(scope)] as const)
-    );
-    return new Map(entries);
+    if (!options.consistent) return values;
+
+    const pending = await this.readPending(scopes);
+    for (const [scope, delta] of pending) {
+      values.set(scope, (values.get(scope) ?? 0) + delta);
+    }
+    return values;
+  }
+
+  /**
+   * Read a scope's time-bucketed values from the persistent store, one
+   * point per bucket in [from, to). Requires `buckets` to cover the scope.
+   */
+  async getSeries(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]> {
+    if (!this.provider.getSeries) {
+      throw new Error('Provider does not support time series (getSeries)');
+    }
+    return this.provider.getSeries(scope, from, to, granularity);
+  }
+
+  /**
+   * Entries in each assigned stream not yet delivered to the consumer
+   * group, from `XINFO GROUPS`. Undefined where Redis can't tell (before
+   * 7.0, or after entries were deleted out of order).
+   */
+  async getGroupLag(): Promise<Map<string, number | undefined>> {
+    const lag = new Map<string, number | undefined>();
+    for (const stream of this.streams) {
+      const group = await this.groupInfo(stream);
+      lag.set(stream, typeof group?.lag === 'number' ? group.lag : undefined);
+    }
+    return lag;
+  }
+
+  /** List entries in the dead-letter stream, oldest first. */
+  async listDeadLetters(options: { start?: string; count?: number } = {}): Promise<DeadLetterEntry[]> {
+    return this.requireDeadLetters().list(options);
+  }
+
+  /**
+   * Re-publish dead-lettered events to the main stream with their original
+   * fields and remove them from the dead-letter stream.
+   * Returns the number of entries requeued.
+   */
+  async requeueDeadLetters(ids: string[]): Promise<number> {
+    return this.requireDeadLetters().requeue(ids);
+  }
+
+  /**
+   * Remove entries from the dead-letter stream, or the whole stream if no
+   * IDs are given. Returns the number of entries removed.
+   */
+  async purgeDeadLetters(ids?: string[]): Promise<number> {
+    return this.requireDeadLetters().purge(ids);
   }
 
   // ─── Internal ────────────────────────────────────────────────────────────
 
+  /** This consumer group's `XINFO GROUPS` entry for a stream. */
+  private async groupInfo(stream: string): Promise<Record<string, string | number | null> | undefined> {
+    const groups = await this.redis.xinfo('GROUPS', stream) as (string | number | null)[][];
+    return groups.map(toRecord).find((info) => info.name === this.groupName);
+  }
+
+  private scheduleMonitor(): void {
+    if (!this.running) return;
+
+    this.monitorTimer = setTimeout(async () => {
+      await this.collectStreamHealth();
+      this.scheduleMonitor();
+    }, this.monitoring.intervalMs);
+  }
+
+  /**
+   * Collect each stream's group lag, PEL summary and length, and emit a
+   * 'lag' event for every stream whose set of exceeded thresholds changed.
+   */
+  private async collectStreamHealth(): Promise<void> {
+    for (const stream of this.streams) {
+      try {
+        const [group, info, summary] = await Promise.all([
+          this.groupInfo(stream),
+          this.redis.xinfo('STREAM', stream) as Promise<(string | number | null)[]>,
+          (this.redis as any).xpending(stream, this.groupName) as Promise<PendingSummary>,
+        ]);
+
+        const now = Date.now();
+        const length = Number(toRecord(info).length ?? 0);
+        const [pending, oldestId, , consumers] = summary;
+        const health: StreamHealth = {
+          stream,
+          length,
+          fill: this.monitoring.maxStreamLength > 0 ? length / this.monitoring.maxStreamLength : 0,
+          lag: typeof group?.lag === 'number' ? group.lag : undefined,
+          lastDeliveredId: group?.['last-delivered-id'] == null ? undefined : String(group['last-delivered-id']),
+          pending: Number(pending ?? 0),
+          oldestPendingAgeMs: oldestId ? Math.max(0, now - Number(oldestId.split('-')[0])) : undefined,
+          consumers: Object.fromEntries((consumers ?? []).map(([name, count]) => [name, Number(count)])),
+          exceeded: [],
+          collectedAt: now,
+        };
+        health.exceeded = this.exceededThresholds(health);
+
+        const previous = this.streamHealth.get(stream)?.exceeded ?? [];
+        this.streamHealth.set(stream, health);
+        if (health.exceeded.join() !== previous.join()) {
+          this.emit('lag', { lagging: health.exceeded.length > 0, ...health });
+        }
+      } catch (err) {
+        this.stats.errorCount++;
+        this.emit('error', err);
+      }
+    }
+  }
+
+  private exceededThresholds(health: StreamHealth): LagThreshold[] {
+    const { maxLag, maxPendingAgeMs, maxStreamFill } = this.monitoring;
+    const exceeded: LagThreshold[] = [];
+    if (maxLag > 0 && (health.lag ?? 0) >= maxLag) exceeded.push('maxLag');
+    if (maxPendingAgeMs > 0 && (health.oldestPendingAgeMs ?? 0) >= maxPendingAgeMs) exceeded.push('maxPendingAgeMs');
+    if (maxStreamFill > 0 && health.fill >= maxStreamFill) exceeded.push('maxStreamFill');
+    return exceeded;
+  }
+
+  /** Pending deltas for scopes with tracked adds in flight, one HMGET per hash. */
+  private async readPending(scopes: string[]): Promise<Map<string, number>> {
+    const byKey = new Map<string, string[]>();
+    for (const scope of scopes) {
+      const key = pendingDeltaKey(streamKeyFor(this.streamKey, scope, this.partitionCount));
+      byKey.set(key, [...(byKey.get(key) ?? []), scope]);
+    }
+
+    const pending = new Map<string, number>();
+    for (const [key, keyScopes] of byKey) {
+      const values = await this.redis.hmget(key, ...keyScopes);
+      keyScopes.forEach((scope, i) => {
+        if (values[i] !== null) pending.set(scope, Number(values[i]));
+      });
+    }
+    return pending;
+  }
+
+  private requireDeadLetters(): DeadLetterQueue {
+    if (!this.deadLetters) {
+      throw new Error('Dead-letter stream is disabled (deadLetter.enabled is false)');
+    }
+    return this.deadLetters;
+  }
+
   /**
    * On startup, reclaim any messages left in the PEL (Pending Entries List)
    * from a previous crash. Read with ID '0' to get pending messages,
    * then process them before switching to '>' for new messages.
+   *
+   * See `ingestRedelivered` for how poison and already-applied messages
+   * are handled.
    */
   private async recoverPending(): Promise<void> {
     try {
-      const results = await this.redis.xreadgroup(
-        'GROUP', this.groupName, this.consumerName,
-        'COUNT', this.maxBatchSize,
-        'STREAMS', this.streamKey, '0'
-      ) as [string, [string, string[]][]][] | null;
-
-      if (!results) return;
-
-      for (const [, messages] of results) {
-        if (messages.length === 0) continue;
-        for (const [id, fields] of messages) {
-          const event = this.parseEvent(fields);
-          if (event) {
-            this.aggregator.add(event);
-            this.pendingIds.push(id);
-            this.stats.eventsProcessed++;
-          }
+      let alreadyApplied = 0;
+      for (const stream of this.streams) {
+        const deliveries = this.deadLetters
+          ? await this.deliveryCounts(stream, this.consumerName)
+          : new Map<string, number>();
+
+        const results = await this.redis.xreadgroup(
+          'GROUP', this.groupName, this.consumerName,
+          'COUNT', this.maxBatchSize,
+          'STREAMS', stream, '0'
+        ) as [string, StreamEntry[]][] | null;
+
+        if (!results) continue;
+
+        for (const [, messages] of results) {
+          alreadyApplied += (await this.ingestRedelivered(stream, messages, deliveries)).alreadyApplied;
         }
       }
 
       // Flush recovered messages immediately
+      if (this.aggregator.size > 0 || alreadyApplied > 0) {
+        this.emit('recovery', { messageCount: this.aggregator.size, alreadyApplied });
+      }
       if (this.aggregator.size > 0) {
-        this.emit('recovery', { messageCount: this.aggregator.size });
         await this.flush();
       }
     } catch (err) {
@@ -170,27 +570,367 @@ export class CounterBridge extends EventEmitter {
     }
   }
 
+  /**
+   * Feed redelivered entries (PEL recovery or claimed from another
+   * consumer) through the aggregator. Entries that fail to parse or have
+   * already been delivered `maxDeliveries` times are dead-lettered. In
+   * idempotent mode, entries the provider already applied (at or below
+   * the scope's stored watermark) are ACK'd without being aggregated.
+   */
+  private async ingestRedelivered(
+    stream: string,
+    entries: StreamEntry[],
+    deliveries: Map<string, number>
+  ): Promise<{ alreadyApplied: number }> {
+    let events: CounterEvent[] = [];
+    for (const [id, fields] of entries) {
+      const delivered = deliveries.get(id) ?? 0;
+      if (this.deadLetters && delivered >= this.maxDeliveries) {
+        await this.deadLetter('max-deliveries', fields, {
+          sourceId: id,
+          stream,
+          detail: `Delivered ${delivered} times`,
+        });
+        continue;
+      }
+
+      const parsed = this.parseEvent(fields, id);
+      if ('error' in parsed) {
+        await this.reject(stream, id, fields, parsed);
+        continue;
+      }
+      events.push(parsed.event);
+    }
+
+    let alreadyApplied = 0;
+    if (this.idempotent && events.length > 0) {
+      const pending = await this.dropApplied(stream, events);
+      alreadyApplied = events.length - pending.length;
+      events = pending;
+    }
+
+    for (const event of events) {
+      this.track(stream, event);
+    }
+    this.emitRead(stream, entries.length, events.length);
+    return { alreadyApplied };
+  }
+
+  /** Delivery count per pending entry, optionally for a single consumer. */
+  private async deliveryCounts(stream: string, consumer?: string): Promise<Map<string, number>> {
+    const args: (string | number)[] = [stream, this.groupName, '-', '+', this.maxBatchSize];
+    if (consumer) args.push(consumer);
+    const pending = await (this.redis as any).xpending(...args) as [string, string, number, number][];
+    return new Map(pending.map(([id, , , count]) => [id, count]));
+  }
+
+  /**
+   * Copy an event to the dead-letter stream and, when it came from a
+   * stream entry, ACK that entry. Errors are reported but not thrown:
+   * an un-ACK'd entry stays in the PEL and is retried later.
+   * Returns whether the event was dead-lettered.
+   */
+  private async deadLetter(
+    reason: DeadLetterReason,
+    fields: string[],
+    info: { sourceId?: string; stream: string; detail?: string }
+  ): Promise<boolean> {
+    if (!this.deadLetters) return false;
+    try {
+      await this.deadLetters.add(reason, fields, info);
+      if (info.sourceId) {
+        // The event leaves the pipeline, so a tracked add stops being pending
+        await this.ack(info.stream, [info.sourceId], pendingRelease(fields));
+      }
+      this.stats.deadLettered++;
+      this.emit('deadLetter', { reason, ...info });
+      return true;
+    } catch (err) {
+      this.stats.errorCount++;
+      this.emit('error', err);
+      return false;
+    }
+  }
+
+  /** Report an entry that can never be applied and dead-letter it. */
+  private async reject(
+    stream: string,
+    id: string,
+    fields: string[],
+    parsed: { reason: DeadLetterReason; error: string }
+  ): Promise<void> {
+    this.emit('rejected', { reason: parsed.reason, stream, id });
+    await this.deadLetter(parsed.reason, fields, { sourceId: id, stream, detail: parsed.error });
+  }
+
+  /** Report a batch of stream entries read, with the buffer sizes it left. */
+  private emitRead(stream: string, messageCount: number, eventCount: number): void {
+    if (messageCount === 0) return;
+    this.emit('read', { stream, messageCount, eventCount, ...this.bufferUsage() });
+  }
+
+  /**
+   * Split recovered events into those still to be applied and those the
+   * provider already persisted (ID at or below the scope's watermark).
+   * The latter are ACK'd immediately; the former are returned.
+   */
+  private async dropApplied(stream: string, events: CounterEvent[]): Promise<CounterEvent[]> {
+    const scopes = Array.from(new Set(events.map((e) => e.scope)));
+    const watermarks = await this.provider.getWatermarks!(scopes);
+
+    const pending: CounterEvent[] = [];
+    const applied: string[] = [];
+    // Persisted before a crash, but released only together with the ACK
+    const released = new Map<string, number>();
+    for (const event of events) {
+      const watermark = watermarks.get(event.scope);
+      if (watermark !== undefined && compareStreamIds(event.id!, watermark) <= 0) {
+        applied.push(event.id!);
+        if (event.pending) released.set(event.scope, (released.get(event.scope) ?? 0) + event.delta);
+      } else {
+        pending.push(event);
+      }
+    }
+
+    if (applied.length > 0) {
+      await this.ack(stream, applied, released);
+    }
+    return pending;
+  }
+
+  /**
+   * Claim pending entries that have been idle for longer than
+   * `claim.minIdleMs` — typically left by a consumer that died or was
+   * replaced (consumer IDs change across pod restarts) — and feed them
+   * through the aggregator like freshly read messages.
+   *
+   * Scans one page of each stream's PEL per call with XPENDING, resuming
+   * after the previous page, and claims it with XCLAIM. Entries this
+   * consumer still buffers or is flushing are left out: they are only
+   * idle because their flush is slow or failing, and claiming them would
+   * ingest them twice and count a redelivery toward `maxDeliveries`.
+   */
+  private async claimStale(): Promise<void> {
+    // Claimed entries would only grow buffers that are already full or
+    // can't be flushed; a claim during a flush could race its ACK
+    if (this.backpressured || this.flushing || this.breaker.state === 'open') return;
+
+    for (const stream of this.streams) {
+      await this.claimStream(stream);
+    }
+
+    if (this.aggregator.size >= this.maxBatchSize) {
+      await this.flush();
+    }
+  }
+
+  private async claimStream(stream: string): Promise<void> {
+    try {
+      const start = this.claimCursors.get(stream) ?? '0-0';
+      const stale = await (this.redis as any).xpending(
+        stream, this.groupName,
+        'IDLE', this.claimMinIdleMs,
+        start, '+', this.maxBatchSize
+      ) as [string, string, number, number][];
+      // Resume after this page, or from the start once the PEL is scanned
+      this.claimCursors.set(stream, stale.length < this.maxBatchSize ? '0-0' : `(${stale[stale.length - 1][0]}`);
+
+      const own = new Set([...this.pendingIds.get(stream) ?? [], ...this.flushingIds.get(stream) ?? []]);
+      const candidates = stale.filter(([id]) => !own.has(id));
+      if (candidates.length === 0) return;
+
+      const owners = new Map(candidates.map(([id, consumer]) => [id, consumer]));
+      const deliveries = new Map(candidates.map(([id, , , count]) => [id, count]));
+
+      const entries = await (this.redis as any).xclaim(
+        stream, this.groupName, this.consumerName,
+        this.claimMinIdleMs, ...owners.keys()
+      ) as [string, string[] | null][];
+
+      const fromConsumers: Record<string, number> = {};
+      const claimed: StreamEntry[] = [];
+      const deleted: string[] = [];
+
+      for (const [id, fields] of entries) {
+        // Redis < 7 returns trimmed entries with null fields; drop them from the
+        // PEL. Their tracked deltas are unknown, so the hash's TTL ages them out
+        if (!fields) {
+          deleted.push(id);
+          continue;
+        }
+        claimed.push([id, fields]);
+        const owner = owners.get(id) ?? 'unknown';
+        fromConsumers[owner] = (fromConsumers[owner] ?? 0) + 1;
+      }
+
+      if (deleted.length > 0) {
+        await (this.redis as any).xack(stream, this.groupName, ...deleted);
+      }
+
+      const { alreadyApplied } = await this.ingestRedelivered(stream, claimed, deliveries);
+
+      const messageCount = claimed.length;
+      if (messageCount > 0) {
+        this.stats.claimedMessages += messageCount;
+        this.emit('claim', { stream, messageCount, alreadyApplied, fromConsumers });
+      }
+    } catch (err) {
+      this.stats.errorCount++;
+      this.emit('error', err);
+    }
+  }
+
+  private scheduleClaim(): void {
+    if (!this.running || this.claimIntervalMs <= 0) return;
+
+    this.claimTimer = setTimeout(async () => {
+      await this.claimStale();
+      this.scheduleClaim();
+    }, this.claimIntervalMs);
+  }
+
+  /** Add a parsed event to the current window and remember its ID for ACK. */
+  private track(stream: string, event: CounterEvent): void {
+    this.aggregator.add(event);
+    const ids = this.pendingIds.get(stream);
+    if (ids) {
+      ids.push(event.id!);
+    } else {
+      this.pendingIds.set(stream, [event.id!]);
+    }
+    if (event.pending) {
+      this.trackDelta(stream, event.scope, event.delta);
+    }
+    if (event.trace && this.traceLinks.length < MAX_TRACE_LINKS) {
+      this.traceLinks.push(event.trace);
+    }
+    this.stats.eventsProcessed++;
+  }
+
+  private trackDelta(stream: string, scope: string, delta: number): void {
+    const scopes = this.trackedDeltas.get(stream);
+    if (scopes) {
+      scopes.set(scope, (scopes.get(scope) ?? 0) + delta);
+    } else {
+      this.trackedDeltas.set(stream, new Map([[scope, delta]]));
+    }
+  }
+
+  /** Hand tracked deltas back so a later flush releases them. */
+  private restoreTracked(tracked: TrackedDeltas): void {
+    for (const [stream, scopes] of tracked) {
+      for (const [scope, delta] of scopes) this.trackDelta(stream, scope, delta);
+    }
+  }
+
+  /**
+   * ACK entries and, in the same MULTI, release tracked deltas from the
+   * stream's pending-delta hash, so a consistent read never counts a
+   * delta both as pending and again on redelivery.
+   */
+  private async ack(stream: string, ids: string[], released?: Map<string, number>): Promise<void> {
+    if (!released || released.size === 0) {
+      if (ids.length > 0) await (this.redis as any).xack(stream, this.groupName, ...ids);
+      return;
+    }
+
+    const args: string[] = [];
+    for (const [scope, delta] of released) args.push(scope, String(-delta));
+    const tx = this.redis.multi();
+    if (ids.length > 0) tx.xack(stream, this.groupName, ...ids);
+    tx.eval(RELEASE_PENDING_SCRIPT, 1, pendingDeltaKey(stream), ...args);
+    const failed = (await tx.exec())?.find(([err]) => err);
+    if (failed) throw failed[0];
+  }
+
+  /** Put IDs back in front of any tracked since, so they're ACK'd by the next flush. */
+  private restorePending(pending: PendingIds): void {
+    for (const [stream, ids] of pending) {
+      this.pendingIds.set(stream, [...ids, ...(this.pendingIds.get(stream) ?? [])]);
+    }
+  }
+
+  private pendingCount(): number {
+    let count = 0;
+    for (const ids of this.pendingIds.values()) count += ids.length;
+    return count;
+  }
+
+  /** Current buffer sizes, for stats and 'backpressure' events. */
+  private bufferUsage(): Pick<SyncStats, 'bufferedScopes' | 'bufferedIds' | 'estimatedMemoryBytes'> {
+    return {
+      bufferedScopes: this.aggregator.scopeCount + this.retries.scopeCount,
+      bufferedIds: this.pendingCount(),
+      estimatedMemoryBytes:
+        this.aggregator.estimatedBytes + this.retries.estimatedBytes + this.pendingCount() * PENDING_ID_BYTES,
+    };
+  }
+
+  /**
+   * Compare buffer sizes against the backpressure limits, emitting a
+   * 'backpressure' event whenever reading pauses or resumes.
+   * Returns whether reading should stay paused.
+   */
+  private updateBackpressure(): boolean {
+    const usage = this.bufferUsage();
+    let limit: keyof BackpressureConfig | undefined;
+    if (this.limits.maxScopes > 0 && usage.bufferedScopes >= this.limits.maxScopes) {
+      limit = 'maxScopes';
+    } else if (this.limits.maxPendingIds > 0 && usage.bufferedIds >= this.limits.maxPendingIds) {
+      limit = 'maxPendingIds';
+    } else if (this.limits.maxMemoryBytes > 0 && usage.estimatedMemoryBytes >= this.limits.maxMemoryBytes) {
+      limit = 'maxMemoryBytes';
+    }
+
+    const paused = limit !== undefined;
+    if (paused !== this.backpressured) {
+      this.backpressured = paused;
+      this.emit('backpressure', { paused, limit, ...usage });
+    }
+    return paused;
+  }
+
   private async readLoop(): Promise<void> {
     while (this.running) {
+      // Provider is down: stop pulling more messages into memory until
+      // the breaker half-opens and a probe flush gets through
+      if (this.breaker.state === 'open') {
+        this.readLoopAt = Date.now();
+        await this.sleep(this.windowMs);
+        continue;
+      }
+
+      // Buffers are full (flushes are slow or failing): try to drain them,
+      // and stop reading until a flush gets through
+      if (this.updateBackpressure()) {
+        await this.flush();
+        if (this.updateBackpressure()) {
+          this.readLoopAt = Date.now();
+          await this.sleep(this.windowMs);
+          continue;
+        }
+      }
+
+      // Round-robin over the streams, splitting the block time so a full
+      // round still takes about one window when they are all idle
+      const stream = this.streams[this.nextStream];
+      this.nextStream = (this.nextStream + 1) % this.streams.length;
+
       try {
         const results = await this.redis.xreadgroup(
           'GROUP', this.groupName, this.consumerName,
           'COUNT', this.maxBatchSize,
-          'BLOCK', this.windowMs,
-          'STREAMS', this.streamKey, '>'
-        ) as [string, [string, string[]][]][] | null;
+          'BLOCK', Math.max(1, Math.floor(this.windowMs / this.streams.length)),
+          'STREAMS', stream, '>'
+        ) as [string, StreamEntry[]][] | null;
 
+        this.readFailures = 0;
+        this.readLoopAt = Date.now();
+        this.stats.lastReadAt = new Date(this.readLoopAt);
         if (!results) continue;
 
         for (const [, messages] of results) {
-          for (const [id, fields] of messages) {
-            const event = this.parseEvent(fields);
-            if (event) {
-              this.aggregator.add(event);
-              this.pendingIds.push(id);
-              this.stats.eventsProcessed++;
-            }
-          }
+          await this.receive(stream, messages);
         }
 
         // If we hit the batch size limit, flush immediately
@@ -200,100 +940,345 @@ export class CounterBridge extends EventEmitter {
       } catch (err) {
         this.stats.errorCount++;
         this.emit('error', err);
-        await this.sleep(1000);
+        this.readFailures++;
+        await this.sleep(computeBackoff(this.readFailures, this.retry));
       }
     }
   }
 
+  /**
+   * Parse and aggregate a batch of newly read entries, in a consumer span
+   * linked to the producer spans that wrote them.
+   */
+  private async receive(stream: string, messages: StreamEntry[]): Promise<void> {
+    const parsed = messages.map(([id, fields]) => ({ id, fields, result: this.parseEvent(fields, id) }));
+    const links: TraceLink[] = [];
+    for (const { result } of parsed) {
+      if ('event' in result && result.event.trace && links.length < MAX_TRACE_LINKS) links.push(result.event.trace);
+    }
+
+    await this.tracing.withSpan('counter-bridge receive', {
+      kind: 'consumer',
+      links,
+      attributes: {
+        'messaging.system': 'redis',
+        'messaging.destination.name': stream,
+        'messaging.batch.message_count': messages.length,
+      },
+    }, async () => {
+      let eventCount = 0;
+      for (const { id, fields, result } of parsed) {
+        if ('error' in result) {
+          await this.reject(stream, id, fields, result);
+        } else {
+          this.track(stream, result.event);
+          eventCount++;
+        }
+      }
+      this.emitRead(stream, messages.length, eventCount);
+    });
+  }
+
   private scheduleFlush(): void {
     if (!this.running) return;
 
+    // After a failure, wait out the backoff instead of retrying every window
+    const delay = Math.max(this.windowMs, this.retryAt - Date.now());
     this.flushTimer = setTimeout(async () => {
-      if (this.aggregator.size > 0) {
+      if (this.aggregator.size > 0 || this.retries.size > 0) {
         await this.flush();
       }
       this.scheduleFlush();
-    }, this.windowMs);
+    }, delay);
   }
 
   /**
    * Flush aggregated deltas to the provider, then ACK the messages.
    * Uses a mutex to prevent concurrent flushes from the timer and readLoop.
+   *
+   * Skipped while backing off after a provider failure or while the circuit
+   * is open, unless `force` is set (the final flush on stop).
    */
-  private async flush(): Promise<void> {
+  private async flush(force = false): Promise<void> {
     // Mutex: if already flushing, wait for it to finish
     if (this.flushing) {
       await this.flushing;
       return;
     }
 
-    if (this.aggregator.size === 0) return;
+    if (this.aggregator.size === 0 && this.retries.size === 0) return;
+    if (!force && (Date.now() < this.retryAt || !this.breaker.allowRequest())) return;
 
     this.flushing = this.doFlush();
     try {
       await this.flushing;
     } finally {
       this.flushing = null;
+      this.flushingIds = new Map();
     }
   }
 
+  /**
+   * Flush in a span linked to the producer spans of the events in the
+   * batch; the provider's own spans become its children.
+   */
   private async doFlush(): Promise<void> {
-    const batch = this.aggregator.drain();
-    const idsToAck = this.pendingIds.splice(0);
+    const links = this.traceLinks;
+    this.traceLinks = [];
+    await this.tracing.withSpan('counter-bridge flush', {
+      links,
+      attributes: {
+        'counter_bridge.scope_count': this.aggregator.scopeCount,
+        'counter_bridge.event_count': this.aggregator.size,
+      },
+    }, (span) => this.flushBatch(span, links));
+  }
 
-    try {
-      const result = await this.provider.flush(batch);
+  /**
+   * Flush the retries, then the aggregated window, and ACK what was read.
+   * Retries go first, on their own and under their own watermarks: folded
+   * into newer events, a scope the provider had already applied would come
+   * back under a newer watermark it can't skip. The window waits while any
+   * retry still fails, so a scope's updates always reach the provider in
+   * stream order.
+   */
+  private async flushBatch(span: TraceSpan, links: TraceLink[]): Promise<void> {
+    const idsToAck = this.pendingIds;
+    this.pendingIds = new Map();
+    this.flushingIds = idsToAck;
+    const released = this.trackedDeltas;
+    this.trackedDeltas = new Map();
 
-      // Handle partial failures: re-add only the failed scopes
-      if (result?.failed && result.failed.size > 0) {
-        for (const [scope, delta] of result.failed) {
-          this.aggregator.add({ scope, delta, timestamp: Date.now() });
-        }
-        this.emit('warn', {
-          message: 'Partial flush failure',
-          failedScopes: result.failed.size,
-          totalScopes: batch.size,
-        });
+    const flushes: ProviderFlush[] = [];
+    let blocked = false;
+    if (this.retries.size > 0) {
+      const sources = this.retrySources;
+      this.retrySources = new Map();
+      const retried = await this.persist(span, { ...this.retries.drainBatch(), sources }, released);
+      if (retried) flushes.push(retried);
+      blocked = !retried || (retried.result?.failed?.size ?? 0) > 0;
+    }
+
+    let eventCount = 0;
+    if (!blocked && this.aggregator.size > 0) {
+      eventCount = this.aggregator.size;
+      const drained = this.aggregator.drainBatch();
+      let prepared: PreparedBatch | undefined;
+      try {
+        prepared = await this.pipeline.before(drained);
+      } catch (err) {
+        // Nothing reached the provider, so the window can fold back in
+        this.recordFlushFailure(span, err);
+        this.aggregator.restoreAll(drained);
       }
+      const flushed = prepared && await this.persist(span, prepared, released);
+      if (flushed) flushes.push(flushed);
+      blocked = !flushed;
+    }
 
+    if (blocked) {
+      // IDs stay un-ACK'd so Redis will redeliver on restart
+      this.restorePending(idsToAck);
+      this.restoreTracked(released);
+      this.traceLinks = [...links, ...this.traceLinks].slice(0, MAX_TRACE_LINKS);
+    } else {
       // ACK only after successful persistence (at-least-once guarantee)
-      if (idsToAck.length > 0) {
-        await (this.redis as any).xack(this.streamKey, this.groupName, ...idsToAck);
-      }
+      await this.ackFlushed(idsToAck, released);
+    }
+    if (flushes.length === 0) return;
+
+    for (const { prepared, result } of flushes) {
+      await this.pipeline.after(prepared, result ?? {}, (err) => {
+        this.stats.errorCount++;
+        this.emit('error', err);
+      });
+    }
 
-      this.stats.flushCount++;
-      this.stats.lastFlushAt = new Date();
-      this.stats.avgBatchSize = Math.round(
-        (this.stats.avgBatchSize * (this.stats.flushCount - 1) + batch.size) / this.stats.flushCount
+    const scopeCount = flushes.reduce((sum, { prepared }) => sum + prepared.batch.size, 0);
+    const failedScopes = flushes.reduce((sum, { result }) => sum + (result?.failed?.size ?? 0), 0);
+    const skippedScopes = flushes.reduce((sum, { result }) => sum + (result?.skipped?.size ?? 0), 0);
+    span.setAttributes({
+      'counter_bridge.failed_scopes': failedScopes,
+      'counter_bridge.skipped_scopes': skippedScopes,
+    });
+
+    this.stats.flushCount++;
+    this.stats.lastFlushAt = new Date();
+    this.stats.avgBatchSize = Math.round(
+      (this.stats.avgBatchSize * (this.stats.flushCount - 1) + scopeCount) / this.stats.flushCount
+    );
+    this.emit('flush', {
+      scopeCount,
+      eventCount,
+      failedScopes,
+      skippedScopes,
+      flushNumber: this.stats.flushCount,
+      durationMs: flushes.reduce((sum, { durationMs }) => sum + durationMs, 0),
+      ...this.bufferUsage(),
+    });
+
+    // Resume reading as soon as the flush has drained the buffers
+    if (this.backpressured) this.updateBackpressure();
+  }
+
+  /**
+   * Write a prepared batch to the provider. Scopes it fails are kept as
+   * retries, as flushed, or dead-lettered once the provider keeps
+   * rejecting them. Returns undefined when the provider call fails, after
+   * keeping the whole batch as retries.
+   */
+  private async persist(
+    span: TraceSpan,
+    prepared: PreparedBatch,
+    released: TrackedDeltas,
+  ): Promise<ProviderFlush | undefined> {
+    const { watermarks: _, ...withoutWatermarks } = prepared.context;
+    const flushed = prepared.batch;
+    let result: FlushResult | void;
+    const startedAt = performance.now();
+    try {
+      // Middleware may have dropped every scope
+      result = flushed.size === 0 ? undefined : await this.provider.flush(
+        flushed,
+        this.idempotent ? prepared.context : withoutWatermarks
       );
-      this.emit('flush', { scopeCount: batch.size, flushNumber: this.stats.flushCount });
     } catch (err) {
-      this.stats.errorCount++;
-      this.emit('error', err);
+      this.emit('providerFlush', { scopeCount: flushed.size, durationMs: performance.now() - startedAt, outcome: 'failure' });
+      this.recordFlushFailure(span, err);
+      this.retries.restoreAll(prepared);
+      for (const scope of flushed.keys()) this.keepRetrySources(prepared, scope);
+      return undefined;
+    }
+    const durationMs = performance.now() - startedAt;
+    if (flushed.size > 0) {
+      const outcome = result?.failed?.size ? 'partial' : 'success';
+      this.emit('providerFlush', { scopeCount: flushed.size, durationMs, outcome });
+    }
+
+    // The provider responded, even if some scopes failed
+    if (flushed.size > 0) this.breaker.recordSuccess();
+    this.retryAt = 0;
+
+    const failed = result?.failed ?? new Map<string, number>();
+    for (const scope of flushed.keys()) {
+      if (!failed.has(scope)) this.scopeFailures.delete(scope);
+    }
+
+    // Handle partial failures: keep only the failed scopes, as flushed,
+    // and dead-letter those the provider keeps rejecting
+    if (failed.size > 0) {
+      for (const [scope, delta] of failed) {
+        const update = prepared.context.updates?.get(scope) ?? { delta: flushed.get(scope) ?? delta };
+        const failures = (this.scopeFailures.get(scope) ?? 0) + 1;
+        const metadata = prepared.context.metadata?.get(scope);
+        if (failures >= this.maxFlushFailures && await this.deadLetterScope(scope, update, failures, metadata)) {
+          this.scopeFailures.delete(scope);
+          continue;
+        }
+        this.scopeFailures.set(scope, failures);
+        this.retries.restore(scope, update, prepared.context.watermarks?.get(scope), metadata);
+        // Tracked deltas are keyed by the scopes events were read under, which
+        // middleware may have remapped: keep every source still pending until
+        // a later flush persists it
+        for (const source of this.keepRetrySources(prepared, scope)) {
+          for (const [stream, scopes] of released) {
+            const delta = scopes.get(source);
+            if (delta === undefined) continue;
+            scopes.delete(source);
+            this.trackDelta(stream, source, delta);
+          }
+        }
+      }
+      this.emit('warn', {
+        message: 'Partial flush failure',
+        failedScopes: failed.size,
+        totalScopes: flushed.size,
+      });
+    }
+
+    return { prepared, result, durationMs };
+  }
+
+  /** Remember the drained scopes a retried provider scope derives from, and return them. */
+  private keepRetrySources(prepared: PreparedBatch, scope: string): string[] {
+    const sources = prepared.sources?.get(scope) ?? [scope];
+    const kept = this.retrySources.get(scope) ?? [];
+    this.retrySources.set(scope, [...new Set([...kept, ...sources])]);
+    return sources;
+  }
+
+  /** Count a failed flush and back off before the next attempt. */
+  private recordFlushFailure(span: TraceSpan, err: unknown): void {
+    this.stats.errorCount++;
+    this.emit('error', err);
+    span.recordError(err);
+    this.breaker.recordFailure();
+    this.retryAt = Date.now() + computeBackoff(this.breaker.consecutiveFailures, this.retry);
+  }
 
-      // Total failure: re-add all deltas for retry.
-      // IDs stay un-ACK'd so Redis will redeliver on restart.
-      for (const [scope, delta] of batch) {
-        this.aggregator.add({ scope, delta, timestamp: Date.now() });
+  /** ACK a flushed window's IDs, releasing its tracked deltas in the same MULTI. */
+  private async ackFlushed(idsToAck: PendingIds, released: TrackedDeltas): Promise<void> {
+    for (const stream of new Set([...idsToAck.keys(), ...released.keys()])) {
+      const ids = idsToAck.get(stream) ?? [];
+      const scopes = released.get(stream);
+      if (ids.length === 0 && !scopes?.size) continue;
+      try {
+        await this.ack(stream, ids, scopes);
+      } catch (err) {
+        // The deltas are already persisted, so they must not be re-added.
+        // Keep the IDs and tracked deltas so the next flush handles them.
+        this.stats.errorCount++;
+        this.emit('error', err);
+        this.restorePending(new Map([[stream, ids]]));
+        if (scopes) this.restoreTracked(new Map([[stream, scopes]]));
       }
-      this.pendingIds.unshift(...idsToAck);
     }
   }
 
+  /**
+   * Dead-letter a scope the provider keeps rejecting, as one entry per
+   * event needed to replay its update. Returns whether all were written.
+   */
+  private async deadLetterScope(
+    scope: string,
+    update: CounterUpdate,
+    failures: number,
+    metadata?: ScopeMetadata,
+  ): Promise<boolean> {
+    const info = {
+      stream: streamKeyFor(this.streamKey, scope, this.partitionCount),
+      detail: `Scope "${scope}" failed to flush ${failures} times`,
+    };
+    for (const [op, value] of updateOps(update)) {
+      const fields = ['scope', scope, 'delta', String(value), 'timestamp', String(Date.now())];
+      if (op !== 'add') fields.push('op', op);
+      if (metadata) fields.push('metadata', JSON.stringify(metadata));
+      if (!await this.deadLetter('flush-failed', fields, info)) return false;
+    }
+    return true;
+  }
+
   /**
    * Parse Redis Stream field array into a CounterEvent.
    * Uses a linear scan instead of Map allocation for efficiency.
+   * Returns `{ error }` for entries that can never be applied.
    */
-  private parseEvent(fields: string[]): CounterEvent | null {
+  private parseEvent(fields: string[], id?: string): ParsedEvent {
     let scope: string | undefined;
     let delta: string | undefined;
     let timestamp: string | undefined;
     let metadata: string | undefined;
+    let op: string | undefined;
+    let pending: string | undefined;
+    let traced = false;
 
     for (let i = 0; i < fields.length; i += 2) {
       switch (fields[i]) {
         case 'scope': scope = fields[i + 1]; break;
+        case 'pending': pending = fields[i + 1]; break;
+        case 'traceparent': traced = true; break;
         case 'delta': delta = fields[i + 1]; break;
+        case 'op': op = fields[i + 1]; break;
         case 'timestamp': timestamp = fields[i + 1]; break;
         case 'metadata': metadata = fields[i + 1]; break;
       }
@@ -301,7 +1286,26 @@ export class CounterBridge extends EventEmitter {
 
     if (!scope || delta === undefined) {
       this.emit('warn', { message: 'Dropped malformed event', fields });
-      return null;
+      return { reason: 'malformed', error: 'Missing scope or delta field' };
+    }
+
+    // Number('') and Number('  ') are 0 — treat blank deltas as invalid too
+    const value = delta.trim() === '' ? NaN : Number(delta);
+    const violation = validateDelta(value, this.numericPolicy);
+    if (violation) {
+      this.emit('warn', { message: 'Rejected invalid delta', scope, delta, reason: violation });
+      return { reason: 'invalid-delta', error: `Invalid delta "${delta}": ${violation}` };
+    }
+
+    if (op !== undefined && op !== 'add') {
+      if (!OPS.includes(op as CounterOp)) {
+        this.emit('warn', { message: 'Rejected unknown op', scope, op });
+        return { reason: 'unsupported-op', error: `Unknown op "${op}"` };
+      }
+      if (!this.provider.operations?.includes(op as CounterOp)) {
+        this.emit('warn', { message: 'Rejected op unsupported by provider', scope, op });
+        return { reason: 'unsupported-op', error: `Provider does not support op "${op}"` };
+      }
     }
 
     let parsedMetadata: CounterEvent['metadata'];
@@ -314,10 +1318,16 @@ export class CounterBridge extends EventEmitter {
     }
 
     return {
-      scope,
-      delta: Number(delta),
-      timestamp: Number(timestamp ?? Date.now()),
-      metadata: parsedMetadata,
+      event: {
+        scope,
+        delta: value,
+        op: op as CounterOp | undefined,
+        timestamp: Number(timestamp ?? Date.now()),
+        metadata: parsedMetadata,
+        id,
+        pending: pending === '1' && (op === undefined || op === 'add') ? true : undefined,
+        trace: traced ? this.tracing.extract(fields) : undefined,
+      },
     };
   }
 
@@ -325,3 +1335,54 @@ export class CounterBridge extends EventEmitter {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
+
+/** Reject with a timeout error if `promise` has not settled within `ms`. */
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** Turn a flat `[field, value, ...]` reply into an object. */
+function toRecord(reply: (string | number | null)[]): Record<string, string | number | null> {
+  const record: Record<string, string | number | null> = {};
+  for (let i = 0; i < reply.length; i += 2) record[String(reply[i])] = reply[i + 1];
+  return record;
+}
+
+/**
+ * The delta a dead-lettered entry held in its stream's pending-delta hash:
+ * a tracked add with a valid value, or undefined.
+ */
+function pendingRelease(fields: string[]): Map<string, number> | undefined {
+  const entry = new Map<string, string>();
+  for (let i = 0; i < fields.length; i += 2) entry.set(fields[i], fields[i + 1]);
+
+  const scope = entry.get('scope');
+  const delta = Number(entry.get('delta'));
+  if (entry.get('pending') !== '1' || !scope || !Number.isFinite(delta)) return undefined;
+  if ((entry.get('op') ?? 'add') !== 'add') return undefined;
+  return new Map([[scope, delta]]);
+}
+
+/** Stream keys a consumer reads, validating the partition assignment. */
+function assignedStreams(streamKey: string, partitions?: PartitionConfig): string[] {
+  const count = partitions?.count ?? 1;
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`partitions.count must be a positive integer, got ${count}`);
+  }
+  if (count === 1) return [streamKey];
+
+  const assigned = partitions?.assigned ?? Array.from({ length: count }, (_, i) => i);
+  if (assigned.length === 0) {
+    throw new Error('partitions.assigned must list at least one partition');
+  }
+  for (const partition of assigned) {
+    if (!Number.isInteger(partition) || partition < 0 || partition >= count) {
+      throw new Error(`Assigned partition ${partition} is outside 0..${count - 1}`);
+    }
+  }
+  return Array.from(new Set(assigned), (partition) => partitionStreamKey(streamKey, partition));
+}
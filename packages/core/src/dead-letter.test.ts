@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DeadLetterQueue } from './dead-letter';
+
+function createMockRedis() {
+  return {
+    xadd: vi.fn().mockResolvedValue('100-0'),
+    xrange: vi.fn().mockResolvedValue([]),
+    xdel: vi.fn().mockImplementation(async (_key: string, ...ids: string[]) => ids.length),
+    xlen: vi.fn().mockResolvedValue(0),
+    del: vi.fn().mockResolvedValue(1),
+  };
+}
+
+describe('DeadLetterQueue', () => {
+  let redis: ReturnType<typeof createMockRedis>;
+  let dlq: DeadLetterQueue;
+
+  beforeEach(() => {
+    redis = createMockRedis();
+    dlq = new DeadLetterQueue(redis as any, 'events:dlq', 'events');
+  });
+
+  describe('add', () => {
+    it('should XADD the reason, JSON-encoded fields and source info', async () => {
+      const id = await dlq.add('malformed', ['bad', 'data'], { sourceId: '7-0', detail: 'Missing scope' });
+
+      expect(id).toBe('100-0');
+      const args = redis.xadd.mock.calls[0];
+      expect(args[0]).toBe('events:dlq');
+      expect(args[1]).toBe('*');
+      expect(args.slice(2, 6)).toEqual(['reason', 'malformed', 'fields', '["bad","data"]']);
+      expect(args).toContain('sourceId');
+      expect(args[args.indexOf('detail') + 1]).toBe('Missing scope');
+    });
+  });
+
+  describe('list', () => {
+    it('should parse entries from XRANGE', async () => {
+      redis.xrange.mockResolvedValueOnce([
+        ['100-0', ['reason', 'max-deliveries', 'fields', '["scope","a","delta","1"]', 'deadAt', '5000', 'sourceId', '7-0']],
+      ]);
+
+      const entries = await dlq.list({ count: 10 });
+
+      expect(redis.xrange).toHaveBeenCalledWith('events:dlq', '-', '+', 'COUNT', 10);
+      expect(entries).toEqual([{
+        id: '100-0',
+        reason: 'max-deliveries',
+        fields: ['scope', 'a', 'delta', '1'],
+        deadAt: 5000,
+        sourceId: '7-0',
+      }]);
+    });
+  });
+
+  describe('requeue', () => {
+    it('should re-publish original fields to the source stream and delete the entry', async () => {
+      redis.xrange.mockResolvedValueOnce([
+        ['100-0', ['reason', 'flush-failed', 'fields', '["scope","a","delta","3"]', 'deadAt', '5000']],
+      ]);
+
+      const count = await dlq.requeue(['100-0']);
+
+      expect(count).toBe(1);
+      expect(redis.xadd).toHaveBeenCalledWith('events', '*', 'scope', 'a', 'delta', '3');
+      expect(redis.xdel).toHaveBeenCalledWith('events:dlq', '100-0');
+    });
+
+    it('should re-publish to the stream recorded on the entry', async () => {
+      redis.xrange.mockResolvedValueOnce([
+        ['100-0', ['reason', 'malformed', 'fields', '["bad","data"]', 'deadAt', '5000', 'stream', 'events:3']],
+      ]);
+
+      await dlq.requeue(['100-0']);
+
+      expect(redis.xadd).toHaveBeenCalledWith('events:3', '*', 'bad', 'data');
+    });
+
+    it('should drop the pending marker of tracked adds', async () => {
+      redis.xrange.mockResolvedValueOnce([
+        ['100-0', ['reason', 'max-deliveries', 'fields', '["scope","a","delta","3","pending","1"]', 'deadAt', '5000']],
+      ]);
+
+      await dlq.requeue(['100-0']);
+
+      expect(redis.xadd).toHaveBeenCalledWith('events', '*', 'scope', 'a', 'delta', '3');
+    });
+
+    it('should skip unknown IDs', async () => {
+      const count = await dlq.requeue(['404-0']);
+      expect(count).toBe(0);
+      expect(redis.xadd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purge', () => {
+    it('should XDEL the given IDs', async () => {
+      const count = await dlq.purge(['1-0', '2-0']);
+      expect(count).toBe(2);
+      expect(redis.xdel).toHaveBeenCalledWith('events:dlq', '1-0', '2-0');
+    });
+
+    it('should delete the whole stream when no IDs are given', async () => {
+      redis.xlen.mockResolvedValueOnce(4);
+      const count = await dlq.purge();
+      expect(count).toBe(4);
+      expect(redis.del).toHaveBeenCalledWith('events:dlq');
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import type Redis from 'ioredis';
+import type { DeadLetterEntry, DeadLetterReason } from '@counter-bridge/types';
+
+/**
+ * Dead-letter Redis Stream for events that can never be applied.
+ *
+ * Each entry stores the reason, an optional detail message, the source
+ * stream and entry ID and the original stream fields (JSON-encoded, so
+ * arbitrary producer fields round-trip untouched on requeue).
+ */
+export class DeadLetterQueue {
+  constructor(
+    private readonly redis: Redis,
+    /** Dead-letter stream key */
+    readonly key: string,
+    /** Stream requeued entries are re-published to when they don't record their own */
+    private readonly sourceKey: string,
+  ) {}
+
+  /** Append an entry to the dead-letter stream. Returns its entry ID. */
+  async add(
+    reason: DeadLetterReason,
+    fields: string[],
+    info: { sourceId?: string; stream?: string; detail?: string } = {},
+  ): Promise<string> {
+    const entry: string[] = [
+      'reason', reason,
+      'fields', JSON.stringify(fields),
+      'deadAt', String(Date.now()),
+    ];
+    if (info.sourceId) entry.push('sourceId', info.sourceId);
+    if (info.stream) entry.push('stream', info.stream);
+    if (info.detail) entry.push('detail', info.detail);
+
+    return (await this.redis.xadd(this.key, '*', ...entry)) as string;
+  }
+
+  /** List dead-lettered entries, oldest first. */
+  async list(options: { start?: string; count?: number } = {}): Promise<DeadLetterEntry[]> {
+    const entries = await this.redis.xrange(
+      this.key, options.start ?? '-', '+', 'COUNT', options.count ?? 100
+    );
+    return entries.map(([id, fields]) => parseEntry(id, fields));
+  }
+
+  /**
+   * Re-publish entries to the source stream with their original fields,
+   * then remove them from the dead-letter stream. Unknown IDs are ignored.
+   * Returns the number of entries requeued.
+   */
+  async requeue(ids: string[]): Promise<number> {
+    let requeued = 0;
+    for (const id of ids) {
+      const [found] = await this.redis.xrange(this.key, id, id);
+      if (!found) continue;
+
+      const entry = parseEntry(found[0], found[1]);
+      await this.redis.xadd(entry.stream ?? this.sourceKey, '*', ...withoutPendingMarker(entry.fields));
+      await this.redis.xdel(this.key, id);
+      requeued++;
+    }
+    return requeued;
+  }
+
+  /**
+   * Remove entries from the dead-letter stream. With no IDs the whole
+   * stream is deleted. Returns the number of entries removed.
+   */
+  async purge(ids?: string[]): Promise<number> {
+    if (ids) {
+      return ids.length > 0 ? this.redis.xdel(this.key, ...ids) : 0;
+    }
+    const length = await this.redis.xlen(this.key);
+    await this.redis.del(this.key);
+    return length;
+  }
+}
+
+/**
+ * Drop the `pending` marker: the consumer released the event's pending
+ * delta when it was dead-lettered, so the requeued copy must not release
+ * it again.
+ */
+function withoutPendingMarker(fields: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < fields.length; i += 2) {
+    if (fields[i] !== 'pending') result.push(...fields.slice(i, i + 2));
+  }
+  return result;
+}
+
+function parseEntry(id: string, raw: string[]): DeadLetterEntry {
+  const entry: DeadLetterEntry = { id, reason: 'malformed', fields: [], deadAt: 0 };
+  for (let i = 0; i < raw.length; i += 2) {
+    const value = raw[i + 1];
+    switch (raw[i]) {
+      case 'reason': entry.reason = value as DeadLetterReason; break;
+      case 'fields': entry.fields = JSON.parse(value); break;
+      case 'deadAt': entry.deadAt = Number(value); break;
+      case 'sourceId': entry.sourceId = value; break;
+      case 'stream': entry.stream = value; break;
+      case 'detail': entry.detail = value; break;
+    }
+  }
+  return entry;
+}
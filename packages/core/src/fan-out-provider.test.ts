@@ -0,0 +1,277 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ICounterProvider } from '@counter-bridge/types';
+import { FanOutProvider } from './fan-out-provider';
+
+function createProvider(overrides: Partial<ICounterProvider> = {}) {
+  return {
+    flush: vi.fn().mockResolvedValue(undefined),
+    get: vi.fn().mockResolvedValue(0),
+    getWatermarks: vi.fn().mockResolvedValue(new Map()),
+    ...overrides,
+  } satisfies ICounterProvider;
+}
+
+/** A flush context giving every scope of the batch a watermark, as idempotent mode does. */
+function marked(batch: Map<string, number>) {
+  return { watermarks: new Map(Array.from(batch.keys(), (scope, i) => [scope, `1-${i}`])) };
+}
+
+const NO_JITTER = { initialDelayMs: 1000, maxDelayMs: 10_000, multiplier: 2, jitter: 0 };
+
+describe('FanOutProvider', () => {
+  describe('all policy', () => {
+    it('should flush the batch to every backend', async () => {
+      const primary = createProvider();
+      const cache = createProvider();
+      const fanOut = new FanOutProvider({ primary, secondaries: [cache] });
+      const context = { watermarks: new Map([['a', '1-0']]) };
+
+      expect(await fanOut.flush(new Map([['a', 1]]), context)).toBeUndefined();
+      expect(primary.flush).toHaveBeenCalledWith(new Map([['a', 1]]), context);
+      expect(cache.flush).toHaveBeenCalledWith(new Map([['a', 1]]), context);
+    });
+
+    it('should report scopes any backend failed', async () => {
+      const primary = createProvider({ flush: vi.fn().mockResolvedValue({ failed: new Map([['a', 1]]) }) });
+      const cache = createProvider({ flush: vi.fn().mockRejectedValue(new Error('cache down')) });
+      const fanOut = new FanOutProvider({ primary, secondaries: [createProvider(), cache] });
+      const batch = new Map([['a', 1], ['b', 2]]);
+
+      expect(await fanOut.flush(batch, marked(batch))).toEqual({
+        failed: new Map([['a', 1], ['b', 2]]),
+      });
+    });
+
+    it('should report a scope as skipped only if every backend skipped it', async () => {
+      const primary = createProvider({ flush: vi.fn().mockResolvedValue({ skipped: new Map([['a', 1], ['b', 2]]) }) });
+      const cache = createProvider({ flush: vi.fn().mockResolvedValue({ skipped: new Map([['a', 1]]) }) });
+      const fanOut = new FanOutProvider({ primary, secondaries: [cache] });
+      const batch = new Map([['a', 1], ['b', 2]]);
+
+      expect(await fanOut.flush(batch, marked(batch))).toEqual({ skipped: new Map([['a', 1]]) });
+    });
+
+    it('should throw when every backend fails', async () => {
+      const primary = createProvider({ flush: vi.fn().mockRejectedValue(new Error('mongo down')) });
+      const cache = createProvider({ flush: vi.fn().mockRejectedValue(new Error('cache down')) });
+      const fanOut = new FanOutProvider({ primary, secondaries: [cache] });
+
+      await expect(fanOut.flush(new Map([['a', 1]]), marked(new Map([['a', 1]])))).rejects.toThrow('mongo down');
+    });
+
+    it('should use the lowest watermark across backends', async () => {
+      const primary = createProvider({
+        getWatermarks: vi.fn().mockResolvedValue(new Map([['a', '5-0'], ['b', '7-0']])),
+      });
+      const cache = createProvider({ getWatermarks: vi.fn().mockResolvedValue(new Map([['a', '3-1']])) });
+      const fanOut = new FanOutProvider({ primary, secondaries: [cache] });
+
+      expect(await fanOut.getWatermarks!(['a', 'b'])).toEqual(new Map([['a', '3-1']]));
+    });
+
+    it('should require watermark support from every backend', () => {
+      expect(() => new FanOutProvider({ primary: createProvider(), secondaries: [createProvider({ getWatermarks: undefined })] }))
+        .toThrow("policy 'all' requires every backend to implement getWatermarks()");
+    });
+
+    it('should refuse a flush without watermarks instead of writing it', async () => {
+      const primary = createProvider();
+      const fanOut = new FanOutProvider({ primary, secondaries: [createProvider()] });
+
+      await expect(fanOut.flush(new Map([['a', 1], ['b', 1]]), { watermarks: new Map([['a', '1-0']]) }))
+        .rejects.toThrow('enable idempotent mode');
+      expect(primary.flush).not.toHaveBeenCalled();
+    });
+
+    it('should check every backend', async () => {
+      const cache = createProvider({ healthCheck: vi.fn().mockRejectedValue(new Error('unreachable')) });
+      const fanOut = new FanOutProvider({ primary: createProvider(), secondaries: [createProvider(), cache] });
+
+      await expect(fanOut.healthCheck()).rejects.toThrow('secondary #1: unreachable');
+    });
+  });
+
+  describe('primary policy', () => {
+    it('should return the primary result and send what it applied to the secondaries', async () => {
+      const primary = createProvider({
+        flush: vi.fn().mockResolvedValue({ failed: new Map([['a', 1]]), skipped: new Map([['b', 2]]) }),
+      });
+      const cache = createProvider();
+      const fanOut = new FanOutProvider({ primary, secondaries: [cache], policy: 'primary' });
+
+      const result = await fanOut.flush(new Map([['a', 1], ['b', 2], ['c', 3]]), {
+        metadata: new Map([['c', { tenantId: 'acme' }]]),
+      });
+
+      expect(result).toEqual({ failed: new Map([['a', 1]]), skipped: new Map([['b', 2]]) });
+      await vi.waitFor(() => expect(cache.flush).toHaveBeenCalled());
+      expect(cache.flush).toHaveBeenCalledWith(
+        new Map([['c', 3]]),
+        { metadata: new Map([['c', { tenantId: 'acme' }]]) },
+      );
+    });
+
+    it('should not write to secondaries when the primary fails', async () => {
+      const primary = createProvider({ flush: vi.fn().mockRejectedValue(new Error('mongo down')) });
+      const cache = createProvider();
+      const fanOut = new FanOutProvider({ primary, secondaries: [cache], policy: 'primary' });
+
+      await expect(fanOut.flush(new Map([['a', 1]]), marked(new Map([['a', 1]])))).rejects.toThrow('mongo down');
+      await fanOut.close();
+      expect(cache.flush).not.toHaveBeenCalled();
+    });
+
+    it('should queue a failing secondary and retry it after the backoff', async () => {
+      let now = 0;
+      const cache = createProvider({
+        flush: vi.fn()
+          .mockRejectedValueOnce(new Error('cache down'))
+          .mockResolvedValueOnce({ failed: new Map([['b', 5]]) })
+          .mockResolvedValue(undefined),
+      });
+      const onSecondaryError = vi.fn();
+      const fanOut = new FanOutProvider(
+        { primary: createProvider(), secondaries: [cache], policy: 'primary', retry: NO_JITTER, onSecondaryError },
+        () => now
+      );
+
+      await fanOut.flush(new Map([['a', 1], ['b', 2]]));
+      await vi.waitFor(() => expect(onSecondaryError).toHaveBeenCalledTimes(1));
+      expect(onSecondaryError).toHaveBeenCalledWith(new Error('Flush to secondary #0 failed: cache down'), cache);
+
+      // Still backing off: the new batch only joins the queue
+      now = 500;
+      await fanOut.flush(new Map([['b', 3], ['c', 4]]));
+      expect(cache.flush).toHaveBeenCalledTimes(1);
+
+      now = 1000;
+      await fanOut.flush(new Map([['a', 1]]));
+      await vi.waitFor(() => expect(onSecondaryError).toHaveBeenCalledTimes(2));
+      expect(cache.flush).toHaveBeenLastCalledWith(new Map([['a', 2], ['b', 5], ['c', 4]]), {});
+      expect(onSecondaryError).toHaveBeenLastCalledWith(new Error('Flush to secondary #0 failed for 1 scopes'), cache);
+
+      // Second failure doubles the backoff
+      now = 2999;
+      await fanOut.flush(new Map([['d', 1]]));
+      expect(cache.flush).toHaveBeenCalledTimes(2);
+      now = 3000;
+      await fanOut.flush(new Map([['d', 1]]));
+      await vi.waitFor(() => expect(cache.flush).toHaveBeenCalledTimes(3));
+      expect(cache.flush).toHaveBeenLastCalledWith(new Map([['d', 2], ['b', 5]]), {});
+    });
+
+    it('should keep set updates and watermarks in order in the queue', async () => {
+      let now = 0;
+      const cache = createProvider({
+        operations: ['add', 'set'],
+        flush: vi.fn().mockRejectedValueOnce(new Error('cache down')).mockResolvedValue(undefined),
+      });
+      const fanOut = new FanOutProvider(
+        { primary: createProvider({ operations: ['add', 'set'] }), secondaries: [cache], policy: 'primary', retry: NO_JITTER },
+        () => now
+      );
+
+      await fanOut.flush(new Map([['a', 0]]), {
+        watermarks: new Map([['a', '1-0']]),
+        updates: new Map([['a', { delta: 0, floor: 10, ceiling: 10 }]]),
+      });
+      await vi.waitFor(() => expect(cache.flush).toHaveBeenCalledTimes(1));
+
+      now = 1000;
+      await fanOut.flush(new Map([['a', 2]]), { watermarks: new Map([['a', '2-0']]) });
+      await vi.waitFor(() => expect(cache.flush).toHaveBeenCalledTimes(2));
+      expect(cache.flush).toHaveBeenLastCalledWith(new Map([['a', 0]]), {
+        watermarks: new Map([['a', '2-0']]),
+        updates: new Map([['a', { delta: 0, floor: 12, ceiling: 12 }]]),
+      });
+    });
+
+    it('should drop a queue that grows past maxQueuedScopes', async () => {
+      const cache = createProvider({ flush: vi.fn().mockRejectedValue(new Error('cache down')) });
+      const onSecondaryError = vi.fn();
+      const fanOut = new FanOutProvider({
+        primary: createProvider(), secondaries: [cache], policy: 'primary', maxQueuedScopes: 2, onSecondaryError,
+      });
+
+      await fanOut.flush(new Map([['a', 1], ['b', 1]]));
+      await vi.waitFor(() => expect(onSecondaryError).toHaveBeenCalledTimes(1));
+      await fanOut.flush(new Map([['c', 1]]));
+
+      expect(onSecondaryError).toHaveBeenLastCalledWith(
+        new Error('Retry queue for secondary #0 exceeded 2 scopes; dropped 3'),
+        cache,
+      );
+    });
+
+    it('should give queued scopes a last attempt on close', async () => {
+      const cache = createProvider({
+        flush: vi.fn().mockRejectedValueOnce(new Error('cache down')).mockResolvedValue(undefined),
+        close: vi.fn(),
+      });
+      const fanOut = new FanOutProvider({ primary: createProvider(), secondaries: [cache], policy: 'primary' });
+
+      await fanOut.flush(new Map([['a', 1]]));
+      await fanOut.close();
+
+      expect(cache.flush).toHaveBeenCalledTimes(2);
+      expect(cache.flush).toHaveBeenLastCalledWith(new Map([['a', 1]]), {});
+      expect(cache.close).toHaveBeenCalled();
+    });
+
+    it('should use the primary watermarks and health', async () => {
+      const primary = createProvider({ getWatermarks: vi.fn().mockResolvedValue(new Map([['a', '5-0']])) });
+      const cache = createProvider({ healthCheck: vi.fn().mockRejectedValue(new Error('unreachable')) });
+      const fanOut = new FanOutProvider({ primary, secondaries: [cache], policy: 'primary' });
+
+      expect(await fanOut.getWatermarks!(['a'])).toEqual(new Map([['a', '5-0']]));
+      await expect(fanOut.healthCheck()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('reads', () => {
+    it('should read from the designated backend', async () => {
+      const primary = createProvider({ get: vi.fn().mockResolvedValue(1) });
+      const cache = createProvider({ get: vi.fn().mockResolvedValue(2) });
+
+      expect(await new FanOutProvider({ primary, secondaries: [cache] }).get('a')).toBe(1);
+      expect(await new FanOutProvider({ primary, secondaries: [cache], readFrom: cache }).get('a')).toBe(2);
+    });
+
+    it('should fall back to the other backends only when enabled', async () => {
+      const primary = createProvider({ get: vi.fn().mockResolvedValue(7) });
+      const cache = createProvider({
+        get: vi.fn().mockRejectedValue(new Error('cache down')),
+        getBatch: vi.fn().mockRejectedValue(new Error('cache down')),
+      });
+
+      const strict = new FanOutProvider({ primary, secondaries: [cache], readFrom: cache });
+      await expect(strict.get('a')).rejects.toThrow('cache down');
+
+      const fallback = new FanOutProvider({ primary, secondaries: [cache], readFrom: cache, readFallback: true });
+      expect(await fallback.get('a')).toBe(7);
+      expect(await fallback.getBatch(['a', 'b'])).toEqual(new Map([['a', 7], ['b', 7]]));
+    });
+
+    it('should reject a read backend that is not a member', () => {
+      expect(() => new FanOutProvider({ primary: createProvider(), secondaries: [], readFrom: createProvider() }))
+        .toThrow('readFrom must be the primary or one of the secondaries');
+    });
+  });
+
+  it('should support only the operations every backend supports', () => {
+    const fanOut = new FanOutProvider({
+      primary: createProvider({ operations: ['add', 'set', 'max'] }),
+      secondaries: [createProvider({ operations: ['add', 'max'] })],
+    });
+    expect(fanOut.operations).toEqual(['add', 'max']);
+  });
+
+  it('should delete from every backend that supports it', async () => {
+    const primary = createProvider({ delete: vi.fn().mockResolvedValue(undefined) });
+    const cache = createProvider({ delete: vi.fn().mockRejectedValue(new Error('read-only')) });
+    const fanOut = new FanOutProvider({ primary, secondaries: [createProvider(), cache] });
+
+    await expect(fanOut.delete('a')).rejects.toThrow('secondary #1: read-only');
+    expect(primary.delete).toHaveBeenCalledWith('a');
+  });
+});
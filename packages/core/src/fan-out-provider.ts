@@ -0,0 +1,354 @@
+import type {
+  CounterOp,
+  FlushContext,
+  FlushResult,
+  Granularity,
+  ICounterProvider,
+  RetryConfig,
+  SeriesPoint,
+} from '@counter-bridge/types';
+import { Aggregator } from './aggregator';
+import type { DrainedBatch } from './aggregator';
+import { errorMessage } from './errors';
+import { computeBackoff, RETRY_DEFAULTS } from './retry';
+import { compareStreamIds } from './stream-id';
+
+/**
+ * How a fan-out flush decides success:
+ * - `all`: a scope is flushed only once every backend applied it. Needs
+ *   idempotent mode, so a retry under the scope's original watermark is
+ *   skipped by the backends that applied it.
+ * - `primary`: the primary decides; secondaries are written best-effort.
+ */
+export type FanOutPolicy = 'all' | 'primary';
+
+export interface FanOutProviderConfig {
+  /** Backend of record */
+  primary: ICounterProvider;
+
+  /** Backends every batch is also written to */
+  secondaries: ICounterProvider[];
+
+  /** Default: 'all' */
+  policy?: FanOutPolicy;
+
+  /** Backend that serves get, getBatch and getSeries. Default: the primary */
+  readFrom?: ICounterProvider;
+
+  /** Try the other backends, primary first, when a read fails. Default: false */
+  readFallback?: boolean;
+
+  /** Backoff between retries of a failing secondary (`primary` policy) */
+  retry?: RetryConfig;
+
+  /**
+   * Scopes a secondary's retry queue may hold before it is dropped
+   * (`primary` policy). Default: 100000
+   */
+  maxQueuedScopes?: number;
+
+  /** Called when a secondary fails or drops queued scopes (`primary` policy) */
+  onSecondaryError?(err: Error, secondary: ICounterProvider): void;
+}
+
+const DEFAULTS = {
+  POLICY: 'all' as FanOutPolicy,
+  MAX_QUEUED_SCOPES: 100_000,
+};
+
+interface Secondary {
+  provider: ICounterProvider;
+  label: string;
+  /** Applied by the primary, not yet by this secondary, oldest first */
+  queue: Aggregator;
+  attempts: number;
+  retryAt: number;
+  inFlight?: Promise<void>;
+}
+
+/**
+ * Provider that writes every batch to a primary and to secondary backends,
+ * e.g. MongoDB for durability plus a cache for fast reads.
+ *
+ * Under the `all` policy the backends are flushed in parallel and a scope
+ * any of them fails is reported as failed. The bridge then retries it on
+ * every backend as it was flushed, under the same watermark and before
+ * any newer events for the scope, so the backends that did apply it skip
+ * it. Every backend must implement `getWatermarks` and the bridge must run
+ * in idempotent mode. A flush without a watermark for every scope throws
+ * without writing. The flush also throws when every backend fails.
+ *
+ * Under the `primary` policy only the primary's result counts. What it
+ * applied is queued per secondary and flushed in the background; a
+ * failing secondary keeps its queue and is retried with backoff on later
+ * flushes. Queues live in memory, so a crash loses them.
+ */
+export class FanOutProvider implements ICounterProvider {
+  readonly operations: readonly CounterOp[];
+  readonly getWatermarks?: (scopes: string[]) => Promise<Map<string, string>>;
+  private readonly primary: ICounterProvider;
+  private readonly backends: ICounterProvider[];
+  private readonly policy: FanOutPolicy;
+  private readonly reader: ICounterProvider;
+  private readonly retry: Required<RetryConfig>;
+  private readonly maxQueuedScopes: number;
+  private readonly secondaries: Secondary[];
+
+  constructor(
+    private readonly config: FanOutProviderConfig,
+    private readonly now: () => number = Date.now
+  ) {
+    this.primary = config.primary;
+    this.backends = [config.primary, ...config.secondaries];
+    this.policy = config.policy ?? DEFAULTS.POLICY;
+    this.reader = config.readFrom ?? config.primary;
+    if (!this.backends.includes(this.reader)) {
+      throw new Error('FanOutProvider readFrom must be the primary or one of the secondaries');
+    }
+    this.retry = { ...RETRY_DEFAULTS, ...config.retry };
+    this.maxQueuedScopes = config.maxQueuedScopes ?? DEFAULTS.MAX_QUEUED_SCOPES;
+    this.secondaries = config.secondaries.map((provider, i) => ({
+      provider,
+      label: `secondary #${i}`,
+      queue: new Aggregator(),
+      attempts: 0,
+      retryAt: 0,
+    }));
+
+    this.operations = (['add', 'set', 'max', 'min'] as const).filter(
+      (op) => op === 'add' || this.backends.every((p) => p.operations?.includes(op))
+    );
+
+    if (this.policy === 'primary') {
+      if (this.primary.getWatermarks) {
+        this.getWatermarks = (scopes) => this.primary.getWatermarks!(scopes);
+      }
+    } else if (this.backends.every((p) => p.getWatermarks)) {
+      this.getWatermarks = (scopes) => this.lowestWatermarks(scopes);
+    } else {
+      throw new Error(
+        "FanOutProvider policy 'all' requires every backend to implement getWatermarks(); use policy 'primary' otherwise"
+      );
+    }
+  }
+
+  async flush(batch: Map<string, number>, context: FlushContext = {}): Promise<FlushResult | void> {
+    if (this.policy === 'all') return this.flushAll(batch, context);
+
+    const result = await this.primary.flush(batch, context);
+    for (const secondary of this.secondaries) {
+      this.enqueue(secondary, { batch, context }, result || {});
+      this.send(secondary);
+    }
+    return result;
+  }
+
+  async get(scope: string): Promise<number> {
+    return this.read(() => true, (provider) => provider.get(scope));
+  }
+
+  async getBatch(scopes: string[]): Promise<Map<string, number>> {
+    return this.read(() => true, async (provider) => {
+      if (provider.getBatch) return provider.getBatch(scopes);
+      return new Map(await Promise.all(scopes.map(async (scope) => [scope, await provider.get(scope)] as const)));
+    });
+  }
+
+  async getSeries(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]> {
+    return this.read(
+      (provider) => provider.getSeries !== undefined,
+      (provider) => provider.getSeries!(scope, from, to, granularity),
+    );
+  }
+
+  /** Delete the scope from every backend that supports it. */
+  async delete(scope: string): Promise<void> {
+    const targets = this.backends.filter((p) => p.delete);
+    if (targets.length === 0) {
+      throw new Error('No FanOutProvider backend supports delete()');
+    }
+    const outcomes = await Promise.allSettled(targets.map((p) => p.delete!(scope)));
+    this.throwFailures(targets, outcomes);
+  }
+
+  /**
+   * Check the backends a flush or read depends on: all of them under the
+   * `all` policy, otherwise the primary and the read backend.
+   */
+  async healthCheck(): Promise<void> {
+    const targets = this.policy === 'all'
+      ? this.backends
+      : Array.from(new Set([this.primary, this.reader]));
+    const outcomes = await Promise.allSettled(targets.map((p) => p.healthCheck?.()));
+    this.throwFailures(targets, outcomes);
+  }
+
+  async initialize(): Promise<void> {
+    for (const provider of this.backends) await provider.initialize?.();
+  }
+
+  /**
+   * Wait for in-flight secondary flushes and give each non-empty queue a
+   * last attempt before closing the backends. Scopes still queued after
+   * that are reported as dropped.
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.secondaries.map((s) => s.inFlight));
+    for (const secondary of this.secondaries) {
+      if (secondary.queue.scopeCount === 0) continue;
+      secondary.retryAt = 0;
+      this.send(secondary);
+      await secondary.inFlight;
+      const left = secondary.queue.scopeCount;
+      if (left > 0) {
+        secondary.queue.drainBatch();
+        this.report(secondary, new Error(`Closed with ${left} scopes unflushed to ${secondary.label}`));
+      }
+    }
+    await Promise.all(this.backends.map((p) => p.close?.()));
+  }
+
+  private async flushAll(batch: Map<string, number>, context: FlushContext): Promise<FlushResult | void> {
+    // Without watermarks a retry would re-apply the scope on every backend that already has it
+    const unmarked = Array.from(batch.keys()).filter((scope) => !context.watermarks?.has(scope));
+    if (unmarked.length > 0) {
+      throw new Error(
+        `FanOutProvider policy 'all' needs a watermark for every scope (${unmarked.length} without); ` +
+        'enable idempotent mode on the bridge'
+      );
+    }
+
+    const outcomes = await Promise.allSettled(this.backends.map((p) => p.flush(batch, context)));
+
+    const failed = new Map<string, number>();
+    const errors: unknown[] = [];
+    let skipped: Map<string, number> | undefined;
+    for (const outcome of outcomes) {
+      if (outcome.status === 'rejected') {
+        errors.push(outcome.reason);
+        for (const [scope, delta] of batch) failed.set(scope, delta);
+        continue;
+      }
+      for (const [scope, delta] of outcome.value?.failed ?? []) failed.set(scope, delta);
+      // Skipped means skipped everywhere: a backend that applied the scope is ahead
+      const backendSkipped = outcome.value?.skipped ?? new Map<string, number>();
+      skipped = skipped
+        ? new Map(Array.from(skipped).filter(([scope]) => backendSkipped.has(scope)))
+        : new Map(backendSkipped);
+    }
+
+    if (errors.length === this.backends.length) throw errors[0];
+
+    const result: FlushResult = {};
+    if (failed.size > 0) result.failed = failed;
+    for (const scope of failed.keys()) skipped?.delete(scope);
+    if (skipped && skipped.size > 0) result.skipped = skipped;
+    return result.failed || result.skipped ? result : undefined;
+  }
+
+  /** Queue what the primary applied behind what the secondary already owes. */
+  private enqueue(secondary: Secondary, drained: DrainedBatch, result: FlushResult): void {
+    const applied = Array.from(drained.batch.keys()).filter(
+      (scope) => !result.failed?.has(scope) && !result.skipped?.has(scope)
+    );
+    const queue = new Aggregator();
+    queue.restoreAll(drained, applied);
+    // Restored scopes go before what is already there
+    const owed = secondary.queue.drainBatch();
+    queue.restoreAll(owed);
+    secondary.queue = queue;
+
+    if (queue.scopeCount > this.maxQueuedScopes) {
+      const dropped = queue.scopeCount;
+      queue.drainBatch();
+      this.report(secondary, new Error(
+        `Retry queue for ${secondary.label} exceeded ${this.maxQueuedScopes} scopes; dropped ${dropped}`
+      ));
+    }
+  }
+
+  /** Start flushing a secondary's queue unless it is busy, empty or backing off. */
+  private send(secondary: Secondary): void {
+    if (secondary.inFlight || secondary.queue.scopeCount === 0 || this.now() < secondary.retryAt) return;
+
+    const drained = secondary.queue.drainBatch();
+    if (drained.context.watermarks?.size === 0) delete drained.context.watermarks;
+    secondary.inFlight = this.flushSecondary(secondary, drained).finally(() => {
+      secondary.inFlight = undefined;
+    });
+  }
+
+  private async flushSecondary(secondary: Secondary, drained: DrainedBatch): Promise<void> {
+    let failed: Iterable<string>;
+    let error: Error;
+    try {
+      const result = await secondary.provider.flush(drained.batch, drained.context);
+      if (!result?.failed?.size) {
+        secondary.attempts = 0;
+        secondary.retryAt = 0;
+        return;
+      }
+      failed = result.failed.keys();
+      error = new Error(`Flush to ${secondary.label} failed for ${result.failed.size} scopes`);
+    } catch (err) {
+      failed = drained.batch.keys();
+      error = new Error(`Flush to ${secondary.label} failed: ${errorMessage(err)}`);
+    }
+
+    secondary.queue.restoreAll(drained, failed);
+    secondary.attempts++;
+    secondary.retryAt = this.now() + computeBackoff(secondary.attempts, this.retry);
+    this.report(secondary, error);
+  }
+
+  /** Per scope, the lowest watermark across backends; scopes any backend lacks are left out. */
+  private async lowestWatermarks(scopes: string[]): Promise<Map<string, string>> {
+    const all = await Promise.all(this.backends.map((p) => p.getWatermarks!(scopes)));
+    const lowest = new Map<string, string>();
+    for (const scope of scopes) {
+      const ids = all.map((watermarks) => watermarks.get(scope));
+      if (ids.some((id) => id === undefined)) continue;
+      lowest.set(scope, (ids as string[]).reduce((a, b) => (compareStreamIds(a, b) <= 0 ? a : b)));
+    }
+    return lowest;
+  }
+
+  /** Read from the read backend, falling back to the others in order if enabled. */
+  private async read<T>(
+    supports: (provider: ICounterProvider) => boolean,
+    read: (provider: ICounterProvider) => Promise<T>,
+  ): Promise<T> {
+    const candidates = (this.config.readFallback
+      ? [this.reader, ...this.backends.filter((p) => p !== this.reader)]
+      : [this.reader]
+    ).filter(supports);
+    if (candidates.length === 0) {
+      throw new Error('FanOutProvider read backend does not support getSeries()');
+    }
+
+    let firstError: unknown;
+    for (const [i, provider] of candidates.entries()) {
+      try {
+        return await read(provider);
+      } catch (err) {
+        if (i === 0) firstError = err;
+      }
+    }
+    throw firstError;
+  }
+
+  private throwFailures(targets: ICounterProvider[], outcomes: PromiseSettledResult<unknown>[]): void {
+    const failures = outcomes.flatMap((outcome, i) => (
+      outcome.status === 'rejected' ? [`${this.label(targets[i])}: ${errorMessage(outcome.reason)}`] : []
+    ));
+    if (failures.length > 0) throw new Error(failures.join('; '));
+  }
+
+  private label(provider: ICounterProvider): string {
+    return provider === this.primary ? 'primary' : `secondary #${this.config.secondaries.indexOf(provider)}`;
+  }
+
+  private report(secondary: Secondary, err: Error): void {
+    this.config.onSecondaryError?.(err, secondary.provider);
+  }
+}
@@ -1,13 +1,46 @@
 export { CounterBridge } from './consumer';
-export { Aggregator } from './aggregator';
+export { Aggregator, updateOps } from './aggregator';
+export type { DrainedBatch } from './aggregator';
+export { compareStreamIds } from './stream-id';
+export { DeadLetterQueue } from './dead-letter';
+export { CircuitBreaker } from './circuit-breaker';
+export { computeBackoff } from './retry';
+export { RoutingProvider } from './routing-provider';
+export type { RoutingProviderConfig, ScopeRoute } from './routing-provider';
+export { FanOutProvider } from './fan-out-provider';
+export type { FanOutPolicy, FanOutProviderConfig } from './fan-out-provider';
 
 // Re-export types consumers need
 export type {
   CoreConfig,
   BatchingConfig,
+  BackpressureConfig,
+  MonitoringConfig,
+  HealthCheckConfig,
+  HealthCheckResult,
+  StreamHealth,
+  LagThreshold,
+  BucketDefinition,
+  Granularity,
+  SeriesPoint,
+  PartitionConfig,
+  ClaimConfig,
+  DeadLetterConfig,
+  DeadLetterEntry,
+  DeadLetterReason,
+  NumericPolicy,
+  RetryConfig,
+  CircuitBreakerConfig,
+  CircuitState,
   CounterEvent,
+  CounterOp,
+  CounterUpdate,
   SyncStats,
   ICounterProvider,
   FlushResult,
+  FlushContext,
+  FlushEntry,
+  FlushMiddleware,
   ScopeMetadata,
+  ParsedScope,
 } from '@counter-bridge/types';
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { FlushEntry, FlushMiddleware } from '@counter-bridge/types';
+import { FlushPipeline } from './middleware';
+import type { PreparedBatch } from './middleware';
+
+function drained() {
+  return {
+    batch: new Map([['v0:post:1:likes', 3], ['test:post:2:likes', 1], ['post:3:views', 5]]),
+    context: {
+      watermarks: new Map([['v0:post:1:likes', '10-0'], ['test:post:2:likes', '11-0'], ['post:3:views', '12-0']]),
+      updates: new Map([['post:3:views', { delta: 5, floor: 100 }]]),
+    },
+  };
+}
+
+describe('FlushPipeline', () => {
+  it('should pass the drained batch through without middleware', async () => {
+    const batch = drained();
+    expect(await new FlushPipeline().before(batch)).toBe(batch);
+  });
+
+  it('should run before hooks in order, each on the previous output', async () => {
+    const calls: string[][] = [];
+    const pipeline = new FlushPipeline([
+      {
+        before: (entries) => {
+          calls.push(entries.map((e) => e.scope));
+          return entries.filter((e) => !e.scope.startsWith('test:'));
+        },
+      },
+      {
+        before: (entries) => {
+          calls.push(entries.map((e) => e.scope));
+          return entries.map((e) => ({ ...e, scope: e.scope.replace(/^v0:/, 'v1:') }));
+        },
+      },
+    ]);
+
+    const prepared = await pipeline.before(drained());
+
+    expect(calls).toEqual([
+      ['v0:post:1:likes', 'test:post:2:likes', 'post:3:views'],
+      ['v0:post:1:likes', 'post:3:views'],
+    ]);
+    expect(prepared.batch).toEqual(new Map([['v1:post:1:likes', 3], ['post:3:views', 5]]));
+    expect(prepared.context.watermarks).toEqual(new Map([['v1:post:1:likes', '10-0'], ['post:3:views', '12-0']]));
+    expect(prepared.context.updates).toEqual(new Map([['post:3:views', { delta: 5, floor: 100, ceiling: undefined }]]));
+    expect(prepared.sources).toEqual(new Map([['v1:post:1:likes', ['v0:post:1:likes']], ['post:3:views', ['post:3:views']]]));
+  });
+
+  it('should merge adds split into the same scope', async () => {
+    const pipeline = new FlushPipeline([{
+      before: (entries) => entries
+        .filter((e) => e.floor === undefined)
+        .flatMap((e) => [e, { ...e, scope: 'analytics:likes' }]),
+    }]);
+
+    const prepared = await pipeline.before(drained());
+
+    expect(prepared.batch.get('analytics:likes')).toBe(4);
+    expect(prepared.context.watermarks!.get('analytics:likes')).toBe('11-0');
+    expect(prepared.sources!.get('analytics:likes')).toEqual(['v0:post:1:likes', 'test:post:2:likes']);
+  });
+
+  it('should reject merging a set/max/min update', async () => {
+    const pipeline = new FlushPipeline([{
+      before: (entries) => entries.map((e) => ({ ...e, scope: 'all' })),
+    }]);
+    await expect(pipeline.before(drained())).rejects.toThrow('returned scope "all" more than once with a set, max or min');
+  });
+
+  it('should reject entries from an unknown source', async () => {
+    const pipeline = new FlushPipeline([{
+      before: (entries) => [...entries, { scope: 'extra', delta: 1, source: 'extra' }],
+    }]);
+    await expect(pipeline.before(drained())).rejects.toThrow('returned scope "extra" with unknown source "extra"');
+  });
+
+  it('should name the middleware that failed', async () => {
+    const pipeline = new FlushPipeline([
+      { before: (entries) => entries },
+      { name: 'remap', before: () => { throw new Error('boom'); } },
+    ]);
+    await expect(pipeline.before(drained())).rejects.toThrow('Flush middleware "remap" failed: boom');
+  });
+
+  it('should isolate after hook failures', async () => {
+    const seen: FlushEntry[][] = [];
+    const middleware: FlushMiddleware[] = [
+      { after: () => { throw new Error('analytics down'); } },
+      { after: (entries) => { seen.push([...entries]); } },
+    ];
+    const pipeline = new FlushPipeline(middleware);
+    const prepared = await pipeline.before(drained());
+    const onError = vi.fn();
+
+    await pipeline.after(prepared, { failed: new Map([['post:3:views', 5]]) }, onError);
+
+    expect(onError).toHaveBeenCalledWith(new Error('Flush middleware #0 failed after flush: analytics down'));
+    expect(seen[0].map((e) => e.scope)).toEqual(['v0:post:1:likes', 'test:post:2:likes', 'post:3:views']);
+  });
+
+  it('should skip after hooks without middleware', async () => {
+    const prepared: PreparedBatch = drained();
+    const onError = vi.fn();
+    await new FlushPipeline().after(prepared, {}, onError);
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+import type { FlushContext, FlushEntry, FlushMiddleware, FlushResult } from '@counter-bridge/types';
+import type { DrainedBatch } from './aggregator';
+import { errorMessage } from './errors';
+import { compareStreamIds } from './stream-id';
+
+/**
+ * A batch ready for `provider.flush`. When middleware ran it also maps
+ * each flushed scope to the drained scopes it derives from, and keeps the
+ * entries for the `after` hooks; otherwise every scope is its own source.
+ */
+export interface PreparedBatch extends DrainedBatch {
+  sources?: Map<string, string[]>;
+  entries?: FlushEntry[];
+}
+
+/**
+ * Runs `FlushMiddleware` hooks around the provider flush. With no
+ * middleware the drained batch is passed through untouched.
+ */
+export class FlushPipeline {
+  constructor(private readonly middleware: FlushMiddleware[] = []) {}
+
+  /**
+   * Run the `before` hooks over a drained batch and build the provider
+   * batch from what the last one returned. Throws if a hook fails or
+   * returns entries that can't be flushed.
+   */
+  async before(drained: DrainedBatch): Promise<PreparedBatch> {
+    if (this.middleware.length === 0) return drained;
+
+    let entries = toEntries(drained);
+    for (const [index, middleware] of this.middleware.entries()) {
+      if (!middleware.before) continue;
+      try {
+        entries = await middleware.before(entries);
+      } catch (err) {
+        throw new Error(`Flush middleware ${label(middleware, index)} failed: ${errorMessage(err)}`);
+      }
+    }
+    return { ...buildBatch(entries, drained.batch), entries };
+  }
+
+  /**
+   * Run the `after` hooks. Each failure is passed to `onError` and the
+   * remaining hooks still run.
+   */
+  async after(prepared: PreparedBatch, result: FlushResult, onError: (err: Error) => void): Promise<void> {
+    if (!prepared.entries) return;
+
+    for (const [index, middleware] of this.middleware.entries()) {
+      if (!middleware.after) continue;
+      try {
+        await middleware.after(prepared.entries, result);
+      } catch (err) {
+        onError(new Error(`Flush middleware ${label(middleware, index)} failed after flush: ${errorMessage(err)}`));
+      }
+    }
+  }
+}
+
+/** One entry per drained scope, each its own source. */
+function toEntries({ batch, context }: DrainedBatch): FlushEntry[] {
+  return Array.from(batch, ([scope, delta]) => ({
+    ...(context.updates?.get(scope) ?? { delta }),
+    scope,
+    watermark: context.watermarks?.get(scope),
+    metadata: context.metadata?.get(scope),
+    source: scope,
+  }));
+}
+
+/**
+ * Fold entries into a provider batch. Entries for the same scope are
+ * summed, keeping the highest watermark and the last metadata; merging a
+ * set/max/min update would depend on the order of its events, so it is
+ * rejected.
+ */
+function buildBatch(entries: FlushEntry[], drained: Map<string, number>): PreparedBatch {
+  const batch = new Map<string, number>();
+  const watermarks = new Map<string, string>();
+  const context: FlushContext = { watermarks };
+  const sources = new Map<string, string[]>();
+
+  for (const entry of entries) {
+    if (!drained.has(entry.source)) {
+      throw new Error(`Flush middleware returned scope "${entry.scope}" with unknown source "${entry.source}"`);
+    }
+
+    const bounded = entry.floor !== undefined || entry.ceiling !== undefined;
+    const merged = sources.get(entry.scope);
+    if (merged) {
+      if (bounded || context.updates?.has(entry.scope)) {
+        throw new Error(`Flush middleware returned scope "${entry.scope}" more than once with a set, max or min`);
+      }
+      batch.set(entry.scope, batch.get(entry.scope)! + entry.delta);
+      if (!merged.includes(entry.source)) merged.push(entry.source);
+    } else {
+      batch.set(entry.scope, entry.delta);
+      sources.set(entry.scope, [entry.source]);
+      if (bounded) {
+        if (!context.updates) context.updates = new Map();
+        context.updates.set(entry.scope, { delta: entry.delta, floor: entry.floor, ceiling: entry.ceiling });
+      }
+    }
+
+    if (entry.metadata) {
+      if (!context.metadata) context.metadata = new Map();
+      context.metadata.set(entry.scope, entry.metadata);
+    }
+
+    const watermark = watermarks.get(entry.scope);
+    if (entry.watermark !== undefined && (watermark === undefined || compareStreamIds(entry.watermark, watermark) > 0)) {
+      watermarks.set(entry.scope, entry.watermark);
+    }
+  }
+
+  return { batch, context, sources };
+}
+
+function label(middleware: FlushMiddleware, index: number): string {
+  return middleware.name ? `"${middleware.name}"` : `#${index}`;
+}
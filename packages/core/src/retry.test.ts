@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { computeBackoff, RETRY_DEFAULTS } from './retry';
+
+const noJitter = { ...RETRY_DEFAULTS, jitter: 0 };
+
+describe('computeBackoff', () => {
+  it('should grow exponentially from the initial delay', () => {
+    expect(computeBackoff(1, noJitter)).toBe(500);
+    expect(computeBackoff(2, noJitter)).toBe(1000);
+    expect(computeBackoff(3, noJitter)).toBe(2000);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeBackoff(20, noJitter)).toBe(30_000);
+  });
+
+  it('should shave off at most the jitter fraction', () => {
+    const policy = { ...RETRY_DEFAULTS, jitter: 0.5 };
+    expect(computeBackoff(2, policy, () => 0)).toBe(1000);
+    expect(computeBackoff(2, policy, () => 0.999999)).toBe(500);
+    expect(computeBackoff(20, policy, () => 0)).toBeLessThanOrEqual(30_000);
+  });
+});
@@ -0,0 +1,23 @@
+import type { RetryConfig } from '@counter-bridge/types';
+
+export const RETRY_DEFAULTS: Required<RetryConfig> = {
+  initialDelayMs: 500,
+  maxDelayMs: 30_000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential growth from
+ * `initialDelayMs`, capped at `maxDelayMs`, then reduced by a random
+ * fraction of up to `jitter` so that replicas don't retry in lockstep.
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: Required<RetryConfig>,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.initialDelayMs * Math.pow(policy.multiplier, Math.max(0, attempt - 1));
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.round(capped * (1 - policy.jitter * random()));
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ICounterProvider } from '@counter-bridge/types';
+import { RoutingProvider } from './routing-provider';
+
+function createProvider(overrides: Partial<ICounterProvider> = {}) {
+  return {
+    flush: vi.fn().mockResolvedValue(undefined),
+    get: vi.fn().mockResolvedValue(0),
+    ...overrides,
+  } satisfies ICounterProvider;
+}
+
+/** Routes "v1:{tenant}.{model}:{id}:{field}" scopes by tenant, anything else to the last provider */
+function createRouter(tenants: Record<string, ICounterProvider>, fallback: ICounterProvider) {
+  const route = vi.fn(({ parsed }: { parsed?: { model: string } }) => (
+    tenants[parsed?.model.split('.')[0] ?? ''] ?? fallback
+  ));
+  const router = new RoutingProvider({ route, providers: [...Object.values(tenants), fallback] });
+  return { router, route };
+}
+
+describe('RoutingProvider', () => {
+  it('should require at least one provider', () => {
+    expect(() => new RoutingProvider({ route: vi.fn(), providers: [] })).toThrow('at least one provider');
+  });
+
+  it('should split a flush into one batch and context per provider', async () => {
+    const acme = createProvider();
+    const globex = createProvider();
+    const shared = createProvider();
+    const { router } = createRouter({ acme, globex }, shared);
+
+    const result = await router.flush(
+      new Map([['v1:acme.post:1:likes', 3], ['v1:globex.post:2:likes', 1], ['v1:acme.post:3:views', 2], ['legacy', 4]]),
+      {
+        watermarks: new Map([['v1:acme.post:1:likes', '10-0'], ['v1:globex.post:2:likes', '11-0']]),
+        updates: new Map([['v1:globex.post:2:likes', { delta: 1, floor: 5 }]]),
+      },
+    );
+
+    expect(result).toBeUndefined();
+    expect(acme.flush).toHaveBeenCalledWith(
+      new Map([['v1:acme.post:1:likes', 3], ['v1:acme.post:3:views', 2]]),
+      { watermarks: new Map([['v1:acme.post:1:likes', '10-0']]) },
+    );
+    expect(globex.flush).toHaveBeenCalledWith(
+      new Map([['v1:globex.post:2:likes', 1]]),
+      {
+        watermarks: new Map([['v1:globex.post:2:likes', '11-0']]),
+        updates: new Map([['v1:globex.post:2:likes', { delta: 1, floor: 5 }]]),
+      },
+    );
+    expect(shared.flush).toHaveBeenCalledWith(new Map([['legacy', 4]]), {});
+  });
+
+  it('should route by metadata when flushing', async () => {
+    const acme = createProvider();
+    const shared = createProvider();
+    const route = vi.fn(({ metadata }) => (metadata?.tenantId === 'acme' ? acme : shared));
+    const router = new RoutingProvider({ route, providers: [acme, shared] });
+
+    await router.flush(new Map([['a', 1], ['b', 2]]), {
+      metadata: new Map([['a', { tenantId: 'acme' }]]),
+    });
+
+    expect(acme.flush).toHaveBeenCalledWith(new Map([['a', 1]]), { metadata: new Map([['a', { tenantId: 'acme' }]]) });
+    expect(shared.flush).toHaveBeenCalledWith(new Map([['b', 2]]), {});
+  });
+
+  it('should send bucket keys to the provider of their scope', async () => {
+    const acme = createProvider();
+    const shared = createProvider();
+    const { router, route } = createRouter({ acme }, shared);
+
+    await router.flush(new Map([['v1:acme.post:1:views', 1], ['v1:acme.post:1:views#hour#1760878800000', 1]]));
+
+    expect(acme.flush).toHaveBeenCalledWith(
+      new Map([['v1:acme.post:1:views', 1], ['v1:acme.post:1:views#hour#1760878800000', 1]]),
+      {},
+    );
+    expect(shared.flush).not.toHaveBeenCalled();
+    expect(route).toHaveBeenLastCalledWith(expect.objectContaining({ scope: 'v1:acme.post:1:views' }));
+  });
+
+  it('should merge failed and skipped scopes from every provider', async () => {
+    const acme = createProvider({
+      flush: vi.fn().mockResolvedValue({ failed: new Map([['v1:acme.post:1:likes', 3]]) }),
+    });
+    const shared = createProvider({
+      flush: vi.fn().mockResolvedValue({ failed: new Map([['legacy', 4]]), skipped: new Map([['other', 1]]) }),
+    });
+    const { router } = createRouter({ acme }, shared);
+
+    const result = await router.flush(new Map([['v1:acme.post:1:likes', 3], ['legacy', 4], ['other', 1]]));
+
+    expect(result).toEqual({
+      failed: new Map([['v1:acme.post:1:likes', 3], ['legacy', 4]]),
+      skipped: new Map([['other', 1]]),
+    });
+  });
+
+  it('should report every scope of a failing provider as failed', async () => {
+    const acme = createProvider({ flush: vi.fn().mockRejectedValue(new Error('acme down')) });
+    const shared = createProvider();
+    const { router } = createRouter({ acme }, shared);
+
+    const result = await router.flush(new Map([['v1:acme.post:1:likes', 3], ['v1:acme.post:2:likes', 1], ['legacy', 4]]));
+
+    expect(result).toEqual({ failed: new Map([['v1:acme.post:1:likes', 3], ['v1:acme.post:2:likes', 1]]) });
+    expect(shared.flush).toHaveBeenCalled();
+  });
+
+  it('should throw when every provider fails', async () => {
+    const acme = createProvider({ flush: vi.fn().mockRejectedValue(new Error('acme down')) });
+    const shared = createProvider({ flush: vi.fn().mockRejectedValue(new Error('shared down')) });
+    const { router } = createRouter({ acme }, shared);
+
+    await expect(router.flush(new Map([['v1:acme.post:1:likes', 3], ['legacy', 4]]))).rejects.toThrow('acme down');
+  });
+
+  it('should reject a provider that is not listed', async () => {
+    const router = new RoutingProvider({ route: () => createProvider(), providers: [createProvider()] });
+    await expect(router.get('legacy')).rejects.toThrow('Scope "legacy" was routed to a provider not listed in providers');
+  });
+
+  it('should route reads by the parsed scope', async () => {
+    const acme = createProvider({
+      get: vi.fn().mockResolvedValue(7),
+      getBatch: vi.fn().mockResolvedValue(new Map([['v1:acme.post:1:likes', 7]])),
+    });
+    const shared = createProvider({ get: vi.fn().mockResolvedValue(2) });
+    const { router, route } = createRouter({ acme }, shared);
+
+    expect(await router.get('v1:acme.post:1:likes')).toBe(7);
+    expect(route).toHaveBeenCalledWith({
+      scope: 'v1:acme.post:1:likes',
+      parsed: { version: 1, model: 'acme.post', id: '1', field: 'likes' },
+      metadata: undefined,
+    });
+
+    // The fallback has no getBatch, so it is read scope by scope
+    expect(await router.getBatch(['v1:acme.post:1:likes', 'legacy', 'other'])).toEqual(
+      new Map([['v1:acme.post:1:likes', 7], ['legacy', 2], ['other', 2]]),
+    );
+    expect(acme.getBatch).toHaveBeenCalledWith(['v1:acme.post:1:likes']);
+    expect(shared.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should support only what every provider supports', async () => {
+    const full = createProvider({ operations: ['add', 'set', 'max'], getWatermarks: vi.fn() });
+    const partial = createProvider({ operations: ['add', 'max'] });
+
+    const router = new RoutingProvider({ route: () => partial, providers: [full, partial] });
+
+    expect(router.operations).toEqual(['add', 'max']);
+    expect(router.getWatermarks).toBeUndefined();
+    await expect(router.delete('legacy')).rejects.toThrow('does not support delete()');
+  });
+
+  it('should read watermarks from every provider', async () => {
+    const acme = createProvider({ getWatermarks: vi.fn().mockResolvedValue(new Map([['v1:acme.post:1:likes', '5-0']])) });
+    const shared = createProvider({ getWatermarks: vi.fn().mockResolvedValue(new Map([['legacy', '6-0']])) });
+    const { router } = createRouter({ acme }, shared);
+
+    expect(await router.getWatermarks!(['v1:acme.post:1:likes', 'legacy'])).toEqual(
+      new Map([['v1:acme.post:1:likes', '5-0'], ['legacy', '6-0']]),
+    );
+  });
+
+  it('should report each failing provider health check', async () => {
+    const router = new RoutingProvider({
+      route: vi.fn(),
+      providers: [
+        createProvider({ healthCheck: vi.fn().mockResolvedValue(undefined) }),
+        createProvider(),
+        createProvider({ healthCheck: vi.fn().mockRejectedValue(new Error('not connected')) }),
+      ],
+    });
+
+    await expect(router.healthCheck()).rejects.toThrow('provider #2: not connected');
+  });
+});
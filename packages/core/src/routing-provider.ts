@@ -0,0 +1,195 @@
+import { parseBucketKey, parseScope } from '@counter-bridge/types';
+import type {
+  CounterOp,
+  FlushContext,
+  FlushResult,
+  Granularity,
+  ICounterProvider,
+  ParsedScope,
+  ScopeMetadata,
+  SeriesPoint,
+} from '@counter-bridge/types';
+import { errorMessage } from './errors';
+
+/** What a routing decision can be based on */
+export interface ScopeRoute {
+  /** Counter scope (for a time-bucket key, the scope it buckets) */
+  scope: string;
+
+  /** The scope's components, if it is a structured scope (see `parseScope`) */
+  parsed?: ParsedScope;
+
+  /** The scope's metadata. Only known when flushing, and only if events carried it */
+  metadata?: ScopeMetadata;
+}
+
+export interface RoutingProviderConfig {
+  /**
+   * Pick the provider for a scope. Reads carry no metadata, so a scope
+   * must route the same way with or without it: derive the target from
+   * the scope itself, or look it up (the resolver may be async).
+   */
+  route(route: ScopeRoute): ICounterProvider | Promise<ICounterProvider>;
+
+  /** Every provider `route` can return; initialized, checked and closed with the router */
+  providers: ICounterProvider[];
+}
+
+/**
+ * Provider that spreads scopes over several underlying providers — e.g.
+ * a `MongoProvider` per tenant collection or database — as chosen by a
+ * resolver. Each flush is split into one batch per provider, flushed in
+ * parallel; a provider that fails reports all of its scopes as failed,
+ * and only when every provider fails does the flush throw.
+ *
+ * The router supports an op or optional method only if every provider
+ * does, so idempotent mode requires `getWatermarks` on all of them.
+ */
+export class RoutingProvider implements ICounterProvider {
+  readonly operations: readonly CounterOp[];
+  readonly getWatermarks?: (scopes: string[]) => Promise<Map<string, string>>;
+  private readonly providers: ICounterProvider[];
+
+  constructor(private readonly config: RoutingProviderConfig) {
+    if (config.providers.length === 0) {
+      throw new Error('RoutingProvider requires at least one provider');
+    }
+    this.providers = config.providers;
+    this.operations = (['add', 'set', 'max', 'min'] as const).filter(
+      (op) => op === 'add' || this.providers.every((p) => p.operations?.includes(op))
+    );
+    if (this.providers.every((p) => p.getWatermarks)) {
+      this.getWatermarks = (scopes) => this.readMany(scopes, (p, group) => p.getWatermarks!(group));
+    }
+  }
+
+  async flush(batch: Map<string, number>, context: FlushContext = {}): Promise<FlushResult | void> {
+    const groups = await this.group(Array.from(batch.keys()), context.metadata);
+
+    const outcomes = await Promise.allSettled(Array.from(groups, ([provider, scopes]) => (
+      provider.flush(pick(batch, scopes)!, subContext(context, scopes))
+    )));
+
+    const failed = new Map<string, number>();
+    const skipped = new Map<string, number>();
+    const errors: unknown[] = [];
+    Array.from(groups.values()).forEach((scopes, i) => {
+      const outcome = outcomes[i];
+      if (outcome.status === 'rejected') {
+        errors.push(outcome.reason);
+        for (const scope of scopes) failed.set(scope, batch.get(scope)!);
+        return;
+      }
+      for (const [scope, delta] of outcome.value?.failed ?? []) failed.set(scope, delta);
+      for (const [scope, delta] of outcome.value?.skipped ?? []) skipped.set(scope, delta);
+    });
+
+    // Every provider failed: a total failure, retried as a whole
+    if (errors.length === groups.size) throw errors[0];
+
+    const result: FlushResult = {};
+    if (failed.size > 0) result.failed = failed;
+    if (skipped.size > 0) result.skipped = skipped;
+    return result.failed || result.skipped ? result : undefined;
+  }
+
+  async get(scope: string): Promise<number> {
+    return (await this.routeTo(scope)).get(scope);
+  }
+
+  async getBatch(scopes: string[]): Promise<Map<string, number>> {
+    return this.readMany(scopes, async (provider, group) => {
+      if (provider.getBatch) return provider.getBatch(group);
+      return new Map(await Promise.all(group.map(async (scope) => [scope, await provider.get(scope)] as const)));
+    });
+  }
+
+  async getSeries(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]> {
+    const provider = await this.routeTo(scope);
+    if (!provider.getSeries) {
+      throw new Error(`Provider for scope "${scope}" does not support getSeries()`);
+    }
+    return provider.getSeries(scope, from, to, granularity);
+  }
+
+  async delete(scope: string): Promise<void> {
+    const provider = await this.routeTo(scope);
+    if (!provider.delete) {
+      throw new Error(`Provider for scope "${scope}" does not support delete()`);
+    }
+    await provider.delete(scope);
+  }
+
+  /** Check every provider that has a health check; rejects with the failures. */
+  async healthCheck(): Promise<void> {
+    const outcomes = await Promise.allSettled(this.providers.map((p) => p.healthCheck?.()));
+    const failures = outcomes.flatMap((outcome, i) => (
+      outcome.status === 'rejected' ? [`provider #${i}: ${errorMessage(outcome.reason)}`] : []
+    ));
+    if (failures.length > 0) throw new Error(failures.join('; '));
+  }
+
+  async initialize(): Promise<void> {
+    for (const provider of this.providers) await provider.initialize?.();
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.providers.map((p) => p.close?.()));
+  }
+
+  /** The provider for a scope or time-bucket key. */
+  private async routeTo(key: string, metadata?: Map<string, ScopeMetadata>): Promise<ICounterProvider> {
+    // Bucket rows go wherever the scope they bucket goes
+    const scope = parseBucketKey(key)?.scope ?? key;
+    const provider = await this.config.route({ scope, parsed: parseScope(scope), metadata: metadata?.get(scope) });
+    if (!this.providers.includes(provider)) {
+      throw new Error(`Scope "${scope}" was routed to a provider not listed in providers`);
+    }
+    return provider;
+  }
+
+  /** Group keys by the provider they route to. */
+  private async group(keys: string[], metadata?: Map<string, ScopeMetadata>): Promise<Map<ICounterProvider, string[]>> {
+    const targets = await Promise.all(keys.map((key) => this.routeTo(key, metadata)));
+    const groups = new Map<ICounterProvider, string[]>();
+    keys.forEach((key, i) => {
+      const group = groups.get(targets[i]);
+      if (group) group.push(key);
+      else groups.set(targets[i], [key]);
+    });
+    return groups;
+  }
+
+  /** Run a per-provider read over each group of scopes and merge the maps. */
+  private async readMany<V>(
+    scopes: string[],
+    read: (provider: ICounterProvider, scopes: string[]) => Promise<Map<string, V>>,
+  ): Promise<Map<string, V>> {
+    const groups = await this.group(scopes);
+    const results = await Promise.all(Array.from(groups, ([provider, group]) => read(provider, group)));
+    return new Map(results.flatMap((result) => Array.from(result)));
+  }
+}
+
+/** The entries of `map` for `keys`, or undefined if it has none of them. */
+function pick<V>(map: Map<string, V> | undefined, keys: string[]): Map<string, V> | undefined {
+  if (!map) return undefined;
+  const picked = new Map<string, V>();
+  for (const key of keys) {
+    const value = map.get(key);
+    if (value !== undefined) picked.set(key, value);
+  }
+  return picked.size > 0 ? picked : undefined;
+}
+
+/** The parts of a flush context that concern `scopes`. */
+function subContext(context: FlushContext, scopes: string[]): FlushContext {
+  const sub: FlushContext = {};
+  const watermarks = pick(context.watermarks, scopes);
+  const updates = pick(context.updates, scopes);
+  const metadata = pick(context.metadata, scopes);
+  if (watermarks) sub.watermarks = watermarks;
+  if (updates) sub.updates = updates;
+  if (metadata) sub.metadata = metadata;
+  return sub;
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { compareStreamIds } from './stream-id';
+
+describe('compareStreamIds', () => {
+  it('should order by millisecond part first', () => {
+    expect(compareStreamIds('999-5', '1000-0')).toBeLessThan(0);
+    expect(compareStreamIds('1000-0', '999-5')).toBeGreaterThan(0);
+  });
+
+  it('should order by sequence numerically, not lexically', () => {
+    expect(compareStreamIds('1000-9', '1000-10')).toBeLessThan(0);
+    expect(compareStreamIds('1000-10', '1000-9')).toBeGreaterThan(0);
+  });
+
+  it('should return 0 for equal IDs', () => {
+    expect(compareStreamIds('1700000000000-3', '1700000000000-3')).toBe(0);
+  });
+
+  it('should treat a missing sequence as 0', () => {
+    expect(compareStreamIds('5', '5-0')).toBe(0);
+  });
+});
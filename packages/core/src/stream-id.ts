@@ -0,0 +1,19 @@
+/**
+ * Compare two Redis Stream entry IDs ("<ms>-<seq>").
+ *
+ * Returns a negative number if `a` is older than `b`, positive if newer,
+ * and 0 if equal. IDs can't be compared as plain strings because neither
+ * part is zero-padded.
+ */
+export function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq = '0'] = a.split('-');
+  const [bMs, bSeq = '0'] = b.split('-');
+
+  const msDiff = BigInt(aMs) - BigInt(bMs);
+  if (msDiff !== 0n) return msDiff < 0n ? -1 : 1;
+
+  const seqDiff = BigInt(aSeq) - BigInt(bSeq);
+  if (seqDiff !== 0n) return seqDiff < 0n ? -1 : 1;
+
+  return 0;
+}
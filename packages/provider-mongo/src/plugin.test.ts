@@ -6,6 +6,8 @@ const mockClientInstance = {
   inc: vi.fn().mockResolvedValue(undefined),
   dec: vi.fn().mockResolvedValue(undefined),
   add: vi.fn().mockResolvedValue(undefined),
+  getPending: vi.fn().mockResolvedValue(0),
+  getPendingBatch: vi.fn().mockResolvedValue(new Map()),
   close: vi.fn().mockResolvedValue(undefined),
 };
 
@@ -20,15 +22,21 @@ vi.mock('@counter-bridge/sdk', () => {
 });
 
 import { counterPlugin } from './plugin';
+import type { CounterPluginOptions } from './plugin';
 import { setup, getClient, shutdown } from './setup';
 
 /**
  * Create a minimal document-like object that has the methods
  * added by counterPlugin.
  */
-function createPluginDoc(fields: string[], scopePrefix: string, docId: string) {
+function createPluginDoc(
+  fields: string[],
+  scopePrefix: string,
+  docId: string,
+  options: Partial<CounterPluginOptions> = {}
+) {
   const schema = new Schema({});
-  counterPlugin(schema, { fields, scopePrefix });
+  counterPlugin(schema, { fields, scopePrefix, ...options });
 
   // Extract the methods registered on the schema
   const methods = (schema as any).methods;
@@ -69,6 +77,22 @@ describe('plugin write methods', () => {
     expect(mockClientInstance.inc).toHaveBeenCalledWith('v1:post:123:likes', undefined);
   });
 
+  it('escapes ":" in document IDs', async () => {
+    const doc = createPluginDoc(['likes'], 'post', 'tenant:42');
+
+    await doc.inc('likes');
+
+    expect(mockClientInstance.inc).toHaveBeenCalledWith('v1:post:tenant%3A42:likes', undefined);
+  });
+
+  it('builds unescaped scopes with legacyScopes', async () => {
+    const doc = createPluginDoc(['likes'], 'v1:post', 'tenant:42', { legacyScopes: true });
+
+    await doc.inc('likes');
+
+    expect(mockClientInstance.inc).toHaveBeenCalledWith('v1:v1:post:tenant:42:likes', undefined);
+  });
+
   it('dec() calls client.dec with correct scope', async () => {
     const doc = createPluginDoc(['likes', 'views'], 'post', '456');
 
@@ -115,6 +139,47 @@ describe('plugin write methods', () => {
   });
 });
 
+describe('plugin consistent reads', () => {
+  const provider = {
+    flush: vi.fn(),
+    get: vi.fn().mockResolvedValue(10),
+    getBatch: vi.fn().mockResolvedValue(new Map([['v1:post:1:likes', 10], ['v1:post:1:views', 7]])),
+  };
+
+  beforeEach(async () => {
+    await shutdown();
+    mockClientInstance.getPending.mockClear();
+    mockClientInstance.getPendingBatch.mockClear();
+    setup({ redisUrl: 'redis://localhost:6379', trackPending: true });
+  });
+
+  afterEach(async () => {
+    await shutdown();
+  });
+
+  it('getCounter() adds the pending delta', async () => {
+    mockClientInstance.getPending.mockResolvedValueOnce(2);
+    const doc = createPluginDoc(['likes'], 'post', '1', { provider, consistentReads: true });
+
+    expect(await doc.getCounter('likes')).toBe(12);
+    expect(mockClientInstance.getPending).toHaveBeenCalledWith('v1:post:1:likes');
+  });
+
+  it('getCounters() adds pending deltas per field', async () => {
+    mockClientInstance.getPendingBatch.mockResolvedValueOnce(new Map([['v1:post:1:views', 3]]));
+    const doc = createPluginDoc(['likes', 'views'], 'post', '1', { provider, consistentReads: true });
+
+    expect(await doc.getCounters()).toEqual({ likes: 10, views: 10 });
+  });
+
+  it('reads only the provider by default', async () => {
+    const doc = createPluginDoc(['likes'], 'post', '1', { provider });
+
+    expect(await doc.getCounter('likes')).toBe(10);
+    expect(mockClientInstance.getPending).not.toHaveBeenCalled();
+  });
+});
+
 describe('setup singleton', () => {
   afterEach(async () => {
     await shutdown();
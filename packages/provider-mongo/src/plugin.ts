@@ -1,4 +1,5 @@
 import { Schema } from 'mongoose';
+import { buildScope } from '@counter-bridge/types';
 import type { ICounterProvider, ScopeMetadata } from '@counter-bridge/types';
 import { MongoProvider } from './provider';
 import { getClient } from './setup';
@@ -6,10 +7,24 @@ import { getClient } from './setup';
 export interface CounterPluginOptions {
   /** Counter fields to add (e.g., ['likes', 'views']). */
   fields: string[];
-  /** Scope prefix (e.g., 'v1:post'). Defaults to model name. */
+  /** Model segment of the scope (e.g., 'post'). Defaults to the lowercased model name. */
   scopePrefix?: string;
+  /**
+   * Build scopes as releases before `buildScope` did:
+   * `v1:{scopePrefix}:{id}:{field}`, with nothing escaped and the prefix
+   * taken as is (so `'v1:post'` gave `v1:v1:post:...`). Keeps counters
+   * stored under that format readable. Default: false.
+   */
+  legacyScopes?: boolean;
   /** Default provider instance. If omitted, creates a new MongoProvider(). */
   provider?: ICounterProvider;
+  /**
+   * Add each scope's not-yet-persisted adds to values read through the
+   * plugin, so a user sees their own writes immediately. Requires
+   * `setup({ trackPending: true })`. A read landing between the consumer's
+   * provider write and its release counts that delta twice. Default: false.
+   */
+  consistentReads?: boolean;
 }
 
 /**
@@ -25,15 +40,36 @@ export interface CounterPluginOptions {
  * ```
  */
 export function counterPlugin(schema: Schema, options: CounterPluginOptions): void {
-  const { fields, scopePrefix, provider: defaultProvider } = options;
+  const { fields, scopePrefix, provider: defaultProvider, consistentReads = false, legacyScopes = false } = options;
   const fieldSet = new Set(fields);
 
   const getProvider = (override?: ICounterProvider): ICounterProvider =>
     override ?? defaultProvider ?? new MongoProvider();
 
+  /** Read stored values, plus pending deltas when `consistentReads` is on. */
+  const readValues = async (p: ICounterProvider, scopes: string[]): Promise<Map<string, number>> => {
+    let values: Map<string, number>;
+    if (p.getBatch) {
+      values = await p.getBatch(scopes);
+    } else {
+      const entries = await Promise.all(
+        scopes.map(async (s) => [s, await p.get(s)] as const)
+      );
+      values = new Map(entries);
+    }
+
+    if (consistentReads) {
+      for (const [scope, delta] of await getClient().getPendingBatch(scopes)) {
+        values.set(scope, (values.get(scope) ?? 0) + delta);
+      }
+    }
+    return values;
+  };
+
   /**
    * Build the scope string for a counter field on this document.
-   * Format: "v1:{model}:{id}:{field}"
+   * Format: "v1:{model}:{id}:{field}" (see `buildScope`), or unescaped
+   * with `legacyScopes`
    */
   schema.methods.counterScope = function (field: string): string {
     if (!fieldSet.has(field)) {
@@ -42,7 +78,8 @@ export function counterPlugin(schema: Schema, options: CounterPluginOptions): vo
       );
     }
     const prefix = scopePrefix ?? (this.constructor as any).modelName?.toLowerCase() ?? 'unknown';
-    return `v1:${prefix}:${this._id}:${field}`;
+    if (legacyScopes) return `v1:${prefix}:${this._id}:${field}`;
+    return buildScope({ model: prefix, id: String(this._id), field });
   };
 
   /**
@@ -76,7 +113,15 @@ export function counterPlugin(schema: Schema, options: CounterPluginOptions): vo
     field: string,
     provider?: ICounterProvider
   ): Promise<number> {
-    return getProvider(provider).get(this.counterScope(field));
+    const scope = this.counterScope(field);
+    if (!consistentReads) {
+      return getProvider(provider).get(scope);
+    }
+    const [value, pending] = await Promise.all([
+      getProvider(provider).get(scope),
+      getClient().getPending(scope),
+    ]);
+    return value + pending;
   };
 
   /**
@@ -85,18 +130,8 @@ export function counterPlugin(schema: Schema, options: CounterPluginOptions): vo
   schema.methods.getCounters = async function (
     provider?: ICounterProvider
   ): Promise<Record<string, number>> {
-    const p = getProvider(provider);
     const scopes = fields.map((f) => this.counterScope(f));
-
-    let values: Map<string, number>;
-    if (p.getBatch) {
-      values = await p.getBatch(scopes);
-    } else {
-      const entries = await Promise.all(
-        scopes.map(async (s) => [s, await p.get(s)] as const)
-      );
-      values = new Map(entries);
-    }
+    const values = await readValues(getProvider(provider), scopes);
 
     const result: Record<string, number> = {};
     for (const field of fields) {
@@ -117,7 +152,6 @@ export function counterPlugin(schema: Schema, options: CounterPluginOptions): vo
     if (docs.length === 0) return [];
 
     const fieldsToFetch = counterFields ?? fields;
-    const p = getProvider(provider);
 
     // Collect all scopes
     const allScopes: string[] = [];
@@ -127,15 +161,7 @@ export function counterPlugin(schema: Schema, options: CounterPluginOptions): vo
       }
     }
 
-    let values: Map<string, number>;
-    if (p.getBatch) {
-      values = await p.getBatch(allScopes);
-    } else {
-      const entries = await Promise.all(
-        allScopes.map(async (s) => [s, await p.get(s)] as const)
-      );
-      values = new Map(entries);
-    }
+    const values = await readValues(getProvider(provider), allScopes);
 
     return docs.map((doc) => {
       const counters: Record<string, number> = {};
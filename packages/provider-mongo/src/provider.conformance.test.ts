@@ -0,0 +1,37 @@
+import * as vitest from 'vitest';
+import mongoose from 'mongoose';
+import { describeProviderConformance } from '@counter-bridge/testing';
+import { MongoProvider } from './provider';
+
+/**
+ * Runs against a real deployment when MONGODB_URL is set, e.g.
+ *
+ *   docker run -d -p 27017:27017 mongo:7
+ *   MONGODB_URL=mongodb://localhost:27017/counter_bridge_test npm test
+ */
+const url = process.env.MONGODB_URL;
+
+let connection: mongoose.Connection | undefined;
+let created = 0;
+const collections = new WeakMap<MongoProvider, string>();
+
+vitest.afterAll(async () => {
+  await connection?.close();
+});
+
+describeProviderConformance({ ...vitest, describe: vitest.describe.skipIf(!url) }, 'MongoProvider', {
+  create: async () => {
+    connection ??= await mongoose.createConnection(url!).asPromise();
+    const collectionName = `conformance_${Date.now()}_${++created}`;
+    const provider = new MongoProvider({ connection, collectionName });
+    collections.set(provider, collectionName);
+    return provider;
+  },
+  destroy: async (provider) => {
+    await connection!.dropCollection(collections.get(provider)!);
+  },
+  // A validator rejecting the scope makes its upsert a write error in the bulk write
+  failScope: async (provider, scope) => {
+    await connection!.db!.command({ collMod: collections.get(provider)!, validator: { scope: { $ne: scope } } });
+  },
+});
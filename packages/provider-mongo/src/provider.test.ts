@@ -1,8 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { context, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
 import { MongoProvider } from './provider';
 
 // ─── Mock Mongoose Model ─────────────────────────────────────────────────────
 
+const mockPing = vi.fn().mockResolvedValue({ ok: 1 });
+
 const mockModel = {
   bulkWrite: vi.fn().mockResolvedValue({ modifiedCount: 0 }),
   findOne: vi.fn().mockReturnValue({
@@ -17,6 +22,10 @@ const mockModel = {
   }),
   deleteOne: vi.fn().mockResolvedValue({ deletedCount: 1 }),
   ensureIndexes: vi.fn().mockResolvedValue(undefined),
+  db: {
+    readyState: 1,
+    db: { admin: () => ({ ping: mockPing }) },
+  },
 };
 
 vi.mock('./schema', () => ({
@@ -78,6 +87,65 @@ describe('MongoProvider', () => {
       expect(ops[0].updateOne.update.$set).toBeUndefined();
     });
 
+    it('should translate set/max/min updates into $set/$max/$min', async () => {
+      const batch = new Map([['set', 0], ['max', 0], ['min', 0], ['add', 2]]);
+      const updates = new Map([
+        ['set', { delta: 0, floor: 5, ceiling: 5 }],
+        ['max', { delta: 0, floor: 7 }],
+        ['min', { delta: 0, ceiling: 3 }],
+      ]);
+
+      await provider.flush(batch, { updates });
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      expect(ops[0].updateOne.update).toEqual({ $set: { value: 5 }, $setOnInsert: { scope: 'set' } });
+      expect(ops[1].updateOne.update).toEqual({ $max: { value: 7 }, $setOnInsert: { scope: 'max' } });
+      expect(ops[2].updateOne.update).toEqual({ $min: { value: 3 }, $setOnInsert: { scope: 'min' } });
+      expect(ops[3].updateOne.update).toEqual({ $inc: { value: 2 }, $setOnInsert: { scope: 'add' } });
+    });
+
+    it('should use a pipeline update when adds are mixed with bounds', async () => {
+      const batch = new Map([['a', 2]]);
+      const updates = new Map([['a', { delta: 2, floor: 0, ceiling: 10 }]]);
+
+      await provider.flush(batch, { updates });
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      const [stage] = ops[0].updateOne.update;
+      expect(stage.$set.value).toEqual({
+        $min: [{ $max: [{ $add: [{ $ifNull: ['$value', 0] }, 2] }, 0] }, 10],
+      });
+      expect(stage.$set.scope).toBe('a');
+    });
+
+    it('should store the watermark alongside a $set update', async () => {
+      const batch = new Map([['a', 0]]);
+      await provider.flush(batch, {
+        watermarks: new Map([['a', '5-0']]),
+        updates: new Map([['a', { delta: 0, floor: 1, ceiling: 1 }]]),
+      });
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      expect(ops[0].updateOne.update.$set).toEqual({ value: 1, appliedId: expect.any(String) });
+    });
+
+    it('should $set the latest metadata on upsert', async () => {
+      const metadata = { model: 'post', tenantId: 'acme', tags: { plan: '$pro' } };
+      await provider.flush(new Map([['a', 1], ['b', 2], ['c', 3]]), {
+        metadata: new Map([['a', metadata], ['c', metadata]]),
+        updates: new Map([['c', { delta: 3, ceiling: 10 }]]),
+      });
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      expect(ops[0].updateOne.update).toEqual({
+        $inc: { value: 1 },
+        $set: { metadata },
+        $setOnInsert: { scope: 'a' },
+      });
+      expect(ops[1].updateOne.update.$set).toBeUndefined();
+      expect(ops[2].updateOne.update[0].$set.metadata).toEqual({ $literal: metadata });
+    });
+
     it('should propagate total bulkWrite errors', async () => {
       mockModel.bulkWrite.mockRejectedValueOnce(new Error('Write failed'));
       const batch = new Map([['x', 1]]);
@@ -117,6 +185,173 @@ describe('MongoProvider', () => {
     });
   });
 
+  describe('flush with watermarks', () => {
+    it('should guard each upsert on the stored appliedId', async () => {
+      const batch = new Map([['a', 3]]);
+      await provider.flush(batch, { watermarks: new Map([['a', '1700000000000-12']]) });
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      const appliedId = '00000001700000000000-00000000000000000012';
+      expect(ops[0].updateOne.filter).toEqual({
+        scope: 'a',
+        $or: [{ appliedId: { $exists: false } }, { appliedId: { $lt: appliedId } }],
+      });
+      expect(ops[0].updateOne.update.$inc).toEqual({ value: 3 });
+      expect(ops[0].updateOne.update.$set).toEqual({ appliedId });
+      expect(ops[0].updateOne.upsert).toBe(true);
+    });
+
+    it('should use a plain $inc for scopes without a watermark', async () => {
+      await provider.flush(new Map([['a', 1]]), { watermarks: new Map() });
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      expect(ops[0].updateOne.filter).toEqual({ scope: 'a' });
+      expect(ops[0].updateOne.update.$set).toBeUndefined();
+    });
+
+    it('should report duplicate-key errors on guarded scopes as skipped', async () => {
+      const dupError: any = new Error('E11000 duplicate key');
+      dupError.name = 'MongoBulkWriteError';
+      dupError.result = {
+        getWriteErrors: () => [{ index: 0, code: 11000 }, { index: 1, code: 11000 }],
+      };
+      mockModel.bulkWrite.mockRejectedValueOnce(dupError);
+
+      const batch = new Map([['a', 1], ['b', 2]]);
+      const result = await provider.flush(batch, {
+        watermarks: new Map([['a', '5-0'], ['b', '6-0']]),
+      });
+
+      expect(result!.failed).toBeUndefined();
+      expect(result!.skipped!.get('a')).toBe(1);
+      expect(result!.skipped!.get('b')).toBe(2);
+    });
+
+    it('should still report other errors as failed alongside skipped scopes', async () => {
+      const mixedError: any = new Error('Mixed');
+      mixedError.name = 'MongoBulkWriteError';
+      mixedError.result = {
+        getWriteErrors: () => [{ index: 0, code: 11000 }, { index: 1, code: 121 }],
+      };
+      mockModel.bulkWrite.mockRejectedValueOnce(mixedError);
+
+      const batch = new Map([['a', 1], ['b', 2]]);
+      const result = await provider.flush(batch, {
+        watermarks: new Map([['a', '5-0'], ['b', '6-0']]),
+      });
+
+      expect(result!.skipped!.get('a')).toBe(1);
+      expect(result!.failed!.get('b')).toBe(2);
+    });
+  });
+
+  describe('tracing', () => {
+    const exporter = new InMemorySpanExporter();
+
+    beforeAll(() => {
+      context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+      trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+    });
+
+    afterAll(() => {
+      trace.disable();
+      context.disable();
+    });
+
+    it('should flush in a child span recording scope counts', async () => {
+      mockModel.bulkWrite.mockRejectedValueOnce(Object.assign(new Error('partial'), {
+        name: 'MongoBulkWriteError',
+        result: { getWriteErrors: () => [{ index: 1, code: 121 }] },
+      }));
+
+      await trace.getTracer('test').startActiveSpan('counter-bridge flush', async (parent) => {
+        await provider.flush(new Map([['a', 1], ['b', 2], ['c', 3]]));
+        parent.end();
+      });
+
+      const [span, parent] = exporter.getFinishedSpans();
+      expect(span.name).toBe('MongoProvider.flush');
+      expect(span.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+      expect(span.attributes).toMatchObject({
+        'db.system': 'mongodb',
+        'counter_bridge.scope_count': 3,
+        'counter_bridge.failed_scopes': 1,
+        'counter_bridge.skipped_scopes': 0,
+      });
+    });
+  });
+
+  describe('time buckets', () => {
+    const HOUR = 3_600_000;
+
+    it('should tag bucket rows and set their expiry on insert', async () => {
+      const key = `post:1:views#hour#${10 * HOUR}`;
+      await provider.flush(new Map([[key, 3], ['post:1:views', 3]]));
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      expect(ops[0].updateOne.update).toEqual({
+        $inc: { value: 3 },
+        $setOnInsert: {
+          scope: key,
+          bucketOf: 'post:1:views',
+          granularity: 'hour',
+          bucketStart: new Date(10 * HOUR),
+          expiresAt: new Date(11 * HOUR + 30 * 24 * HOUR),
+        },
+      });
+      expect(ops[1].updateOne.update.$setOnInsert).toEqual({ scope: 'post:1:views' });
+    });
+
+    it('should keep bucket rows forever when retention is 0', async () => {
+      const forever = new MongoProvider({ retention: { day: 0 } });
+      await forever.flush(new Map([['post:1:views#day#0', 1]]));
+
+      const [ops] = mockModel.bulkWrite.mock.calls[0];
+      expect(ops[0].updateOne.update.$setOnInsert.expiresAt).toBeUndefined();
+    });
+
+    it('should return a zero-filled series for the range', async () => {
+      mockModel.find.mockReturnValueOnce({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue([{ bucketStart: new Date(HOUR), value: 7 }]),
+        }),
+      });
+
+      const series = await provider.getSeries('post:1:views', new Date(30 * 60_000), new Date(3 * HOUR), 'hour');
+
+      expect(mockModel.find).toHaveBeenCalledWith({
+        bucketOf: 'post:1:views',
+        granularity: 'hour',
+        bucketStart: { $gte: new Date(0), $lt: new Date(3 * HOUR) },
+      });
+      expect(series).toEqual([
+        { start: new Date(0), value: 0 },
+        { start: new Date(HOUR), value: 7 },
+        { start: new Date(2 * HOUR), value: 0 },
+      ]);
+    });
+  });
+
+  describe('getWatermarks', () => {
+    it('should decode stored appliedIds back to stream IDs', async () => {
+      mockModel.find.mockReturnValueOnce({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue([
+            { scope: 'a', appliedId: '00000001700000000000-00000000000000000012' },
+          ]),
+        }),
+      });
+
+      const result = await provider.getWatermarks(['a', 'b']);
+      expect(mockModel.find).toHaveBeenCalledWith({
+        scope: { $in: ['a', 'b'] },
+        appliedId: { $exists: true },
+      });
+      expect(result.get('a')).toBe('1700000000000-12');
+      expect(result.has('b')).toBe(false);
+    });
+  });
+
   describe('get', () => {
     it('should return 0 when scope does not exist', async () => {
       const value = await provider.get('nonexistent');
@@ -160,6 +395,25 @@ describe('MongoProvider', () => {
     });
   });
 
+  describe('findByMetadata', () => {
+    it('should match every given field, excluding bucket rows', async () => {
+      const lean = vi.fn().mockResolvedValue([{ scope: 'v1:post:1:likes', value: 4 }]);
+      const limit = vi.fn().mockReturnValue({ lean });
+      mockModel.find.mockReturnValueOnce({ select: vi.fn().mockReturnValue({ limit, lean }) });
+
+      const result = await provider.findByMetadata({ model: 'post', tenantId: 'acme', tags: { plan: 'pro' } }, { limit: 10 });
+
+      expect(mockModel.find).toHaveBeenCalledWith({
+        bucketOf: { $exists: false },
+        'metadata.model': 'post',
+        'metadata.tenantId': 'acme',
+        'metadata.tags.plan': 'pro',
+      });
+      expect(limit).toHaveBeenCalledWith(10);
+      expect(result).toEqual(new Map([['v1:post:1:likes', 4]]));
+    });
+  });
+
   describe('delete', () => {
     it('should delete a scope', async () => {
       await provider.delete('post:1:likes');
@@ -167,6 +421,23 @@ describe('MongoProvider', () => {
     });
   });
 
+  describe('healthCheck', () => {
+    it('should ping the connection', async () => {
+      await provider.healthCheck();
+      expect(mockPing).toHaveBeenCalledOnce();
+    });
+
+    it('should fail without pinging while disconnected', async () => {
+      mockModel.db.readyState = 0;
+      try {
+        await expect(provider.healthCheck()).rejects.toThrow('MongoDB is not connected');
+        expect(mockPing).not.toHaveBeenCalled();
+      } finally {
+        mockModel.db.readyState = 1;
+      }
+    });
+  });
+
   describe('initialize', () => {
     it('should call ensureIndexes', async () => {
       await provider.initialize();
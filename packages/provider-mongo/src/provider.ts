@@ -1,65 +1,226 @@
 import mongoose, { Model } from 'mongoose';
-import type { ICounterProvider, FlushResult } from '@counter-bridge/types';
+import { bucketRange, bucketStart, getTracing, parseBucketKey, GRANULARITY_MS } from '@counter-bridge/types';
+import type {
+  ICounterProvider,
+  CounterOp,
+  CounterUpdate,
+  FlushResult,
+  FlushContext,
+  Granularity,
+  ScopeMetadata,
+  SeriesPoint,
+} from '@counter-bridge/types';
 import { ICounterDocument, getCounterModel } from './schema';
 
+const DUPLICATE_KEY_ERROR = 11000;
+const STREAM_ID_PART_WIDTH = 20;
+const DEFAULT_RETENTION_MS: Record<Granularity, number> = {
+  minute: GRANULARITY_MS.day,
+  hour: 30 * GRANULARITY_MS.day,
+  day: 365 * GRANULARITY_MS.day,
+};
+
+/**
+ * Encode a stream entry ID ("<ms>-<seq>") so that string order matches
+ * stream order, letting MongoDB compare watermarks with `$lt`.
+ */
+function encodeStreamId(id: string): string {
+  const [ms, seq = '0'] = id.split('-');
+  return `${ms.padStart(STREAM_ID_PART_WIDTH, '0')}-${seq.padStart(STREAM_ID_PART_WIDTH, '0')}`;
+}
+
+function decodeStreamId(encoded: string): string {
+  const [ms, seq] = encoded.split('-');
+  return `${BigInt(ms)}-${BigInt(seq)}`;
+}
+
+/**
+ * Update for one scope's folded delta or update: $inc for adds, $set,
+ * $max or $min when a single operator captures it, and otherwise an
+ * aggregation pipeline computing `min(max(value + delta, floor), ceiling)`.
+ * `appliedId` is set alongside in idempotent mode.
+ */
+function buildUpdate(
+  scope: string,
+  delta: number,
+  update: CounterUpdate | undefined,
+  appliedId: string | undefined,
+  onInsert: Record<string, unknown>,
+  metadata?: ScopeMetadata
+): Record<string, any> | Record<string, any>[] {
+  const { floor, ceiling } = update ?? {};
+  const applied = appliedId === undefined ? {} : { appliedId };
+
+  let operator: Record<string, Record<string, unknown>>;
+  if (floor === undefined && ceiling === undefined) {
+    operator = { $inc: { value: delta } };
+  } else if (floor !== undefined && floor === ceiling) {
+    operator = { $set: { value: floor } };
+  } else if (delta === 0 && ceiling === undefined) {
+    operator = { $max: { value: floor } };
+  } else if (delta === 0 && floor === undefined) {
+    operator = { $min: { value: ceiling } };
+  } else {
+    // Adds mixed with max/min in one window: no single operator expresses it
+    let value: unknown = { $add: [{ $ifNull: ['$value', 0] }, delta] };
+    if (floor !== undefined) value = { $max: [value, floor] };
+    if (ceiling !== undefined) value = { $min: [value, ceiling] };
+    // Pipelines skip $setOnInsert and schema createdAt, so set both here.
+    // $literal keeps "$"-prefixed metadata values from being read as paths.
+    return [{
+      $set: {
+        scope,
+        value,
+        createdAt: { $ifNull: ['$createdAt', '$$NOW'] },
+        ...onInsert,
+        ...applied,
+        ...(metadata ? { metadata: { $literal: metadata } } : {}),
+      },
+    }];
+  }
+
+  const set = { ...operator.$set, ...applied, ...(metadata ? { metadata } : {}) };
+  return {
+    ...operator,
+    ...(Object.keys(set).length > 0 ? { $set: set } : {}),
+    $setOnInsert: { scope, ...onInsert },
+  };
+}
+
 export interface MongoProviderConfig {
   /** Existing Mongoose connection. If omitted, uses the default connection. */
   connection?: mongoose.Connection;
   /** Collection name for counter documents. Default: "counters". */
   collectionName?: string;
+  /**
+   * How long (ms) time-bucket rows are kept after their bucket ends, per
+   * granularity. 0 keeps them forever.
+   * Default: minute 1 day, hour 30 days, day 365 days.
+   */
+  retention?: Partial<Record<Granularity, number>>;
 }
 
 /**
  * MongoDB persistence provider for CounterBridge.
  *
  * Uses Mongoose's `bulkWrite` with `$inc` to efficiently flush
- * aggregated deltas in a single round-trip. Handles partial failures
- * by inspecting BulkWriteError results.
+ * aggregated deltas in a single round-trip, and `$set`/`$max`/`$min` for
+ * scopes updated with those ops. Handles partial failures by inspecting
+ * BulkWriteError results.
+ *
+ * Metadata in the flush context replaces a document's `metadata` field,
+ * so counters can be queried by model, tenant or tag (`findByMetadata`).
+ *
+ * Time-bucket rows (keys from `bucketKey`) live in the same collection,
+ * tagged with their scope, granularity and start for `getSeries`, and
+ * expire through a TTL index on `expiresAt`.
+ *
+ * When the flush context carries stream watermarks (idempotent mode), each
+ * upsert only matches a document whose stored `appliedId` is older than the
+ * batch's watermark. A replayed scope then fails the match, the upsert hits
+ * the unique `scope` index, and the duplicate-key error is reported as
+ * skipped rather than failed.
  */
 export class MongoProvider implements ICounterProvider {
+  readonly operations: readonly CounterOp[] = ['add', 'set', 'max', 'min'];
   private model: Model<ICounterDocument>;
+  private retention: Record<Granularity, number>;
 
   constructor(config: MongoProviderConfig = {}) {
     this.model = getCounterModel(config.connection, config.collectionName);
+    this.retention = { ...DEFAULT_RETENTION_MS, ...config.retention };
   }
 
   /**
    * Flush aggregated deltas to MongoDB using a single bulkWrite.
-   * Each scope becomes an upsert operation with $inc.
+   * Each scope becomes an upsert operation, with $inc unless the flush
+   * context carries a set/max/min update for it.
    *
    * On partial failure, returns a FlushResult with only the failed scopes
    * so the core retries them instead of the entire batch.
+   *
+   * Runs in a client span, a child of the bridge's flush span, recording
+   * the scope, failed and skipped counts.
    */
-  async flush(batch: Map<string, number>): Promise<FlushResult | void> {
+  async flush(batch: Map<string, number>, context?: FlushContext): Promise<FlushResult | void> {
     if (batch.size === 0) return;
 
+    return getTracing().withSpan('MongoProvider.flush', {
+      kind: 'client',
+      attributes: {
+        'db.system': 'mongodb',
+        'db.operation.name': 'bulkWrite',
+        'db.collection.name': this.model.collection?.collectionName ?? 'unknown',
+        'counter_bridge.scope_count': batch.size,
+      },
+    }, async (span) => {
+      const result = await this.bulkWrite(batch, context);
+      span.setAttributes({
+        'counter_bridge.failed_scopes': result?.failed?.size ?? 0,
+        'counter_bridge.skipped_scopes': result?.skipped?.size ?? 0,
+      });
+      return result;
+    });
+  }
+
+  private async bulkWrite(batch: Map<string, number>, context?: FlushContext): Promise<FlushResult | void> {
+
+    const watermarks = context?.watermarks;
     const scopes = Array.from(batch.keys());
-    const ops = Array.from(batch.entries()).map(([scope, delta]) => ({
-      updateOne: {
-        filter: { scope },
-        update: {
-          $inc: { value: delta },
-          $setOnInsert: { scope },
+    const ops = Array.from(batch.entries()).map(([scope, delta]) => {
+      const update = context?.updates?.get(scope);
+      const onInsert = this.bucketFields(scope);
+      const metadata = context?.metadata?.get(scope);
+      const watermark = watermarks?.get(scope);
+      if (watermark === undefined) {
+        return {
+          updateOne: {
+            filter: { scope },
+            update: buildUpdate(scope, delta, update, undefined, onInsert, metadata),
+            upsert: true,
+          },
+        };
+      }
+
+      const appliedId = encodeStreamId(watermark);
+      return {
+        updateOne: {
+          filter: {
+            scope,
+            $or: [{ appliedId: { $exists: false } }, { appliedId: { $lt: appliedId } }],
+          },
+          update: buildUpdate(scope, delta, update, appliedId, onInsert, metadata),
+          upsert: true,
         },
-        upsert: true,
-      },
-    }));
+      };
+    });
 
     try {
       await this.model.bulkWrite(ops, { ordered: false });
     } catch (err: any) {
       // BulkWriteError contains results for each op — some may have succeeded
       if (err.name === 'MongoBulkWriteError' && err.result) {
-        const writeErrors: { index: number }[] = err.result?.getWriteErrors?.() ?? err.writeErrors ?? [];
-        if (writeErrors.length > 0 && writeErrors.length < ops.length) {
-          // Partial failure: only retry the failed scopes
-          const failedIndexes = new Set(writeErrors.map((e) => e.index));
-          const failed = new Map<string, number>();
-          for (const idx of failedIndexes) {
-            const scope = scopes[idx];
+        const writeErrors: { index: number; code?: number }[] =
+          err.result?.getWriteErrors?.() ?? err.writeErrors ?? [];
+
+        const failed = new Map<string, number>();
+        const skipped = new Map<string, number>();
+        for (const { index, code } of writeErrors) {
+          const scope = scopes[index];
+          if (code === DUPLICATE_KEY_ERROR && watermarks?.has(scope)) {
+            // Watermark already at or past this batch — already applied
+            skipped.set(scope, batch.get(scope)!);
+          } else {
             failed.set(scope, batch.get(scope)!);
           }
-          return { failed };
+        }
+
+        if (writeErrors.length > 0 && failed.size < ops.length) {
+          // Partial failure: only retry the failed scopes
+          const result: FlushResult = {};
+          if (failed.size > 0) result.failed = failed;
+          if (skipped.size > 0) result.skipped = skipped;
+          return result;
         }
       }
       // Total failure or unknown error shape — rethrow for full retry
@@ -90,11 +251,88 @@ export class MongoProvider implements ICounterProvider {
     return result;
   }
 
+  /** Read a scope's bucket values in [from, to), zero-filling empty buckets. */
+  async getSeries(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]> {
+    const docs = await this.model
+      .find({
+        bucketOf: scope,
+        granularity,
+        bucketStart: { $gte: new Date(bucketStart(from.getTime(), granularity)), $lt: to },
+      })
+      .select('bucketStart value')
+      .lean();
+
+    const values = new Map(docs.map((doc) => [doc.bucketStart!.getTime(), doc.value]));
+    return bucketRange(from.getTime(), to.getTime(), granularity).map((start) => ({
+      start: new Date(start),
+      value: values.get(start) ?? 0,
+    }));
+  }
+
+  /** Read the applied stream watermark for each scope that has one. */
+  async getWatermarks(scopes: string[]): Promise<Map<string, string>> {
+    const docs = await this.model
+      .find({ scope: { $in: scopes }, appliedId: { $exists: true } })
+      .select('scope appliedId')
+      .lean();
+
+    const result = new Map<string, string>();
+    for (const doc of docs) {
+      result.set(doc.scope, decodeStreamId(doc.appliedId!));
+    }
+    return result;
+  }
+
+  /**
+   * Read the counters whose stored metadata matches every given field
+   * (model, tenant and each tag), keyed by scope. Bucket rows are excluded.
+   */
+  async findByMetadata(filter: ScopeMetadata, options: { limit?: number } = {}): Promise<Map<string, number>> {
+    const query: Record<string, unknown> = { bucketOf: { $exists: false } };
+    if (filter.model !== undefined) query['metadata.model'] = filter.model;
+    if (filter.tenantId !== undefined) query['metadata.tenantId'] = filter.tenantId;
+    for (const [tag, value] of Object.entries(filter.tags ?? {})) {
+      query[`metadata.tags.${tag}`] = value;
+    }
+
+    let cursor = this.model.find(query).select('scope value');
+    if (options.limit !== undefined) cursor = cursor.limit(options.limit);
+    const docs = await cursor.lean();
+    return new Map(docs.map((doc) => [doc.scope, doc.value]));
+  }
+
   /** Delete a counter scope entirely. */
   async delete(scope: string): Promise<void> {
     await this.model.deleteOne({ scope });
   }
 
+  /** Extra fields stored when a bucket row is first inserted. */
+  private bucketFields(key: string): Record<string, unknown> {
+    const bucket = parseBucketKey(key);
+    if (!bucket) return {};
+
+    const fields: Record<string, unknown> = {
+      bucketOf: bucket.scope,
+      granularity: bucket.granularity,
+      bucketStart: new Date(bucket.start),
+    };
+    const retention = this.retention[bucket.granularity];
+    if (retention > 0) {
+      fields.expiresAt = new Date(bucket.start + GRANULARITY_MS[bucket.granularity] + retention);
+    }
+    return fields;
+  }
+
+  /** Ping the deployment over the model's connection. */
+  async healthCheck(): Promise<void> {
+    const connection = this.model.db;
+    // Checked first: mongoose would buffer the ping until a reconnect
+    if (connection.readyState !== mongoose.ConnectionStates.connected || !connection.db) {
+      throw new Error('MongoDB is not connected');
+    }
+    await connection.db.admin().ping();
+  }
+
   async initialize(): Promise<void> {
     await this.model.ensureIndexes();
   }
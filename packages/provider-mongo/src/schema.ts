@@ -1,10 +1,22 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { ScopeMetadata } from '@counter-bridge/types';
 
 export interface ICounterDocument extends Document {
   scope: string;
   value: number;
   updatedAt: Date;
-  metadata?: Record<string, unknown>;
+  /** Latest `ScopeMetadata` sent with the scope's events. */
+  metadata?: ScopeMetadata;
+  /** Highest applied stream entry ID, in sortable form (idempotent mode only). */
+  appliedId?: string;
+  /** Bucket rows only: the scope this row is a time bucket of. */
+  bucketOf?: string;
+  /** Bucket rows only: bucket width. */
+  granularity?: string;
+  /** Bucket rows only: bucket start. */
+  bucketStart?: Date;
+  /** Bucket rows only: when the TTL monitor removes the row. */
+  expiresAt?: Date;
 }
 
 const counterSchema = new Schema<ICounterDocument>(
@@ -12,6 +24,11 @@ const counterSchema = new Schema<ICounterDocument>(
     scope: { type: String, required: true, unique: true, index: true },
     value: { type: Number, required: true, default: 0 },
     metadata: { type: Schema.Types.Mixed },
+    appliedId: { type: String },
+    bucketOf: { type: String },
+    granularity: { type: String },
+    bucketStart: { type: Date },
+    expiresAt: { type: Date },
   },
   {
     timestamps: true,
@@ -19,8 +36,13 @@ const counterSchema = new Schema<ICounterDocument>(
   }
 );
 
-// Compound index for efficient lookups by metadata fields
-counterSchema.index({ 'metadata.model': 1, 'metadata.entityId': 1 });
+// Lookups by tenant (optionally narrowed by model) and by model
+counterSchema.index({ 'metadata.tenantId': 1, 'metadata.model': 1 }, { sparse: true });
+counterSchema.index({ 'metadata.model': 1 }, { sparse: true });
+
+// Time-series range queries, and TTL-based retention of bucket rows
+counterSchema.index({ bucketOf: 1, granularity: 1, bucketStart: 1 }, { sparse: true });
+counterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0, sparse: true });
 
 export function getCounterModel(
   connection?: mongoose.Connection,
@@ -1,9 +1,17 @@
 import { CounterClient } from '@counter-bridge/sdk';
+import type { ClientAggregationConfig, ClientBatchingConfig } from '@counter-bridge/sdk';
+import type { NumericPolicy } from '@counter-bridge/types';
 
 export interface CounterBridgeSetupConfig {
   redisUrl: string;
   streamKey?: string;
+  partitions?: number;
   maxStreamLength?: number;
+  numericPolicy?: NumericPolicy;
+  trackPending?: boolean;
+  validateScopes?: boolean;
+  batching?: ClientBatchingConfig;
+  aggregation?: ClientAggregationConfig;
 }
 
 let client: CounterClient | null = null;
@@ -15,7 +23,13 @@ export function setup(config: CounterBridgeSetupConfig): void {
   client = new CounterClient({
     redis: config.redisUrl,
     streamKey: config.streamKey,
+    partitions: config.partitions,
     maxStreamLength: config.maxStreamLength,
+    numericPolicy: config.numericPolicy,
+    trackPending: config.trackPending,
+    validateScopes: config.validateScopes,
+    batching: config.batching,
+    aggregation: config.aggregation,
   });
 }
 
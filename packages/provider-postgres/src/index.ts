@@ -0,0 +1,2 @@
+export { PostgresProvider } from './provider';
+export type { PostgresProviderConfig } from './provider';
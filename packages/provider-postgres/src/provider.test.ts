@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Pool } from 'pg';
+import { PostgresProvider } from './provider';
+
+// ─── Mock Pool ───────────────────────────────────────────────────────────────
+
+const mockPool = {
+  query: vi.fn(),
+  end: vi.fn().mockResolvedValue(undefined),
+};
+
+/** Resolve an upsert as if every given scope was applied. */
+function applyAll(_sql: string, params: unknown[]) {
+  return Promise.resolve({ rows: (params[0] as string[]).map((scope) => ({ scope })) });
+}
+
+function rowError(code = '22003') {
+  return Object.assign(new Error('value out of range: overflow'), { code });
+}
+
+describe('PostgresProvider', () => {
+  let provider: PostgresProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPool.query.mockImplementation(applyAll);
+    provider = new PostgresProvider({ pool: mockPool as unknown as Pool });
+  });
+
+  describe('flush', () => {
+    it('should skip the query when batch is empty', async () => {
+      await provider.flush(new Map());
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+
+    it('should upsert the whole batch in one statement', async () => {
+      const result = await provider.flush(new Map([['post:1:likes', 5], ['post:2:views', -2]]));
+
+      expect(result).toBeUndefined();
+      expect(mockPool.query).toHaveBeenCalledOnce();
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO "counters" AS counters');
+      expect(sql).toContain('ON CONFLICT (scope) DO UPDATE SET');
+      expect(sql).toContain('value = counters.value + EXCLUDED.value');
+      expect(params.slice(0, 2)).toEqual([['post:1:likes', 'post:2:views'], [5, -2]]);
+      expect(params.slice(5)).toEqual([[null, null], [null, null], [null, null]]);
+    });
+
+    it('should tag bucket rows with their scope, granularity and start', async () => {
+      await provider.flush(new Map([['v1:post:1:views#hour#1760878800000', 1]]));
+
+      const [, params] = mockPool.query.mock.calls[0];
+      expect(params.slice(2, 5)).toEqual([['v1:post:1:views'], ['hour'], [new Date(1760878800000)]]);
+    });
+
+    it('should pass watermarks and metadata', async () => {
+      const metadata = { model: 'post', tenantId: 'acme' };
+      await provider.flush(new Map([['a', 1], ['b', 2]]), {
+        watermarks: new Map([['a', '1700000000000-12']]),
+        metadata: new Map([['b', metadata]]),
+      });
+
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('(counters.applied_ms, counters.applied_seq) < (EXCLUDED.applied_ms, EXCLUDED.applied_seq)');
+      expect(params.slice(5)).toEqual([['1700000000000', null], ['12', null], [null, JSON.stringify(metadata)]]);
+    });
+
+    it('should report scopes the upsert did not return as skipped', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ scope: 'b' }] });
+
+      const result = await provider.flush(new Map([['a', 1], ['b', 2]]), {
+        watermarks: new Map([['a', '5-0'], ['b', '6-0']]),
+      });
+
+      expect(result).toEqual({ skipped: new Map([['a', 1]]) });
+    });
+
+    it('should retry scope by scope after a row error and report only failing scopes', async () => {
+      mockPool.query
+        .mockRejectedValueOnce(rowError())
+        .mockImplementationOnce(applyAll)
+        .mockRejectedValueOnce(rowError())
+        .mockImplementationOnce(applyAll);
+
+      const result = await provider.flush(new Map([['a', 1], ['b', 1e308], ['c', 3]]));
+
+      expect(result).toEqual({ failed: new Map([['b', 1e308]]) });
+      expect(mockPool.query).toHaveBeenCalledTimes(4);
+      expect(mockPool.query.mock.calls[2][1][0]).toEqual(['b']);
+    });
+
+    it('should rethrow when every scope fails', async () => {
+      mockPool.query.mockRejectedValue(rowError());
+      await expect(provider.flush(new Map([['a', 1], ['b', 2]]))).rejects.toThrow('value out of range');
+      expect(mockPool.query).toHaveBeenCalledTimes(3);
+    });
+
+    it('should rethrow connection errors without retrying scopes', async () => {
+      mockPool.query.mockRejectedValueOnce(Object.assign(new Error('Connection terminated'), { code: '57P01' }));
+      await expect(provider.flush(new Map([['a', 1], ['b', 2]]))).rejects.toThrow('Connection terminated');
+      expect(mockPool.query).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('reads', () => {
+    it('should return 0 for a missing scope', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+      expect(await provider.get('missing')).toBe(0);
+    });
+
+    it('should read many scopes with = ANY and zero-fill missing ones', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ scope: 'a', value: 3 }] });
+
+      expect(await provider.getBatch(['a', 'b'])).toEqual(new Map([['a', 3], ['b', 0]]));
+      const [sql, params] = mockPool.query.mock.calls[0];
+      expect(sql).toContain('WHERE scope = ANY($1)');
+      expect(params).toEqual([['a', 'b']]);
+    });
+
+    it('should zero-fill a series', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ bucket_start: new Date(3_600_000), value: 4 }] });
+
+      const series = await provider.getSeries('v1:post:1:views', new Date(0), new Date(3 * 3_600_000), 'hour');
+
+      expect(series.map((point) => point.value)).toEqual([0, 4, 0]);
+      expect(mockPool.query.mock.calls[0][1]).toEqual(['v1:post:1:views', 'hour', new Date(0), new Date(3 * 3_600_000)]);
+    });
+
+    it('should read watermarks as stream IDs', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [{ scope: 'a', applied_ms: '1700000000000', applied_seq: '12' }] });
+      expect(await provider.getWatermarks(['a', 'b'])).toEqual(new Map([['a', '1700000000000-12']]));
+    });
+  });
+
+  it('should create the table and indexes under a quoted, schema-qualified name', async () => {
+    mockPool.query.mockResolvedValueOnce({ rows: [] });
+    const qualified = new PostgresProvider({ pool: mockPool as unknown as Pool, tableName: 'app.counters' });
+    await qualified.initialize();
+
+    const [sql] = mockPool.query.mock.calls[0];
+    expect(sql).toContain('CREATE TABLE IF NOT EXISTS "app"."counters"');
+    expect(sql).toContain('CREATE INDEX IF NOT EXISTS "counters_series_idx"');
+  });
+
+  it('should not end a pool it was given', async () => {
+    await provider.close();
+    expect(mockPool.end).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,284 @@
+import { Pool } from 'pg';
+import { bucketRange, bucketStart, getTracing, parseBucketKey } from '@counter-bridge/types';
+import type {
+  ICounterProvider,
+  CounterOp,
+  FlushResult,
+  FlushContext,
+  Granularity,
+  SeriesPoint,
+} from '@counter-bridge/types';
+
+/**
+ * SQLSTATE classes raised by the data of a single row (e.g. 22003,
+ * numeric value out of range). Any other error fails the whole batch.
+ */
+const ROW_ERROR_CLASSES = ['22', '23'];
+
+export interface PostgresProviderConfig {
+  /** Existing pool. The provider does not end it on close. */
+  pool?: Pool;
+  /**
+   * Connection string for a pool the provider creates and ends on close.
+   * Used when `pool` is omitted; if both are omitted the standard PG*
+   * environment variables apply.
+   */
+  connectionString?: string;
+  /** Table for counter rows, optionally schema-qualified. Default: "counters". */
+  tableName?: string;
+}
+
+/** Parameter arrays for one flush statement, one element per scope. */
+interface Rows {
+  scopes: string[];
+  values: number[];
+  bucketOf: (string | null)[];
+  granularities: (string | null)[];
+  bucketStarts: (Date | null)[];
+  appliedMs: (string | null)[];
+  appliedSeq: (string | null)[];
+  metadata: (string | null)[];
+}
+
+/**
+ * PostgreSQL persistence provider for CounterBridge.
+ *
+ * Flushes each batch with one multi-row upsert — the rows are passed as
+ * arrays and expanded with `unnest`, so the statement size doesn't grow
+ * with the batch — adding each delta to the stored value.
+ *
+ * A row-level error (e.g. a value out of range) aborts the whole
+ * statement, so the batch is then replayed one scope at a time and only
+ * the scopes that fail again are reported as failed.
+ *
+ * Time-bucket rows (keys from `bucketKey`) live in the same table,
+ * tagged with their scope, granularity and start for `getSeries`. They
+ * are kept until deleted.
+ *
+ * When the flush context carries stream watermarks (idempotent mode), the
+ * update only applies to a row whose stored watermark is older than the
+ * batch's; scopes the upsert didn't return were already applied and are
+ * reported as skipped.
+ *
+ * Supports adds only: set, max and min events are rejected by the bridge.
+ */
+export class PostgresProvider implements ICounterProvider {
+  readonly operations: readonly CounterOp[] = ['add'];
+  private readonly pool: Pool;
+  private readonly ownsPool: boolean;
+  private readonly table: string;
+  private readonly tableName: string;
+
+  constructor(config: PostgresProviderConfig = {}) {
+    this.ownsPool = !config.pool;
+    this.pool = config.pool ?? new Pool({ connectionString: config.connectionString });
+    this.tableName = config.tableName ?? 'counters';
+    this.table = quoteIdentifier(this.tableName);
+  }
+
+  /**
+   * Flush aggregated deltas in one upsert.
+   *
+   * On partial failure, returns a FlushResult with only the failed scopes
+   * so the core retries them instead of the entire batch.
+   *
+   * Runs in a client span, a child of the bridge's flush span, recording
+   * the scope, failed and skipped counts.
+   */
+  async flush(batch: Map<string, number>, context?: FlushContext): Promise<FlushResult | void> {
+    if (batch.size === 0) return;
+
+    return getTracing().withSpan('PostgresProvider.flush', {
+      kind: 'client',
+      attributes: {
+        'db.system': 'postgresql',
+        'db.operation.name': 'INSERT',
+        'db.collection.name': this.tableName,
+        'counter_bridge.scope_count': batch.size,
+      },
+    }, async (span) => {
+      const result = await this.upsertBatch(batch, context);
+      span.setAttributes({
+        'counter_bridge.failed_scopes': result?.failed?.size ?? 0,
+        'counter_bridge.skipped_scopes': result?.skipped?.size ?? 0,
+      });
+      return result;
+    });
+  }
+
+  private async upsertBatch(batch: Map<string, number>, context?: FlushContext): Promise<FlushResult | void> {
+    const scopes = Array.from(batch.keys());
+    let applied: Set<string>;
+    const failed = new Map<string, number>();
+
+    try {
+      applied = await this.upsert(scopes, batch, context);
+    } catch (err) {
+      if (!isRowError(err) || scopes.length === 1) throw err;
+
+      // Find the scopes that can't be applied; the rest go through
+      applied = new Set();
+      for (const scope of scopes) {
+        try {
+          for (const done of await this.upsert([scope], batch, context)) applied.add(done);
+        } catch (rowErr) {
+          if (!isRowError(rowErr)) throw rowErr;
+          failed.set(scope, batch.get(scope)!);
+        }
+      }
+      // Total failure — rethrow for full retry
+      if (failed.size === scopes.length) throw err;
+    }
+
+    const skipped = new Map<string, number>();
+    for (const scope of scopes) {
+      if (!applied.has(scope) && !failed.has(scope)) skipped.set(scope, batch.get(scope)!);
+    }
+
+    const result: FlushResult = {};
+    if (failed.size > 0) result.failed = failed;
+    if (skipped.size > 0) result.skipped = skipped;
+    return result.failed || result.skipped ? result : undefined;
+  }
+
+  /** Upsert the given scopes; resolves with the scopes that were applied. */
+  private async upsert(scopes: string[], batch: Map<string, number>, context?: FlushContext): Promise<Set<string>> {
+    const rows: Rows = {
+      scopes, values: [], bucketOf: [], granularities: [], bucketStarts: [], appliedMs: [], appliedSeq: [], metadata: [],
+    };
+    for (const scope of scopes) {
+      const bucket = parseBucketKey(scope);
+      const [ms, seq] = context?.watermarks?.get(scope)?.split('-') ?? [];
+      const metadata = context?.metadata?.get(scope);
+      rows.values.push(batch.get(scope)!);
+      rows.bucketOf.push(bucket?.scope ?? null);
+      rows.granularities.push(bucket?.granularity ?? null);
+      rows.bucketStarts.push(bucket ? new Date(bucket.start) : null);
+      rows.appliedMs.push(ms ?? null);
+      rows.appliedSeq.push(ms === undefined ? null : seq ?? '0');
+      rows.metadata.push(metadata ? JSON.stringify(metadata) : null);
+    }
+
+    const { rows: returned } = await this.pool.query<{ scope: string }>(
+      `INSERT INTO ${this.table} AS counters
+         (scope, value, bucket_of, granularity, bucket_start, applied_ms, applied_seq, metadata)
+       SELECT * FROM unnest(
+         $1::text[], $2::float8[], $3::text[], $4::text[], $5::timestamptz[], $6::bigint[], $7::bigint[], $8::jsonb[]
+       )
+       ON CONFLICT (scope) DO UPDATE SET
+         value = counters.value + EXCLUDED.value,
+         applied_ms = COALESCE(EXCLUDED.applied_ms, counters.applied_ms),
+         applied_seq = COALESCE(EXCLUDED.applied_seq, counters.applied_seq),
+         metadata = COALESCE(EXCLUDED.metadata, counters.metadata),
+         updated_at = now()
+       WHERE EXCLUDED.applied_ms IS NULL
+         OR counters.applied_ms IS NULL
+         OR (counters.applied_ms, counters.applied_seq) < (EXCLUDED.applied_ms, EXCLUDED.applied_seq)
+       RETURNING scope`,
+      [
+        rows.scopes, rows.values, rows.bucketOf, rows.granularities,
+        rows.bucketStarts, rows.appliedMs, rows.appliedSeq, rows.metadata,
+      ]
+    );
+    return new Set(returned.map((row) => row.scope));
+  }
+
+  /** Retrieve the current value for a single scope. */
+  async get(scope: string): Promise<number> {
+    const { rows } = await this.pool.query<{ value: number }>(
+      `SELECT value FROM ${this.table} WHERE scope = $1`,
+      [scope]
+    );
+    return rows[0]?.value ?? 0;
+  }
+
+  /** Batch-read multiple scopes in one query. */
+  async getBatch(scopes: string[]): Promise<Map<string, number>> {
+    const { rows } = await this.pool.query<{ scope: string; value: number }>(
+      `SELECT scope, value FROM ${this.table} WHERE scope = ANY($1)`,
+      [scopes]
+    );
+
+    const result = new Map<string, number>();
+    for (const scope of scopes) {
+      result.set(scope, 0);
+    }
+    for (const row of rows) {
+      result.set(row.scope, row.value);
+    }
+    return result;
+  }
+
+  /** Read a scope's bucket values in [from, to), zero-filling empty buckets. */
+  async getSeries(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]> {
+    const { rows } = await this.pool.query<{ bucket_start: Date; value: number }>(
+      `SELECT bucket_start, value FROM ${this.table}
+       WHERE bucket_of = $1 AND granularity = $2 AND bucket_start >= $3 AND bucket_start < $4`,
+      [scope, granularity, new Date(bucketStart(from.getTime(), granularity)), to]
+    );
+
+    const values = new Map(rows.map((row) => [row.bucket_start.getTime(), row.value]));
+    return bucketRange(from.getTime(), to.getTime(), granularity).map((start) => ({
+      start: new Date(start),
+      value: values.get(start) ?? 0,
+    }));
+  }
+
+  /** Read the applied stream watermark for each scope that has one. */
+  async getWatermarks(scopes: string[]): Promise<Map<string, string>> {
+    const { rows } = await this.pool.query<{ scope: string; applied_ms: string; applied_seq: string }>(
+      `SELECT scope, applied_ms, applied_seq FROM ${this.table}
+       WHERE scope = ANY($1) AND applied_ms IS NOT NULL`,
+      [scopes]
+    );
+    return new Map(rows.map((row) => [row.scope, `${row.applied_ms}-${row.applied_seq}`]));
+  }
+
+  /** Delete a counter scope entirely. */
+  async delete(scope: string): Promise<void> {
+    await this.pool.query(`DELETE FROM ${this.table} WHERE scope = $1`, [scope]);
+  }
+
+  /** Run a trivial query over the pool. */
+  async healthCheck(): Promise<void> {
+    await this.pool.query('SELECT 1');
+  }
+
+  /** Create the counters table and its indexes if they don't exist. */
+  async initialize(): Promise<void> {
+    const name = this.tableName.split('.').pop()!;
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        scope text PRIMARY KEY,
+        value double precision NOT NULL DEFAULT 0,
+        bucket_of text,
+        granularity text,
+        bucket_start timestamptz,
+        applied_ms bigint,
+        applied_seq bigint,
+        metadata jsonb,
+        created_at timestamptz NOT NULL DEFAULT now(),
+        updated_at timestamptz NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${name}_series_idx`)}
+        ON ${this.table} (bucket_of, granularity, bucket_start) WHERE bucket_of IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${name}_metadata_idx`)}
+        ON ${this.table} ((metadata->>'tenantId'), (metadata->>'model')) WHERE metadata IS NOT NULL;
+    `);
+  }
+
+  async close(): Promise<void> {
+    // A pool passed in belongs to the caller
+    if (this.ownsPool) await this.pool.end();
+  }
+}
+
+/** Quote a possibly schema-qualified identifier, e.g. `app.counters` → `"app"."counters"`. */
+function quoteIdentifier(name: string): string {
+  return name.split('.').map((part) => `"${part.replace(/"/g, '""')}"`).join('.');
+}
+
+function isRowError(err: unknown): boolean {
+  const code = (err as { code?: unknown })?.code;
+  return typeof code === 'string' && ROW_ERROR_CLASSES.includes(code.slice(0, 2));
+}
@@ -0,0 +1,2 @@
+export { SqliteProvider } from './provider';
+export type { SqliteProviderConfig } from './provider';
@@ -0,0 +1,25 @@
+import * as vitest from 'vitest';
+import Database from 'better-sqlite3';
+import { describeProviderConformance } from '@counter-bridge/testing';
+import { SqliteProvider } from './provider';
+
+const databases = new WeakMap<SqliteProvider, Database.Database>();
+let triggers = 0;
+
+describeProviderConformance(vitest, 'SqliteProvider', {
+  create: () => {
+    const database = new Database(':memory:');
+    const provider = new SqliteProvider({ database });
+    databases.set(provider, database);
+    return provider;
+  },
+  destroy: async (provider) => {
+    await provider.close();
+    databases.get(provider)!.close();
+  },
+  // Trigger bodies can't take bound parameters, so quote the scope as a literal
+  failScope: (provider, scope) => {
+    databases.get(provider)!.exec(`CREATE TRIGGER reject_${++triggers} BEFORE INSERT ON counters
+      WHEN NEW.scope = '${scope.replace(/'/g, "''")}' BEGIN SELECT RAISE(ABORT, 'rejected'); END`);
+  },
+});
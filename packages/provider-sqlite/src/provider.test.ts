@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { bucketKey } from '@counter-bridge/types';
+import { SqliteProvider } from './provider';
+
+describe('SqliteProvider', () => {
+  let db: Database.Database;
+  let provider: SqliteProvider;
+
+  beforeEach(async () => {
+    db = new Database(':memory:');
+    provider = new SqliteProvider({ database: db });
+    await provider.initialize();
+  });
+
+  afterEach(async () => {
+    await provider.close();
+    db.close();
+  });
+
+  describe('initialize', () => {
+    it('should apply each migration once', async () => {
+      await provider.initialize();
+
+      const versions = db.prepare('SELECT version FROM counters_migrations').all();
+      expect(versions).toEqual([{ version: 1 }]);
+    });
+
+    it('should migrate a custom table alongside others', async () => {
+      const other = new SqliteProvider({ database: db, tableName: 'tenant "a" counters' });
+      await other.initialize();
+      await other.flush(new Map([['a', 1]]));
+
+      expect(await other.get('a')).toBe(1);
+      expect(await provider.get('a')).toBe(0);
+    });
+  });
+
+  describe('flush', () => {
+    it('should insert and then add to counters', async () => {
+      expect(await provider.flush(new Map([['a', 5], ['b', -2]]))).toBeUndefined();
+      await provider.flush(new Map([['a', 3]]));
+
+      expect(await provider.get('a')).toBe(8);
+      expect(await provider.get('b')).toBe(-2);
+    });
+
+    it('should apply set, max and min updates', async () => {
+      await provider.flush(new Map([['set', 4], ['max', 4], ['min', 4], ['mixed', 4]]));
+
+      await provider.flush(new Map([['set', 0], ['max', 0], ['min', 0], ['mixed', 3], ['fresh', 0]]), {
+        updates: new Map([
+          ['set', { delta: 0, floor: 10, ceiling: 10 }],
+          ['max', { delta: 0, floor: 2 }],
+          ['min', { delta: 0, ceiling: 1 }],
+          ['mixed', { delta: 3, floor: 0, ceiling: 5 }],
+          ['fresh', { delta: 0, floor: 7 }],
+        ]),
+      });
+
+      expect(await provider.getBatch(['set', 'max', 'min', 'mixed', 'fresh'])).toEqual(new Map([
+        ['set', 10], ['max', 4], ['min', 1], ['mixed', 5], ['fresh', 7],
+      ]));
+    });
+
+    it('should skip scopes already applied at or past the watermark', async () => {
+      await provider.flush(new Map([['a', 1]]), { watermarks: new Map([['a', '100-5']]) });
+
+      const replay = await provider.flush(new Map([['a', 1], ['b', 1]]), {
+        watermarks: new Map([['a', '100-5'], ['b', '100-6']]),
+      });
+      expect(replay).toEqual({ skipped: new Map([['a', 1]]) });
+
+      await provider.flush(new Map([['a', 2]]), { watermarks: new Map([['a', '100-10']]) });
+      await provider.flush(new Map([['a', 1]]));
+
+      expect(await provider.get('a')).toBe(4);
+      expect(await provider.getWatermarks(['a', 'b', 'c'])).toEqual(new Map([['a', '100-10'], ['b', '100-6']]));
+    });
+
+    it('should report only the scopes that fail and commit the rest', async () => {
+      db.exec(`CREATE TRIGGER reject_bad BEFORE INSERT ON counters WHEN NEW.scope = 'bad'
+        BEGIN SELECT RAISE(ABORT, 'rejected'); END`);
+
+      const result = await provider.flush(new Map([['a', 1], ['bad', 2], ['c', 3]]));
+
+      expect(result).toEqual({ failed: new Map([['bad', 2]]) });
+      expect(await provider.getBatch(['a', 'bad', 'c'])).toEqual(new Map([['a', 1], ['bad', 0], ['c', 3]]));
+    });
+
+    it('should throw when every scope fails', async () => {
+      db.exec(`CREATE TRIGGER reject_all BEFORE INSERT ON counters BEGIN SELECT RAISE(ABORT, 'rejected'); END`);
+      await expect(provider.flush(new Map([['a', 1], ['b', 2]]))).rejects.toThrow('rejected');
+    });
+
+    it('should keep the latest metadata', async () => {
+      await provider.flush(new Map([['a', 1]]), { metadata: new Map([['a', { tenantId: 'acme' }]]) });
+      await provider.flush(new Map([['a', 1]]));
+
+      const row = db.prepare(`SELECT metadata FROM counters WHERE scope = 'a'`).get() as { metadata: string };
+      expect(JSON.parse(row.metadata)).toEqual({ tenantId: 'acme' });
+    });
+  });
+
+  describe('reads', () => {
+    it('should zero-fill missing scopes', async () => {
+      await provider.flush(new Map([['a', 3]]));
+
+      expect(await provider.get('missing')).toBe(0);
+      expect(await provider.getBatch(['a', 'b'])).toEqual(new Map([['a', 3], ['b', 0]]));
+    });
+
+    it('should read bucket rows as a series', async () => {
+      const hour = 3_600_000;
+      await provider.flush(new Map([
+        [bucketKey('views', 'hour', hour), 4],
+        [bucketKey('views', 'hour', 2 * hour), 1],
+        [bucketKey('views', 'day', 0), 5],
+      ]));
+
+      const series = await provider.getSeries('views', new Date(0), new Date(3 * hour), 'hour');
+      expect(series).toEqual([
+        { start: new Date(0), value: 0 },
+        { start: new Date(hour), value: 4 },
+        { start: new Date(2 * hour), value: 1 },
+      ]);
+    });
+  });
+
+  it('should delete a scope', async () => {
+    await provider.flush(new Map([['a', 1]]));
+    await provider.delete('a');
+    expect(await provider.get('a')).toBe(0);
+  });
+
+  it('should fail the health check once the database is closed', async () => {
+    await expect(provider.healthCheck()).resolves.toBeUndefined();
+    db.close();
+    await expect(provider.healthCheck()).rejects.toThrow('SQLite database is not open');
+    db = new Database(':memory:');
+  });
+
+  it('should leave a database it was given open', async () => {
+    await provider.close();
+    expect(db.open).toBe(true);
+  });
+});
@@ -0,0 +1,300 @@
+import Database from 'better-sqlite3';
+import { bucketRange, bucketStart, getTracing, parseBucketKey } from '@counter-bridge/types';
+import type {
+  ICounterProvider,
+  CounterOp,
+  FlushResult,
+  FlushContext,
+  Granularity,
+  SeriesPoint,
+} from '@counter-bridge/types';
+
+/**
+ * Schema migrations, applied in order by `initialize` and recorded in the
+ * `<table>_migrations` table. Append new steps; never edit applied ones.
+ */
+const MIGRATIONS: ((table: string, name: string) => string)[] = [
+  (table, name) => `
+    CREATE TABLE ${table} (
+      scope TEXT PRIMARY KEY,
+      value REAL NOT NULL DEFAULT 0,
+      bucket_of TEXT,
+      granularity TEXT,
+      bucket_start INTEGER,
+      applied_ms INTEGER,
+      applied_seq INTEGER,
+      metadata TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX ${quoteIdentifier(`${name}_series_idx`)}
+      ON ${table} (bucket_of, granularity, bucket_start) WHERE bucket_of IS NOT NULL;
+  `,
+];
+
+/** An unbounded side of `min(max(value + delta, floor), ceiling)`. */
+const UNBOUNDED = '9e999';
+
+export interface SqliteProviderConfig {
+  /** Existing better-sqlite3 database. The provider does not close it. */
+  database?: Database.Database;
+  /**
+   * Database file the provider opens, in WAL mode, when `database` is
+   * omitted, and closes on close. Default: "counter-bridge.db"
+   */
+  filename?: string;
+  /** Table for counter rows. Default: "counters" */
+  tableName?: string;
+}
+
+interface UpsertParams {
+  scope: string;
+  delta: number;
+  floor: number | null;
+  ceiling: number | null;
+  bucketOf: string | null;
+  granularity: string | null;
+  bucketStart: number | null;
+  appliedMs: bigint | null;
+  appliedSeq: bigint | null;
+  metadata: string | null;
+  now: number;
+}
+
+/**
+ * Embedded SQLite persistence provider for CounterBridge — a
+ * zero-infrastructure option for single-node services and local
+ * development.
+ *
+ * Each batch is flushed in one transaction of per-scope upserts computing
+ * `min(max(value + delta, floor), ceiling)`, so set, max and min are
+ * supported alongside adds. Every upsert runs in its own savepoint: a
+ * scope that fails is rolled back and reported as failed while the rest
+ * of the batch commits.
+ *
+ * Time-bucket rows (keys from `bucketKey`) live in the same table,
+ * tagged with their scope, granularity and start for `getSeries`. They
+ * are kept until deleted.
+ *
+ * When the flush context carries stream watermarks (idempotent mode), an
+ * upsert only updates a row whose stored watermark is older than the
+ * batch's; scopes it leaves alone are reported as skipped.
+ *
+ * better-sqlite3 is synchronous, so queries block the event loop while
+ * they run; they are short for the batch sizes the bridge flushes.
+ */
+export class SqliteProvider implements ICounterProvider {
+  readonly operations: readonly CounterOp[] = ['add', 'set', 'max', 'min'];
+  private readonly db: Database.Database;
+  private readonly ownsDatabase: boolean;
+  private readonly table: string;
+  private readonly tableName: string;
+  private readonly statements = new Map<string, Database.Statement>();
+
+  constructor(config: SqliteProviderConfig = {}) {
+    this.ownsDatabase = !config.database;
+    if (config.database) {
+      this.db = config.database;
+    } else {
+      this.db = new Database(config.filename ?? 'counter-bridge.db');
+      this.db.pragma('journal_mode = WAL');
+    }
+    this.tableName = config.tableName ?? 'counters';
+    this.table = quoteIdentifier(this.tableName);
+  }
+
+  /**
+   * Flush aggregated deltas in a single transaction.
+   *
+   * On partial failure, returns a FlushResult with only the failed scopes
+   * so the core retries them instead of the entire batch.
+   *
+   * Runs in a client span, a child of the bridge's flush span, recording
+   * the scope, failed and skipped counts.
+   */
+  async flush(batch: Map<string, number>, context?: FlushContext): Promise<FlushResult | void> {
+    if (batch.size === 0) return;
+
+    return getTracing().withSpan('SqliteProvider.flush', {
+      kind: 'client',
+      attributes: {
+        'db.system': 'sqlite',
+        'db.operation.name': 'INSERT',
+        'db.collection.name': this.tableName,
+        'counter_bridge.scope_count': batch.size,
+      },
+    }, async (span) => {
+      const result = this.upsertBatch(batch, context);
+      span.setAttributes({
+        'counter_bridge.failed_scopes': result?.failed?.size ?? 0,
+        'counter_bridge.skipped_scopes': result?.skipped?.size ?? 0,
+      });
+      return result;
+    });
+  }
+
+  private upsertBatch(batch: Map<string, number>, context?: FlushContext): FlushResult | void {
+    const upsert = this.statement<[UpsertParams], { scope: string }>(`
+      INSERT INTO ${this.table} AS counters
+        (scope, value, bucket_of, granularity, bucket_start, applied_ms, applied_seq, metadata, created_at, updated_at)
+      VALUES (
+        @scope, min(max(@delta, coalesce(@floor, -${UNBOUNDED})), coalesce(@ceiling, ${UNBOUNDED})),
+        @bucketOf, @granularity, @bucketStart, @appliedMs, @appliedSeq, @metadata, @now, @now
+      )
+      ON CONFLICT (scope) DO UPDATE SET
+        value = min(max(counters.value + @delta, coalesce(@floor, -${UNBOUNDED})), coalesce(@ceiling, ${UNBOUNDED})),
+        applied_ms = coalesce(excluded.applied_ms, counters.applied_ms),
+        applied_seq = coalesce(excluded.applied_seq, counters.applied_seq),
+        metadata = coalesce(excluded.metadata, counters.metadata),
+        updated_at = excluded.updated_at
+      WHERE excluded.applied_ms IS NULL
+        OR counters.applied_ms IS NULL
+        OR (counters.applied_ms, counters.applied_seq) < (excluded.applied_ms, excluded.applied_seq)
+      RETURNING scope
+    `);
+    // Nested in the batch transaction, each upsert runs in a savepoint
+    const upsertOne = this.db.transaction((params: UpsertParams) => upsert.get(params));
+
+    const failed = new Map<string, number>();
+    const skipped = new Map<string, number>();
+    let firstError: unknown;
+    const now = Date.now();
+
+    this.db.transaction(() => {
+      for (const [scope, delta] of batch) {
+        const update = context?.updates?.get(scope);
+        const bucket = parseBucketKey(scope);
+        const [ms, seq = '0'] = context?.watermarks?.get(scope)?.split('-') ?? [];
+        const metadata = context?.metadata?.get(scope);
+        try {
+          const applied = upsertOne({
+            scope,
+            delta,
+            floor: update?.floor ?? null,
+            ceiling: update?.ceiling ?? null,
+            bucketOf: bucket?.scope ?? null,
+            granularity: bucket?.granularity ?? null,
+            bucketStart: bucket?.start ?? null,
+            appliedMs: ms === undefined ? null : BigInt(ms),
+            appliedSeq: ms === undefined ? null : BigInt(seq),
+            metadata: metadata ? JSON.stringify(metadata) : null,
+            now,
+          });
+          if (!applied) skipped.set(scope, delta);
+        } catch (err) {
+          firstError ??= err;
+          failed.set(scope, delta);
+        }
+      }
+      // Total failure — rethrow for full retry
+      if (failed.size === batch.size) throw firstError;
+    })();
+
+    const result: FlushResult = {};
+    if (failed.size > 0) result.failed = failed;
+    if (skipped.size > 0) result.skipped = skipped;
+    return result.failed || result.skipped ? result : undefined;
+  }
+
+  /** Retrieve the current value for a single scope. */
+  async get(scope: string): Promise<number> {
+    const row = this.statement<[string], { value: number }>(
+      `SELECT value FROM ${this.table} WHERE scope = ?`
+    ).get(scope);
+    return row?.value ?? 0;
+  }
+
+  /** Batch-read multiple scopes in one query. */
+  async getBatch(scopes: string[]): Promise<Map<string, number>> {
+    // A JSON array parameter sidesteps SQLite's bound-variable limit
+    const rows = this.statement<[string], { scope: string; value: number }>(
+      `SELECT scope, value FROM ${this.table} WHERE scope IN (SELECT value FROM json_each(?))`
+    ).all(JSON.stringify(scopes));
+
+    const result = new Map<string, number>();
+    for (const scope of scopes) {
+      result.set(scope, 0);
+    }
+    for (const row of rows) {
+      result.set(row.scope, row.value);
+    }
+    return result;
+  }
+
+  /** Read a scope's bucket values in [from, to), zero-filling empty buckets. */
+  async getSeries(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]> {
+    const rows = this.statement<[string, string, number, number], { bucket_start: number; value: number }>(`
+      SELECT bucket_start, value FROM ${this.table}
+      WHERE bucket_of = ? AND granularity = ? AND bucket_start >= ? AND bucket_start < ?
+    `).all(scope, granularity, bucketStart(from.getTime(), granularity), to.getTime());
+
+    const values = new Map(rows.map((row) => [row.bucket_start, row.value]));
+    return bucketRange(from.getTime(), to.getTime(), granularity).map((start) => ({
+      start: new Date(start),
+      value: values.get(start) ?? 0,
+    }));
+  }
+
+  /** Read the applied stream watermark for each scope that has one. */
+  async getWatermarks(scopes: string[]): Promise<Map<string, string>> {
+    const rows = this.statement<[string], { scope: string; applied_ms: bigint; applied_seq: bigint }>(`
+      SELECT scope, applied_ms, applied_seq FROM ${this.table}
+      WHERE scope IN (SELECT value FROM json_each(?)) AND applied_ms IS NOT NULL
+    `).safeIntegers().all(JSON.stringify(scopes));
+    return new Map(rows.map((row) => [row.scope, `${row.applied_ms}-${row.applied_seq}`]));
+  }
+
+  /** Delete a counter scope entirely. */
+  async delete(scope: string): Promise<void> {
+    this.statement<[string]>(`DELETE FROM ${this.table} WHERE scope = ?`).run(scope);
+  }
+
+  /** Run a trivial query against the database. */
+  async healthCheck(): Promise<void> {
+    if (!this.db.open) {
+      throw new Error('SQLite database is not open');
+    }
+    this.db.prepare('SELECT 1').get();
+  }
+
+  /** Create the counters table, or bring it up to date, by applying pending migrations. */
+  async initialize(): Promise<void> {
+    const migrations = quoteIdentifier(`${this.tableName}_migrations`);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${migrations} (
+        version INTEGER PRIMARY KEY,
+        applied_at INTEGER NOT NULL
+      )
+    `);
+
+    this.db.transaction(() => {
+      const { version } = this.db.prepare(
+        `SELECT coalesce(max(version), 0) AS version FROM ${migrations}`
+      ).get() as { version: number };
+      for (let next = version + 1; next <= MIGRATIONS.length; next++) {
+        this.db.exec(MIGRATIONS[next - 1](this.table, this.tableName));
+        this.db.prepare(`INSERT INTO ${migrations} (version, applied_at) VALUES (?, ?)`).run(next, Date.now());
+      }
+    }).immediate();
+  }
+
+  async close(): Promise<void> {
+    this.statements.clear();
+    // A database passed in belongs to the caller
+    if (this.ownsDatabase && this.db.open) this.db.close();
+  }
+
+  /** A prepared statement, cached by its SQL. */
+  private statement<P extends unknown[], R = unknown>(sql: string): Database.Statement<P, R> {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.db.prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement as unknown as Database.Statement<P, R>;
+  }
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -1,9 +1,29 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { context, propagation, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { buildScope, parseScope, partitionOf, PENDING_DELTA_TTL_MS } from '@counter-bridge/types';
 import { CounterClient } from './client';
 
 function createMockRedis() {
+  const tx = {
+    xadd: vi.fn().mockReturnThis(),
+    hincrbyfloat: vi.fn().mockReturnThis(),
+    pexpire: vi.fn().mockReturnThis(),
+    exec: vi.fn().mockResolvedValue([[null, '1234567890-0'], [null, '1'], [null, 1]]),
+  };
+  const pipe = {
+    xadd: vi.fn().mockReturnThis(),
+    exec: vi.fn().mockImplementation(async () => pipe.xadd.mock.calls.map(() => [null, '1234567890-0'])),
+  };
   return {
     xadd: vi.fn().mockResolvedValue('1234567890-0'),
+    hmget: vi.fn().mockResolvedValue([]),
+    multi: vi.fn().mockReturnValue(tx),
+    tx,
+    pipeline: vi.fn().mockReturnValue(pipe),
+    pipe,
     quit: vi.fn().mockResolvedValue('OK'),
   };
 }
@@ -117,6 +137,442 @@ describe('CounterClient', () => {
     });
   });
 
+  describe('set / max / min', () => {
+    it('should write the op field for non-add operations', async () => {
+      await client.set('user:1:version', 7);
+      await client.max('user:1:highScore', 900);
+      await client.min('user:1:bestLap', 61.5);
+
+      const [set, max, min] = redis.xadd.mock.calls;
+      expect(set.slice(5, 9)).toEqual(['scope', 'user:1:version', 'delta', '7']);
+      expect(set.slice(-2)).toEqual(['op', 'set']);
+      expect(max.slice(-2)).toEqual(['op', 'max']);
+      expect(min[8]).toBe('61.5');
+      expect(min.slice(-2)).toEqual(['op', 'min']);
+    });
+
+    it('should not write an op field for adds', async () => {
+      await client.add('post:1:views', 5);
+      expect(redis.xadd.mock.calls[0]).not.toContain('op');
+    });
+
+    it('should apply the numeric policy to the value', async () => {
+      await expect(client.set('user:1:version', NaN)).rejects.toThrow('Invalid value for "user:1:version"');
+      expect(redis.xadd).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('partitions', () => {
+    it('should write each scope to its hashed partition stream', async () => {
+      const partitioned = new CounterClient({ redis: redis as any, partitions: 4 });
+      await partitioned.inc('post:1:likes');
+      await partitioned.inc('post:1:likes');
+
+      const expected = `counter-bridge:events:${partitionOf('post:1:likes', 4)}`;
+      expect(redis.xadd.mock.calls[0][0]).toBe(expected);
+      expect(redis.xadd.mock.calls[1][0]).toBe(expected);
+    });
+
+    it('should spread scopes across partitions', () => {
+      const used = new Set<number>();
+      for (let i = 0; i < 100; i++) {
+        const partition = partitionOf(`post:${i}:likes`, 4);
+        expect(partition).toBeGreaterThanOrEqual(0);
+        expect(partition).toBeLessThan(4);
+        used.add(partition);
+      }
+      expect(used.size).toBe(4);
+    });
+
+    it('should use the stream key itself with a single partition', async () => {
+      const single = new CounterClient({ redis: redis as any, partitions: 1 });
+      await single.inc('post:1:likes');
+      expect(redis.xadd.mock.calls[0][0]).toBe('counter-bridge:events');
+    });
+  });
+
+  describe('pending deltas', () => {
+    it('should count tracked adds in the pending hash in the same transaction', async () => {
+      const tracking = new CounterClient({ redis: redis as any, trackPending: true });
+      await tracking.add('post:1:likes', 3);
+
+      expect(redis.xadd).not.toHaveBeenCalled();
+      expect(redis.tx.xadd.mock.calls[0].slice(-2)).toEqual(['pending', '1']);
+      expect(redis.tx.hincrbyfloat).toHaveBeenCalledWith(
+        '{counter-bridge:events}:pending', 'post:1:likes', 3
+      );
+      expect(redis.tx.pexpire).toHaveBeenCalledWith('{counter-bridge:events}:pending', PENDING_DELTA_TTL_MS);
+    });
+
+    it('should not track set/max/min', async () => {
+      const tracking = new CounterClient({ redis: redis as any, trackPending: true });
+      await tracking.set('user:1:version', 7);
+
+      expect(redis.multi).not.toHaveBeenCalled();
+      expect(redis.xadd.mock.calls[0]).not.toContain('pending');
+    });
+
+    it('should throw when the transaction fails', async () => {
+      redis.tx.exec.mockResolvedValueOnce([[new Error('OOM'), null], [null, '1']]);
+      const tracking = new CounterClient({ redis: redis as any, trackPending: true });
+      await expect(tracking.inc('post:1:likes')).rejects.toThrow('OOM');
+    });
+
+    it('should read pending deltas from each partition hash', async () => {
+      const partitioned = new CounterClient({ redis: redis as any, partitions: 4 });
+      redis.hmget.mockImplementation(async (_key: string, ...scopes: string[]) =>
+        scopes.map((scope) => (scope === 'post:1:likes' ? '2' : null))
+      );
+
+      const pending = await partitioned.getPendingBatch(['post:1:likes', 'post:2:likes']);
+      expect(pending).toEqual(new Map([['post:1:likes', 2], ['post:2:likes', 0]]));
+      expect(redis.hmget).toHaveBeenCalledWith(
+        `{counter-bridge:events:${partitionOf('post:1:likes', 4)}}:pending`,
+        expect.anything(),
+      );
+      expect(await partitioned.getPending('post:1:likes')).toBe(2);
+    });
+  });
+
+  describe('numeric policy', () => {
+    it('should reject NaN, Infinity and out-of-range deltas by default', async () => {
+      await expect(client.add('x', NaN)).rejects.toThrow(RangeError);
+      await expect(client.add('x', Infinity)).rejects.toThrow('not finite');
+      await expect(client.add('x', 1e300)).rejects.toThrow('maximum absolute value');
+      expect(redis.xadd).not.toHaveBeenCalled();
+    });
+
+    it('should allow fractional deltas by default', async () => {
+      await client.add('x', 0.5);
+      expect(redis.xadd.mock.calls[0][8]).toBe('0.5');
+    });
+
+    it('should enforce integerOnly and maxAbsDelta', async () => {
+      const strictClient = new CounterClient({
+        redis: redis as any,
+        numericPolicy: { integerOnly: true, maxAbsDelta: 100 },
+      });
+
+      await expect(strictClient.add('x', 1.5)).rejects.toThrow('not an integer');
+      await expect(strictClient.add('x', -101)).rejects.toThrow('maximum absolute value of 100');
+      await strictClient.add('x', -100);
+      expect(redis.xadd).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('scopes', () => {
+    it('should build and parse structured scopes, escaping ":" in IDs', () => {
+      const scope = buildScope({ model: 'post', id: 'org:7/100%', field: 'likes' });
+      expect(scope).toBe('v1:post:org%3A7/100%25:likes');
+      expect(parseScope(scope)).toEqual({ version: 1, model: 'post', id: 'org:7/100%', field: 'likes' });
+      expect(parseScope('v2:user:42:score')).toEqual({ version: 2, model: 'user', id: '42', field: 'score' });
+    });
+
+    it('should reject invalid components and unparseable scopes', () => {
+      expect(() => buildScope({ model: 'a:b', id: '1', field: 'likes' })).toThrow(RangeError);
+      expect(() => buildScope({ model: 'post', id: '', field: 'likes' })).toThrow('Invalid scope id');
+      for (const scope of ['post:1:likes', 'v1:post:1', 'v1:post:1:likes:x', 'vx:post:1:likes', 'v1:post:%3B:likes', 'v1::1:likes']) {
+        expect(parseScope(scope)).toBeUndefined();
+      }
+    });
+
+    it('should only validate scopes when validateScopes is set', async () => {
+      await client.inc('anything goes');
+      const strictClient = new CounterClient({ redis: redis as any, validateScopes: true });
+
+      await expect(strictClient.inc('post:1:likes')).rejects.toThrow('Invalid scope "post:1:likes"');
+      await strictClient.inc('v1:post:1:likes');
+      expect(redis.xadd).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('tracing', () => {
+    const exporter = new InMemorySpanExporter();
+
+    beforeAll(() => {
+      context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+      propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+      trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+    });
+
+    afterAll(() => {
+      trace.disable();
+      propagation.disable();
+      context.disable();
+    });
+
+    it('should write the producer span context into the entry fields', async () => {
+      await trace.getTracer('test').startActiveSpan('POST /like', async (request) => {
+        await client.inc('post:1:likes');
+        request.end();
+      });
+
+      const [publish, request] = exporter.getFinishedSpans();
+      expect(publish.name).toBe('counter-bridge publish');
+      expect(publish.parentSpanContext?.spanId).toBe(request.spanContext().spanId);
+      expect(publish.attributes['messaging.destination.name']).toBe('counter-bridge:events');
+
+      const fields: string[] = redis.xadd.mock.calls[0];
+      const { traceId, spanId } = publish.spanContext();
+      expect(fields[fields.indexOf('traceparent') + 1]).toBe(`00-${traceId}-${spanId}-01`);
+    });
+
+    it('should record XADD failures on the span', async () => {
+      exporter.reset();
+      redis.xadd.mockRejectedValueOnce(new Error('READONLY'));
+
+      await expect(client.inc('post:1:likes')).rejects.toThrow('READONLY');
+      expect(exporter.getFinishedSpans()[0].status.message).toContain('READONLY');
+    });
+  });
+
+  describe('buffered mode', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should send queued events in one pipeline once maxMessages are queued', async () => {
+      const buffered = new CounterClient({ redis: redis as any, batching: { maxMessages: 3 } });
+
+      const writes = [buffered.inc('a'), buffered.add('b', 2)];
+      await Promise.resolve();
+      expect(redis.pipeline).not.toHaveBeenCalled();
+
+      writes.push(buffered.set('c', 7));
+      await Promise.all(writes);
+
+      expect(redis.xadd).not.toHaveBeenCalled();
+      expect(redis.pipeline).toHaveBeenCalledOnce();
+      expect(redis.pipe.xadd.mock.calls.map((args) => args[6])).toEqual(['a', 'b', 'c']);
+      expect(redis.pipe.exec).toHaveBeenCalledOnce();
+    });
+
+    it('should send a partial batch after maxWaitMs', async () => {
+      vi.useFakeTimers();
+      const buffered = new CounterClient({ redis: redis as any, batching: { maxWaitMs: 25 } });
+
+      const write = buffered.inc('a');
+      await vi.advanceTimersByTimeAsync(24);
+      expect(redis.pipe.exec).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      await write;
+      expect(redis.pipe.exec).toHaveBeenCalledOnce();
+    });
+
+    it('should send immediately on flush', async () => {
+      const buffered = new CounterClient({ redis: redis as any, batching: { maxWaitMs: 60_000 } });
+
+      const write = buffered.inc('a');
+      await Promise.resolve();
+      await buffered.flush();
+
+      await write;
+      expect(redis.pipe.exec).toHaveBeenCalledOnce();
+      await buffered.flush();
+      expect(redis.pipe.exec).toHaveBeenCalledOnce();
+    });
+
+    it('should drain the buffer on close and reject writes after it', async () => {
+      const buffered = new CounterClient({ redis: redis as any, batching: { maxWaitMs: 60_000 } });
+
+      const write = buffered.inc('a');
+      await Promise.resolve();
+      await buffered.close();
+
+      await write;
+      expect(redis.pipe.exec).toHaveBeenCalledOnce();
+      await expect(buffered.inc('a')).rejects.toThrow('CounterClient is closed');
+    });
+
+    it('should reject only the writes whose commands failed', async () => {
+      redis.pipe.exec.mockResolvedValueOnce([[null, '1-0'], [new Error('OOM'), null], [null, '1-1']]);
+      const buffered = new CounterClient({ redis: redis as any, batching: { maxMessages: 3 } });
+
+      const results = await Promise.allSettled([buffered.inc('a'), buffered.inc('b'), buffered.inc('c')]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe('OOM');
+    });
+
+    it('should reject every write in the batch when the pipeline fails', async () => {
+      redis.pipe.exec.mockRejectedValueOnce(new Error('Connection is closed.'));
+      const buffered = new CounterClient({ redis: redis as any, batching: { maxMessages: 2 } });
+
+      const results = await Promise.allSettled([buffered.inc('a'), buffered.inc('b')]);
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    });
+
+    it('should still throw on invalid input without queueing', async () => {
+      const buffered = new CounterClient({ redis: redis as any, batching: {} });
+
+      await expect(buffered.add('a', NaN)).rejects.toThrow();
+      await buffered.flush();
+      expect(redis.pipeline).not.toHaveBeenCalled();
+    });
+
+    it('should send batches with tracked adds as a transaction, matching replies per event', async () => {
+      redis.tx.exec.mockResolvedValueOnce([[null, '1-0'], [null, '3'], [null, '1-1'], [new Error('OOM'), null]]);
+      const buffered = new CounterClient({
+        redis: redis as any, trackPending: true, batching: { maxMessages: 3 },
+      });
+
+      const results = await Promise.allSettled([buffered.add('a', 3), buffered.set('b', 1), buffered.inc('c')]);
+
+      expect(redis.pipeline).not.toHaveBeenCalled();
+      expect(redis.multi).toHaveBeenCalledOnce();
+      expect(redis.tx.hincrbyfloat.mock.calls).toEqual([
+        ['{counter-bridge:events}:pending', 'a', 3],
+        ['{counter-bridge:events}:pending', 'c', 1],
+      ]);
+      expect(redis.tx.pexpire.mock.calls).toEqual([['{counter-bridge:events}:pending', PENDING_DELTA_TTL_MS]]);
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+    });
+  });
+
+  describe('pre-aggregation', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should fold each scope into one entry per window', async () => {
+      vi.useFakeTimers();
+      const aggregating = new CounterClient({ redis: redis as any, aggregation: { windowMs: 100 } });
+
+      const writes = [aggregating.inc('a'), aggregating.inc('a'), aggregating.add('b', 5), aggregating.inc('a')];
+      await vi.advanceTimersByTimeAsync(99);
+      expect(redis.pipeline).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      await Promise.all(writes);
+
+      expect(redis.xadd).not.toHaveBeenCalled();
+      expect(redis.pipe.xadd.mock.calls.map((args) => args.slice(6, 9))).toEqual([
+        ['a', 'delta', '3'],
+        ['b', 'delta', '5'],
+      ]);
+      expect(redis.pipe.exec).toHaveBeenCalledOnce();
+    });
+
+    it('should replay set/max/min folded with adds in order', async () => {
+      const aggregating = new CounterClient({ redis: redis as any, aggregation: {} });
+
+      const writes = [
+        aggregating.add('a', 2), aggregating.max('a', 10),
+        aggregating.add('b', 4), aggregating.set('b', 7), aggregating.inc('b'),
+      ];
+      await aggregating.flush();
+      await Promise.all(writes);
+
+      const entries = redis.pipe.xadd.mock.calls.map((args) => {
+        const op = args.indexOf('op');
+        return [args[6], op === -1 ? 'add' : args[op + 1], args[8]];
+      });
+      expect(entries).toEqual([['a', 'add', '2'], ['a', 'max', '10'], ['b', 'set', '8']]);
+    });
+
+    it('should keep the newest metadata for a scope', async () => {
+      const aggregating = new CounterClient({ redis: redis as any, aggregation: {} });
+
+      const writes = [aggregating.inc('a', { tenantId: 'old' }), aggregating.inc('a', { tenantId: 'new' })];
+      await aggregating.flush();
+      await Promise.all(writes);
+
+      const args = redis.pipe.xadd.mock.calls[0];
+      expect(args[args.indexOf('metadata') + 1]).toBe('{"tenantId":"new"}');
+    });
+
+    it('should not let a window span a minute boundary', async () => {
+      vi.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12, 0, 59, 950) });
+      const aggregating = new CounterClient({ redis: redis as any, aggregation: { windowMs: 100 } });
+
+      const first = aggregating.inc('a');
+      await vi.advanceTimersByTimeAsync(60);
+      const second = aggregating.inc('a');
+      await vi.advanceTimersByTimeAsync(100);
+      await Promise.all([first, second]);
+
+      const entries = redis.pipe.xadd.mock.calls.map((args) => [args[8], args[args.indexOf('timestamp') + 1]]);
+      expect(entries).toEqual([
+        ['1', String(Date.UTC(2026, 0, 1, 12, 0, 59, 950))],
+        ['1', String(Date.UTC(2026, 0, 1, 12, 1, 0, 10))],
+      ]);
+    });
+
+    it('should not write adds that net to zero', async () => {
+      const aggregating = new CounterClient({ redis: redis as any, aggregation: {} });
+
+      const writes = [aggregating.inc('a'), aggregating.dec('a'), aggregating.inc('b')];
+      await aggregating.flush();
+      await Promise.all(writes);
+
+      expect(redis.pipe.xadd.mock.calls.map((args) => args[6])).toEqual(['b']);
+    });
+
+    it('should write the window early once maxScopes is reached', async () => {
+      const aggregating = new CounterClient({
+        redis: redis as any, aggregation: { windowMs: 60_000, maxScopes: 2 },
+      });
+
+      await Promise.all([aggregating.inc('a'), aggregating.inc('a'), aggregating.inc('b')]);
+      expect(redis.pipe.xadd).toHaveBeenCalledTimes(2);
+    });
+
+    it('should write the open window on close and reject writes after it', async () => {
+      const aggregating = new CounterClient({ redis: redis as any, aggregation: { windowMs: 60_000 } });
+
+      const write = aggregating.inc('a');
+      await aggregating.close();
+
+      await write;
+      expect(redis.pipe.exec).toHaveBeenCalledOnce();
+      await expect(aggregating.inc('a')).rejects.toThrow('CounterClient is closed');
+    });
+
+    it('should reject only the writes folded into a failed entry', async () => {
+      redis.pipe.exec.mockResolvedValueOnce([[new Error('OOM'), null], [null, '1-0']]);
+      const aggregating = new CounterClient({ redis: redis as any, aggregation: {} });
+
+      const writes = Promise.allSettled([aggregating.inc('a'), aggregating.inc('a'), aggregating.inc('b')]);
+      await aggregating.flush();
+
+      expect((await writes).map((result) => result.status)).toEqual(['rejected', 'rejected', 'fulfilled']);
+    });
+
+    it('should split a folded delta that exceeds maxAbsDelta', async () => {
+      const aggregating = new CounterClient({
+        redis: redis as any, numericPolicy: { maxAbsDelta: 10 }, aggregation: {},
+      });
+
+      const writes = [
+        ...Array.from({ length: 25 }, () => aggregating.inc('a')),
+        aggregating.add('b', -8), aggregating.add('b', -8),
+      ];
+      await aggregating.flush();
+      await Promise.all(writes);
+
+      expect(redis.pipe.xadd.mock.calls.map((args) => args.slice(6, 9))).toEqual([
+        ['a', 'delta', '10'],
+        ['a', 'delta', '10'],
+        ['a', 'delta', '5'],
+        ['b', 'delta', '-10'],
+        ['b', 'delta', '-6'],
+      ]);
+    });
+
+    it('should count the folded delta as pending in the same transaction', async () => {
+      const aggregating = new CounterClient({ redis: redis as any, trackPending: true, aggregation: {} });
+
+      const writes = [aggregating.add('a', 2), aggregating.add('a', 3)];
+      await aggregating.flush();
+      await Promise.all(writes);
+
+      expect(redis.tx.xadd).toHaveBeenCalledOnce();
+      expect(redis.tx.xadd.mock.calls[0].slice(-2)).toEqual(['pending', '1']);
+      expect(redis.tx.hincrbyfloat).toHaveBeenCalledWith('{counter-bridge:events}:pending', 'a', 5);
+    });
+  });
+
   describe('close', () => {
     it('should not quit redis when connection was passed in', async () => {
       await client.close();
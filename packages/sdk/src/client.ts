@@ -1,16 +1,93 @@
 import Redis from 'ioredis';
-import type { ScopeMetadata } from '@counter-bridge/types';
+import { Aggregator, updateOps } from '@counter-bridge/core';
+import {
+  bucketStart, getTracing, pendingDeltaKey, PENDING_DELTA_TTL_MS, streamKeyFor, validateDelta, validateScope,
+} from '@counter-bridge/types';
+import type { CounterOp, ScopeMetadata, NumericPolicy } from '@counter-bridge/types';
 
 const DEFAULT_STREAM_KEY = 'counter-bridge:events';
 const DEFAULT_MAX_LEN = 100_000;
+const BATCHING_DEFAULTS: Required<ClientBatchingConfig> = {
+  maxWaitMs: 10,
+  maxMessages: 100,
+};
+const AGGREGATION_DEFAULTS: Required<ClientAggregationConfig> = {
+  windowMs: 500,
+  maxScopes: 10_000,
+};
+
+/** Buffered mode: when queued events are sent. */
+export interface ClientBatchingConfig {
+  /** Send the queue this long (ms) after the first event joins it. Default: 10 */
+  maxWaitMs?: number;
+  /** Send as soon as this many events are queued. Default: 100 */
+  maxMessages?: number;
+}
+
+/** Pre-aggregation: how long events are folded before being written. */
+export interface ClientAggregationConfig {
+  /** Write the window this long (ms) after its first event. Default: 500 */
+  windowMs?: number;
+  /** Write the window early once it holds this many scopes. Default: 10000 */
+  maxScopes?: number;
+}
+
+/** The writes folded into one scope of the open window, settled together. */
+interface WindowWaiter {
+  promise: Promise<void>;
+  resolve(): void;
+  reject(err: unknown): void;
+}
+
+/** An event waiting in the buffer, settled once the pipeline carrying it replies. */
+interface QueuedEvent {
+  /** XADD arguments */
+  args: string[];
+  /** Pending-delta hash increment, for a tracked add */
+  pending?: { key: string; scope: string; value: number };
+  resolve(): void;
+  reject(err: unknown): void;
+}
 
 export interface CounterClientConfig {
   /** Redis connection URL or ioredis instance. */
   redis: string | Redis;
   /** Stream key name. Default: "counter-bridge:events". */
   streamKey?: string;
+  /**
+   * Hash scopes onto this many partition streams ("<streamKey>:<n>").
+   * Default: 1 (every event goes to `streamKey` itself).
+   */
+  partitions?: number;
   /** Approximate max stream length for auto-trimming. Default: 100000. Set to 0 to disable. */
   maxStreamLength?: number;
+  /** Validation applied to every delta before XADD. Default: finite, within ±MAX_SAFE_INTEGER. */
+  numericPolicy?: NumericPolicy;
+  /**
+   * Also count adds in the stream's pending-delta hash until the consumer
+   * persists them, so `getPending` can serve read-your-writes reads. Each
+   * write renews the hash's `PENDING_DELTA_TTL_MS` expiry. Default: false.
+   */
+  trackPending?: boolean;
+  /**
+   * Reject scopes that aren't in the "v{version}:{model}:{id}:{field}"
+   * format (see `buildScope`). Default: false.
+   */
+  validateScopes?: boolean;
+  /**
+   * Buffered mode: queue events and send each batch in one pipeline (a
+   * MULTI when it holds tracked adds) instead of one round-trip per
+   * event. A write resolves once its batch is written, or rejects if its
+   * commands fail. Default: off (each write is its own XADD).
+   */
+  batching?: ClientBatchingConfig;
+  /**
+   * Pre-aggregation: fold events per scope in memory for a short window
+   * (as the consumer's aggregator does) and write one entry per scope per
+   * window. A write resolves once its scope's entry is written. Events
+   * still in the window are lost if the process dies. Default: off.
+   */
+  aggregation?: ClientAggregationConfig;
 }
 
 /**
@@ -22,14 +99,30 @@ export interface CounterClientConfig {
  * await counter.inc('v1:post:123:likes');
  * await counter.dec('v1:post:123:likes');
  * await counter.add('v1:post:123:views', 10);
+ * await counter.max('v1:user:42:highScore', 9001);
  * await counter.close();
  * ```
  */
 export class CounterClient {
   private redis: Redis;
   private streamKey: string;
+  private partitions: number;
   private maxStreamLength: number;
   private ownsConnection: boolean;
+  private numericPolicy: NumericPolicy;
+  private trackPending: boolean;
+  private validateScopes: boolean;
+  private batching: Required<ClientBatchingConfig> | null;
+  private queue: QueuedEvent[] = [];
+  private sendTimer: ReturnType<typeof setTimeout> | null = null;
+  private sending = new Set<Promise<void>>();
+  private aggregation: Required<ClientAggregationConfig> | null;
+  private aggregator = new Aggregator();
+  private windowWaiters = new Map<string, WindowWaiter>();
+  private windowTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Time of the open window's first write, which its entries carry */
+  private windowStartedAt = 0;
+  private closed = false;
 
   constructor(config: CounterClientConfig) {
     if (typeof config.redis === 'string') {
@@ -40,7 +133,13 @@ export class CounterClient {
       this.ownsConnection = false;
     }
     this.streamKey = config.streamKey ?? DEFAULT_STREAM_KEY;
+    this.partitions = config.partitions ?? 1;
     this.maxStreamLength = config.maxStreamLength ?? DEFAULT_MAX_LEN;
+    this.numericPolicy = config.numericPolicy ?? {};
+    this.trackPending = config.trackPending ?? false;
+    this.validateScopes = config.validateScopes ?? false;
+    this.batching = config.batching ? { ...BATCHING_DEFAULTS, ...config.batching } : null;
+    this.aggregation = config.aggregation ? { ...AGGREGATION_DEFAULTS, ...config.aggregation } : null;
   }
 
   /** Increment a scope by 1. */
@@ -53,32 +152,328 @@ export class CounterClient {
     await this.add(scope, -1, metadata);
   }
 
-  /** Add an arbitrary delta to a scope. */
+  /**
+   * Add an arbitrary delta to a scope.
+   * Throws a RangeError, without writing, if the delta violates the numeric policy.
+   */
   async add(scope: string, delta: number, metadata?: ScopeMetadata): Promise<void> {
+    await this.write('add', scope, delta, metadata);
+  }
+
+  /** Overwrite a scope with an absolute value, discarding earlier adds. */
+  async set(scope: string, value: number, metadata?: ScopeMetadata): Promise<void> {
+    await this.write('set', scope, value, metadata);
+  }
+
+  /** Raise a scope to `value` if it is currently lower. */
+  async max(scope: string, value: number, metadata?: ScopeMetadata): Promise<void> {
+    await this.write('max', scope, value, metadata);
+  }
+
+  /** Lower a scope to `value` if it is currently higher. */
+  async min(scope: string, value: number, metadata?: ScopeMetadata): Promise<void> {
+    await this.write('min', scope, value, metadata);
+  }
+
+  /**
+   * Sum of a scope's tracked adds that the consumer has not persisted yet.
+   * Add it to the stored value for a read that reflects recent writes.
+   * Between the consumer's provider write and its release, a delta is in
+   * both, so the sum briefly counts it twice.
+   */
+  async getPending(scope: string): Promise<number> {
+    return (await this.getPendingBatch([scope])).get(scope) ?? 0;
+  }
+
+  /** Batch version of `getPending`: one HMGET per pending-delta hash. */
+  async getPendingBatch(scopes: string[]): Promise<Map<string, number>> {
+    const byKey = new Map<string, string[]>();
+    for (const scope of scopes) {
+      const key = pendingDeltaKey(streamKeyFor(this.streamKey, scope, this.partitions));
+      byKey.set(key, [...(byKey.get(key) ?? []), scope]);
+    }
+
+    const result = new Map<string, number>();
+    for (const [key, keyScopes] of byKey) {
+      const values = await this.redis.hmget(key, ...keyScopes);
+      keyScopes.forEach((scope, i) => result.set(scope, Number(values[i] ?? 0)));
+    }
+    return result;
+  }
+
+  /**
+   * Write the open aggregation window and every buffered event now, and
+   * wait until all batches sent so far have been written. A no-op without
+   * `batching` or `aggregation`.
+   */
+  async flush(): Promise<void> {
+    this.closeWindow();
+    this.send();
+    await Promise.all(this.sending);
+  }
+
+  /**
+   * Flush any buffered or aggregated events, then close the Redis
+   * connection (only if this client created it). Buffered and aggregated
+   * writes after close reject.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.flush();
+    if (this.ownsConnection) {
+      await this.redis.quit();
+    }
+  }
+
+  /** Validate an event, then write it, queue it or fold it into the window. */
+  private async write(op: CounterOp, scope: string, value: number, metadata?: ScopeMetadata): Promise<void> {
+    const scopeViolation = this.validateScopes ? validateScope(scope) : undefined;
+    if (scopeViolation) {
+      throw new RangeError(`Invalid scope "${scope}": ${scopeViolation}`);
+    }
+
+    const violation = validateDelta(value, this.numericPolicy);
+    if (violation) {
+      throw new RangeError(`Invalid ${op === 'add' ? 'delta' : 'value'} for "${scope}": ${violation}`);
+    }
+
+    if (this.closed && (this.batching || this.aggregation)) {
+      throw new Error('CounterClient is closed');
+    }
+
+    if (this.aggregation) {
+      await this.aggregate(op, scope, value, metadata);
+    } else {
+      await this.publish(op, scope, value, metadata, this.batching !== null);
+    }
+  }
+
+  /**
+   * XADD one event, or queue it for the next pipeline when `queued`. The
+   * value travels in the `delta` field; `op` is only written for non-add
+   * operations. The XADD runs in a producer span whose context is written
+   * as `traceparent`/`tracestate` fields, so the consumer can link its
+   * spans back to this write. A queued event joins the queue before this
+   * returns. `timestamp` defaults to now.
+   */
+  private async publish(
+    op: CounterOp,
+    scope: string,
+    value: number,
+    metadata: ScopeMetadata | undefined,
+    queued: boolean,
+    timestamp = Date.now(),
+  ): Promise<void> {
     const fields: string[] = [
       'scope', scope,
-      'delta', String(delta),
-      'timestamp', String(Date.now()),
+      'delta', String(value),
+      'timestamp', String(timestamp),
     ];
 
+    if (op !== 'add') {
+      fields.push('op', op);
+    }
+
+    const tracked = this.trackPending && op === 'add';
+    if (tracked) {
+      fields.push('pending', '1');
+    }
+
     if (metadata) {
       fields.push('metadata', JSON.stringify(metadata));
     }
 
-    if (this.maxStreamLength > 0) {
+    // All events for a scope land on the same partition and so fold together
+    const streamKey = streamKeyFor(this.streamKey, scope, this.partitions);
+
+    const tracing = getTracing();
+    await tracing.withSpan('counter-bridge publish', {
+      kind: 'producer',
+      attributes: {
+        'messaging.system': 'redis',
+        'messaging.destination.name': streamKey,
+        'counter_bridge.scope': scope,
+        'counter_bridge.op': op,
+      },
+    }, async () => {
+      fields.push(...tracing.inject());
+
       // Approximate trimming (~) is O(1) and keeps the stream bounded
-      await this.redis.xadd(
-        this.streamKey, 'MAXLEN', '~', String(this.maxStreamLength), '*', ...fields
-      );
-    } else {
-      await this.redis.xadd(this.streamKey, '*', ...fields);
+      const args = this.maxStreamLength > 0
+        ? [streamKey, 'MAXLEN', '~', String(this.maxStreamLength), '*', ...fields]
+        : [streamKey, '*', ...fields];
+
+      if (queued) {
+        await this.enqueue(args, tracked ? { key: pendingDeltaKey(streamKey), scope, value } : undefined);
+        return;
+      }
+
+      if (!tracked) {
+        await this.redis.xadd(...(args as [string, ...string[]]));
+        return;
+      }
+
+      // Count the delta as pending in the same transaction, so a read never
+      // sees it in the hash without the event being in the stream
+      const results = await this.redis.multi()
+        .xadd(...(args as [string, ...string[]]))
+        .hincrbyfloat(pendingDeltaKey(streamKey), scope, value)
+        .pexpire(pendingDeltaKey(streamKey), PENDING_DELTA_TTL_MS)
+        .exec();
+      const failed = results?.find(([err]) => err);
+      if (failed) throw failed[0];
+    });
+  }
+
+  /**
+   * Pre-aggregation: fold an event into the open window, which is written
+   * `windowMs` after its first event or once it holds `maxScopes` scopes.
+   * A window never spans a UTC minute, the finest time-bucket granularity,
+   * so every write it folds falls in the buckets of the time its entries
+   * carry. Resolves once the window's entry for the scope is written.
+   */
+  private aggregate(op: CounterOp, scope: string, value: number, metadata?: ScopeMetadata): Promise<void> {
+    const timestamp = Date.now();
+    if (this.aggregator.scopeCount > 0 && bucketStart(timestamp, 'minute') !== bucketStart(this.windowStartedAt, 'minute')) {
+      this.closeWindow();
+    }
+    if (this.aggregator.scopeCount === 0) this.windowStartedAt = timestamp;
+    this.aggregator.add({ scope, delta: value, op, metadata, timestamp });
+
+    let waiter = this.windowWaiters.get(scope);
+    if (!waiter) {
+      let resolve!: () => void;
+      let reject!: (err: unknown) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      waiter = { promise, resolve, reject };
+      this.windowWaiters.set(scope, waiter);
     }
+
+    if (this.aggregator.scopeCount >= this.aggregation!.maxScopes) {
+      this.closeWindow();
+    } else if (!this.windowTimer) {
+      this.windowTimer = setTimeout(() => this.closeWindow(), this.aggregation!.windowMs);
+    }
+    return waiter.promise;
   }
 
-  /** Close the Redis connection (only if this client created it). */
-  async close(): Promise<void> {
-    if (this.ownsConnection) {
-      await this.redis.quit();
+  /**
+   * Pre-aggregation: write the window's folded updates in one pipeline,
+   * one entry per scope (two or three when a scope mixes adds with
+   * set/max/min, replaying its update in order), and settle the writes
+   * folded into each scope with its entries' replies. A folded add beyond
+   * the numeric policy's `maxAbsDelta` is written as several entries that
+   * each stay within it, so the consumer does not dead-letter it. Adds that
+   * net to zero are not written at all.
+   */
+  private closeWindow(): void {
+    if (this.windowTimer) {
+      clearTimeout(this.windowTimer);
+      this.windowTimer = null;
     }
+    if (this.aggregator.scopeCount === 0) return;
+
+    const { batch, context } = this.aggregator.drainBatch();
+    const waiters = this.windowWaiters;
+    this.windowWaiters = new Map();
+
+    for (const [scope, delta] of batch) {
+      const update = context.updates?.get(scope) ?? { delta };
+      const metadata = context.metadata?.get(scope);
+      const waiter = waiters.get(scope)!;
+      const ops = updateOps(update)
+        .filter(([op, value]) => op !== 'add' || value !== 0)
+        .flatMap(([op, value]): [CounterOp, number][] => (
+          op === 'add' ? splitDelta(value, this.numericPolicy).map((part) => [op, part]) : [[op, value]]
+        ));
+      Promise.all(ops.map(([op, value]) => this.publish(op, scope, value, metadata, true, this.windowStartedAt)))
+        .then(() => waiter.resolve(), waiter.reject);
+    }
+    this.send();
+  }
+
+  /**
+   * Queue an event for the next pipeline; resolves once it is written.
+   * Without `batching` only window entries are queued, and `closeWindow`
+   * sends them.
+   */
+  private enqueue(args: string[], pending?: QueuedEvent['pending']): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ args, pending, resolve, reject });
+      if (!this.batching) return;
+      if (this.queue.length >= this.batching!.maxMessages) {
+        this.send();
+      } else if (!this.sendTimer) {
+        this.sendTimer = setTimeout(() => this.send(), this.batching!.maxWaitMs);
+      }
+    });
+  }
+
+  /**
+   * Send the queued events in one pipeline and settle each event's write
+   * with its own replies. Tracked adds need their XADD and pending-delta
+   * increment applied together, so a batch holding any is sent as a MULTI,
+   * which also renews the TTL of each pending-delta hash it touches.
+   */
+  private send(): void {
+    if (this.sendTimer) {
+      clearTimeout(this.sendTimer);
+      this.sendTimer = null;
+    }
+    if (this.queue.length === 0) return;
+
+    const batch = this.queue;
+    this.queue = [];
+
+    const pipeline = batch.some((event) => event.pending) ? this.redis.multi() : this.redis.pipeline();
+    for (const event of batch) {
+      pipeline.xadd(...(event.args as [string, ...string[]]));
+      if (event.pending) pipeline.hincrbyfloat(event.pending.key, event.pending.scope, event.pending.value);
+    }
+    // Renewals go last, after the replies matched to events
+    for (const key of new Set(batch.flatMap((event) => event.pending ? [event.pending.key] : []))) {
+      pipeline.pexpire(key, PENDING_DELTA_TTL_MS);
+    }
+
+    const sent = pipeline.exec().then((results) => {
+      let reply = 0;
+      for (const event of batch) {
+        const replies = results?.slice(reply, reply += event.pending ? 2 : 1) ?? [];
+        const failed = results ? replies.find(([err]) => err) : [new Error('Pipeline was discarded')];
+        if (failed) {
+          event.reject(failed[0]);
+        } else {
+          event.resolve();
+        }
+      }
+    }, (err) => {
+      for (const event of batch) event.reject(err);
+    }).finally(() => {
+      this.sending.delete(sent);
+    });
+    this.sending.add(sent);
+  }
+}
+
+/**
+ * Split a folded delta into parts within `policy.maxAbsDelta`. Every
+ * folded write was already within it, so this never yields more parts
+ * than the writes that were folded.
+ */
+function splitDelta(delta: number, policy: NumericPolicy): number[] {
+  const max = policy.maxAbsDelta ?? Number.MAX_SAFE_INTEGER;
+  if (Math.abs(delta) <= max) return [delta];
+
+  const step = Math.sign(delta) * (policy.integerOnly ? Math.floor(max) : max);
+  const parts: number[] = [];
+  let rest = delta;
+  while (Math.abs(rest) > max) {
+    parts.push(step);
+    rest -= step;
   }
+  parts.push(rest);
+  return parts;
 }
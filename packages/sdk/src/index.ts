@@ -1,5 +1,6 @@
 export { CounterClient } from './client';
-export type { CounterClientConfig } from './client';
+export type { CounterClientConfig, ClientBatchingConfig, ClientAggregationConfig } from './client';
 
-// Re-export types consumers need
-export type { ScopeMetadata } from '@counter-bridge/types';
+// Re-export the scope helpers and types consumers need
+export { buildScope, parseScope, validateScope, SCOPE_VERSION } from '@counter-bridge/types';
+export type { ScopeMetadata, NumericPolicy, CounterOp, ScopeParts, ParsedScope } from '@counter-bridge/types';
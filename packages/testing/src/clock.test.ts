@@ -0,0 +1,66 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { FakeClock } from './clock';
+
+describe('FakeClock', () => {
+  const clock = new FakeClock(0);
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  it('should fire timers in due order as time advances', async () => {
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push('b'), 20);
+    clock.setTimeout(() => fired.push('a'), 10);
+    clock.setTimeout(() => fired.push('c'), 20);
+
+    await clock.advance(15);
+    expect(fired).toEqual(['a']);
+    expect(clock.now()).toBe(15);
+
+    await clock.advance(5);
+    expect(fired).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should run async work a timer starts before firing the next one', async () => {
+    const events: string[] = [];
+    clock.setTimeout(async () => {
+      await Promise.resolve();
+      events.push('first done');
+      clock.setTimeout(() => events.push('scheduled by first'), 1);
+    }, 1);
+    clock.setTimeout(() => events.push('second'), 2);
+
+    await clock.advance(2);
+    expect(events).toEqual(['first done', 'second', 'scheduled by first']);
+  });
+
+  it('should repeat intervals and skip cleared timers', async () => {
+    let ticks = 0;
+    const interval = clock.setInterval(() => ticks++, 10);
+    const timeout = clock.setTimeout(() => ticks += 100, 5);
+    clock.clearTimeout(timeout);
+
+    await clock.advance(35);
+    clock.clearInterval(interval);
+    await clock.advance(100);
+
+    expect(ticks).toBe(3);
+    expect(clock.pendingTimers).toBe(0);
+  });
+
+  it('should replace the global clock and timers while installed', async () => {
+    clock.install();
+    const start = clock.now();
+    let fired = false;
+    setTimeout(() => { fired = true; }, 1_000);
+
+    expect(Date.now()).toBe(start);
+    expect(await clock.runNext()).toBe(true);
+    expect(fired).toBe(true);
+    expect(Date.now()).toBe(start + 1_000);
+
+    clock.uninstall();
+    expect(Date.now()).not.toBe(clock.now());
+  });
+});
@@ -0,0 +1,166 @@
+interface Timer {
+  id: number;
+  at: number;
+  callback: () => void;
+  /** Repeat interval for setInterval timers. */
+  interval?: number;
+}
+
+/** Handle returned by the fake timer functions, shaped like Node's `Timeout`. */
+export interface FakeTimerHandle {
+  readonly id: number;
+  ref(): FakeTimerHandle;
+  unref(): FakeTimerHandle;
+  hasRef(): boolean;
+  [Symbol.toPrimitive](): number;
+}
+
+const realSetImmediate = setImmediate;
+
+/**
+ * Virtual clock for deterministic tests.
+ *
+ * `install` replaces the global `Date.now`, `setTimeout`, `clearTimeout`,
+ * `setInterval` and `clearInterval`, so code under test (the bridge's
+ * flush, claim and monitor timers, retry backoff, circuit breaker) sees
+ * time only move when the test calls `advance`. `new Date()` without
+ * arguments still reads the real clock.
+ *
+ * Timers due at the same instant fire in the order they were scheduled.
+ * After each one, `advance` lets pending promise callbacks run, so async
+ * work a timer starts (a flush, a blocked read timing out) completes
+ * before the next timer fires.
+ */
+export class FakeClock {
+  private current: number;
+  private nextId = 1;
+  private readonly timers = new Map<number, Timer>();
+  private restore: (() => void) | null = null;
+
+  constructor(start = Date.UTC(2025, 0, 1)) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  /** Number of scheduled timers that have not fired or been cleared. */
+  get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  setTimeout(callback: (...args: any[]) => void, ms = 0, ...args: any[]): FakeTimerHandle {
+    return this.schedule(() => callback(...args), ms);
+  }
+
+  setInterval(callback: (...args: any[]) => void, ms = 0, ...args: any[]): FakeTimerHandle {
+    return this.schedule(() => callback(...args), ms, Math.max(1, ms));
+  }
+
+  clearTimeout(handle?: FakeTimerHandle | number | null): void {
+    if (handle != null) this.timers.delete(Number(handle));
+  }
+
+  clearInterval(handle?: FakeTimerHandle | number | null): void {
+    this.clearTimeout(handle);
+  }
+
+  /** Replace the global clock and timer functions. Returns the clock. */
+  install(): this {
+    if (this.restore) return this;
+
+    const saved = {
+      now: Date.now,
+      setTimeout: globalThis.setTimeout,
+      clearTimeout: globalThis.clearTimeout,
+      setInterval: globalThis.setInterval,
+      clearInterval: globalThis.clearInterval,
+    };
+    Date.now = () => this.current;
+    Object.assign(globalThis, {
+      setTimeout: this.setTimeout.bind(this),
+      clearTimeout: this.clearTimeout.bind(this),
+      setInterval: this.setInterval.bind(this),
+      clearInterval: this.clearInterval.bind(this),
+    });
+
+    this.restore = () => {
+      Date.now = saved.now;
+      Object.assign(globalThis, {
+        setTimeout: saved.setTimeout,
+        clearTimeout: saved.clearTimeout,
+        setInterval: saved.setInterval,
+        clearInterval: saved.clearInterval,
+      });
+    };
+    return this;
+  }
+
+  /** Put back the real globals. Scheduled timers are kept but never fire on their own. */
+  uninstall(): void {
+    this.restore?.();
+    this.restore = null;
+  }
+
+  /**
+   * Move time forward by `ms`, firing every timer that falls due on the
+   * way, including ones those timers schedule.
+   */
+  async advance(ms: number): Promise<void> {
+    const until = this.current + ms;
+    await this.settle();
+
+    for (let timer = this.next(until); timer; timer = this.next(until)) {
+      this.current = timer.at;
+      if (timer.interval) {
+        timer.at += timer.interval;
+      } else {
+        this.timers.delete(timer.id);
+      }
+      timer.callback();
+      await this.settle();
+    }
+    this.current = until;
+  }
+
+  /** Advance to the next scheduled timer and fire it. Returns false when none is scheduled. */
+  async runNext(): Promise<boolean> {
+    const timer = this.next(Infinity);
+    if (!timer) return false;
+    await this.advance(timer.at - this.current);
+    return true;
+  }
+
+  /**
+   * Let pending promise callbacks run without moving time. One macrotask
+   * turn drains the microtask queue, including work queued while it drains.
+   */
+  async settle(): Promise<void> {
+    await new Promise((resolve) => realSetImmediate(resolve));
+  }
+
+  private schedule(callback: () => void, ms: number, interval?: number): FakeTimerHandle {
+    const id = this.nextId++;
+    // Like Node, delays below 1ms are treated as 1ms
+    this.timers.set(id, { id, at: this.current + Math.max(1, ms || 0), callback, interval });
+
+    const handle: FakeTimerHandle = {
+      id,
+      ref: () => handle,
+      unref: () => handle,
+      hasRef: () => true,
+      [Symbol.toPrimitive]: () => id,
+    };
+    return handle;
+  }
+
+  /** The earliest timer due at or before `until`; ties go to the first scheduled. */
+  private next(until: number): Timer | undefined {
+    let earliest: Timer | undefined;
+    for (const timer of this.timers.values()) {
+      if (timer.at <= until && (!earliest || timer.at < earliest.at)) earliest = timer;
+    }
+    return earliest;
+  }
+}
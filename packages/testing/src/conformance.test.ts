@@ -0,0 +1,12 @@
+import * as vitest from 'vitest';
+import { describeProviderConformance } from './conformance';
+import { InMemoryProvider } from './provider';
+
+describeProviderConformance(vitest, 'InMemoryProvider', {
+  create: () => new InMemoryProvider(),
+  failScope: (provider, scope) => provider.failScopes(scope),
+});
+
+describeProviderConformance(vitest, 'InMemoryProvider (add only)', {
+  create: () => new InMemoryProvider({ operations: ['add'] }),
+});
@@ -0,0 +1,246 @@
+import assert from 'assert/strict';
+import { bucketKey } from '@counter-bridge/types';
+import type { ICounterProvider, FlushResult } from '@counter-bridge/types';
+
+/**
+ * The parts of a test runner's API the suite registers with. The vitest
+ * module satisfies it (`import * as vitest from 'vitest'`), as do Jest's
+ * globals; assertions use `node:assert`, so any runner reports them.
+ */
+export interface ConformanceTestApi {
+  describe(name: string, fn: () => void): void;
+  it(name: string, fn: () => Promise<void>): void;
+  beforeEach(fn: () => Promise<void>): void;
+  afterEach(fn: () => Promise<void>): void;
+}
+
+export interface ProviderConformanceOptions<P extends ICounterProvider> {
+  /**
+   * Create a provider over empty storage (a fresh table, collection or
+   * database). Called before every test; `initialize` is then called on it.
+   */
+  create(): P | Promise<P>;
+  /** Tear down what `create` set up. Default: `provider.close()` */
+  destroy?(provider: P): void | Promise<void>;
+  /**
+   * Make flushes fail for one scope, so the suite can check partial
+   * failures are reported per scope. Omit it to skip those tests.
+   */
+  failScope?(provider: P, scope: string): void | Promise<void>;
+}
+
+/**
+ * Register a test suite checking a provider honours the ICounterProvider
+ * contract, the behaviour CounterBridge relies on:
+ *
+ * - `get` returns 0 for a scope never written
+ * - flushes fold into stored values: the first creates a scope, later
+ *   ones add to it, negative deltas included
+ * - an empty batch resolves without writing
+ * - full success resolves with nothing, or a FlushResult without failed
+ *   or skipped scopes
+ * - a partial failure resolves with exactly the failed scopes and their
+ *   deltas, having applied the rest; a total failure rejects
+ * - `getBatch` returns every requested scope, 0 for missing ones
+ * - `delete` removes a scope (and is a no-op for an unknown one)
+ * - `initialize` can run again without losing data
+ * - scopes whose watermark is at or below the stored one are reported as
+ *   skipped and left unchanged (`getWatermarks` providers)
+ * - set, max and min updates for providers that list those operations,
+ *   and zero-filled series for `getSeries` providers
+ *
+ * Tests for optional methods pass without checking anything when the
+ * provider doesn't implement them.
+ *
+ * ```ts
+ * import * as vitest from 'vitest';
+ * import { describeProviderConformance } from '@counter-bridge/testing';
+ *
+ * describeProviderConformance(vitest, 'MyProvider', {
+ *   create: () => new MyProvider({ table: `counters_${Date.now()}` }),
+ *   destroy: (provider) => provider.dropAndClose(),
+ * });
+ * ```
+ */
+export function describeProviderConformance<P extends ICounterProvider>(
+  api: ConformanceTestApi,
+  name: string,
+  options: ProviderConformanceOptions<P>,
+): void {
+  const { describe, it, beforeEach, afterEach } = api;
+
+  describe(`${name} conforms to ICounterProvider`, () => {
+    let provider: P;
+
+    beforeEach(async () => {
+      provider = await options.create();
+      await provider.initialize?.();
+    });
+
+    afterEach(async () => {
+      if (options.destroy) {
+        await options.destroy(provider);
+      } else {
+        await provider.close?.();
+      }
+    });
+
+    describe('flush', () => {
+      it('resolves an empty batch without writing', async () => {
+        assertSucceeded(await provider.flush(new Map()));
+        assert.equal(await provider.get('a'), 0);
+      });
+
+      it('creates a scope on its first flush and folds later deltas into it', async () => {
+        assertSucceeded(await provider.flush(new Map([['a', 5]])));
+        assertSucceeded(await provider.flush(new Map([['a', 3]])));
+        assertSucceeded(await provider.flush(new Map([['a', 2], ['b', 1]])));
+
+        assert.equal(await provider.get('a'), 10);
+        assert.equal(await provider.get('b'), 1);
+      });
+
+      it('applies negative deltas, including below zero', async () => {
+        await provider.flush(new Map([['a', 2]]));
+        await provider.flush(new Map([['a', -5], ['b', -1]]));
+
+        assert.equal(await provider.get('a'), -3);
+        assert.equal(await provider.get('b'), -1);
+      });
+
+      it('applies a zero delta without error', async () => {
+        await provider.flush(new Map([['a', 4]]));
+        assertSucceeded(await provider.flush(new Map([['a', 0]])));
+        assert.equal(await provider.get('a'), 4);
+      });
+
+      it('applies set, max and min updates', async () => {
+        const ops = provider.operations ?? ['add'];
+        if (!ops.includes('set') || !ops.includes('max') || !ops.includes('min')) return;
+
+        await provider.flush(new Map([['set', 4], ['max', 4], ['min', 4]]));
+        assertSucceeded(await provider.flush(new Map([['set', 0], ['max', 0], ['min', 0], ['fresh', 0]]), {
+          updates: new Map([
+            ['set', { delta: 0, floor: 10, ceiling: 10 }],
+            ['max', { delta: 0, floor: 2 }],
+            ['min', { delta: 0, ceiling: 1 }],
+            ['fresh', { delta: 0, floor: 7 }],
+          ]),
+        }));
+
+        for (const [scope, value] of [['set', 10], ['max', 4], ['min', 1], ['fresh', 7]] as const) {
+          assert.equal(await provider.get(scope), value, `${scope} after update`);
+        }
+      });
+    });
+
+    if (options.failScope) {
+      const failScope = options.failScope;
+
+      describe('partial failures', () => {
+        it('reports only the failing scopes, with their deltas, and applies the rest', async () => {
+          await failScope(provider, 'bad');
+          const result = await provider.flush(new Map([['a', 1], ['bad', 2], ['c', 3]]));
+
+          assert.deepEqual(result?.failed, new Map([['bad', 2]]));
+          assert.equal(result?.skipped?.size ?? 0, 0);
+          assert.equal(await provider.get('a'), 1);
+          assert.equal(await provider.get('c'), 3);
+        });
+
+        it('rejects when every scope in the batch fails', async () => {
+          await failScope(provider, 'bad');
+          await assert.rejects(provider.flush(new Map([['bad', 2]])));
+        });
+      });
+    }
+
+    describe('idempotent flushes', () => {
+      it('skips scopes whose watermark is at or below the stored one and leaves them unchanged', async () => {
+        if (!provider.getWatermarks) return;
+
+        await provider.flush(new Map([['a', 1]]), { watermarks: new Map([['a', '100-5']]) });
+        const replay = await provider.flush(new Map([['a', 1], ['b', 1]]), {
+          watermarks: new Map([['a', '100-5'], ['b', '100-6']]),
+        });
+
+        assert.deepEqual(replay?.skipped, new Map([['a', 1]]));
+        assert.equal(replay?.failed?.size ?? 0, 0);
+        assert.equal(await provider.get('a'), 1);
+        assert.equal(await provider.get('b'), 1);
+      });
+
+      it('applies newer watermarks and reads back only scopes that have one', async () => {
+        if (!provider.getWatermarks) return;
+
+        await provider.flush(new Map([['a', 1]]), { watermarks: new Map([['a', '100-5']]) });
+        assertSucceeded(await provider.flush(new Map([['a', 2]]), { watermarks: new Map([['a', '100-10']]) }));
+        await provider.flush(new Map([['b', 1]]));
+
+        assert.equal(await provider.get('a'), 3);
+        assert.deepEqual(await provider.getWatermarks(['a', 'b', 'c']), new Map([['a', '100-10']]));
+      });
+    });
+
+    describe('reads', () => {
+      it('returns 0 from get for a scope never written', async () => {
+        assert.equal(await provider.get('missing'), 0);
+      });
+
+      it('returns every requested scope from getBatch, 0 for missing ones', async () => {
+        if (!provider.getBatch) return;
+
+        await provider.flush(new Map([['a', 3], ['b', -1]]));
+        const values = await provider.getBatch(['a', 'missing', 'b']);
+
+        assert.deepEqual(values, new Map([['a', 3], ['b', -1], ['missing', 0]]));
+        assert.deepEqual(await provider.getBatch([]), new Map());
+      });
+
+      it('reads bucket rows as a zero-filled series', async () => {
+        if (!provider.getSeries) return;
+
+        const hour = 3_600_000;
+        await provider.flush(new Map([[bucketKey('views', 'hour', hour), 4], [bucketKey('views', 'hour', 2 * hour), 1]]));
+
+        const series = await provider.getSeries('views', new Date(0), new Date(3 * hour), 'hour');
+        assert.deepEqual(series, [
+          { start: new Date(0), value: 0 },
+          { start: new Date(hour), value: 4 },
+          { start: new Date(2 * hour), value: 1 },
+        ]);
+      });
+    });
+
+    describe('lifecycle', () => {
+      it('deletes a scope so it reads as 0 and restarts from the next delta', async () => {
+        if (!provider.delete) return;
+
+        await provider.flush(new Map([['a', 5], ['b', 1]]));
+        await provider.delete('a');
+        await provider.delete('never-written');
+
+        assert.equal(await provider.get('a'), 0);
+        assert.equal(await provider.get('b'), 1);
+        await provider.flush(new Map([['a', 2]]));
+        assert.equal(await provider.get('a'), 2);
+      });
+
+      it('can be initialized again without losing data', async () => {
+        await provider.flush(new Map([['a', 5]]));
+        await provider.initialize?.();
+        assert.equal(await provider.get('a'), 5);
+      });
+
+      it('passes its health check', async () => {
+        await provider.healthCheck?.();
+      });
+    });
+  });
+}
+
+/** Full success: nothing, or a FlushResult with no failed or skipped scopes. */
+function assertSucceeded(result: FlushResult | void): void {
+  assert.equal(result?.failed?.size ?? 0, 0, 'no scopes should fail');
+  assert.equal(result?.skipped?.size ?? 0, 0, 'no scopes should be skipped');
+}
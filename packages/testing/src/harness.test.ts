@@ -0,0 +1,183 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { FanOutProvider } from '@counter-bridge/core';
+import { InMemoryProvider } from './provider';
+import { TestHarness } from './harness';
+
+describe('TestHarness', () => {
+  let harness: TestHarness;
+
+  afterEach(async () => {
+    await harness?.stop();
+  });
+
+  it('should carry client writes through to the provider', async () => {
+    harness = new TestHarness();
+    await harness.start();
+
+    await harness.client.add('v1:post:1:likes', 3);
+    await harness.client.inc('v1:post:1:likes');
+    await harness.client.max('v1:user:1:best', 42);
+    await harness.drain();
+
+    expect(harness.provider.snapshot()).toEqual(new Map([['v1:post:1:likes', 4], ['v1:user:1:best', 42]]));
+    expect(harness.provider.initialized).toBe(true);
+    expect(await harness.redis.xpending('counter-bridge:events', 'counter-bridge-group')).toEqual([0, null, null, null]);
+  });
+
+  it('should flush only when a window closes', async () => {
+    harness = new TestHarness({ bridge: { batching: { maxWaitMs: 1_000 } } });
+    await harness.start();
+
+    await harness.client.add('a', 1);
+    await harness.advance(999);
+    expect(harness.provider.flushes).toHaveLength(0);
+
+    await harness.advance(1);
+    expect(harness.provider.flushes).toHaveLength(1);
+    expect(await harness.provider.get('a')).toBe(1);
+  });
+
+  it('should retry a failed flush after backing off', async () => {
+    harness = new TestHarness({ bridge: { retry: { initialDelayMs: 2_000, jitter: 0 } } });
+    await harness.start();
+    harness.provider.failNextFlush();
+
+    await harness.client.add('a', 5);
+    await harness.flushWindow();
+    expect(harness.provider.flushes[0].result).toBeInstanceOf(Error);
+    expect(harness.errors).toEqual([harness.provider.flushes[0].result]);
+    expect(await harness.provider.get('a')).toBe(0);
+
+    await harness.drain();
+    expect(await harness.provider.get('a')).toBe(5);
+    expect(harness.provider.flushes).toHaveLength(2);
+  });
+
+  it('should not re-apply a fan-out retry to backends that applied it', async () => {
+    const primary = new InMemoryProvider();
+    const secondary = new InMemoryProvider();
+    secondary.failNextFlush(new Error('secondary down'), 3);
+    const fanOut = new FanOutProvider({ primary, secondaries: [secondary] });
+    const fanOutHarness = new TestHarness({ provider: fanOut, bridge: { idempotent: true, retry: { jitter: 0 } } });
+    try {
+      await fanOutHarness.start();
+      await fanOutHarness.client.inc('a');
+      await fanOutHarness.drain();
+
+      expect(await primary.get('a')).toBe(1);
+      expect(await secondary.get('a')).toBe(1);
+      expect(secondary.flushes).toHaveLength(4);
+    } finally {
+      await fanOutHarness.stop();
+    }
+  });
+
+  it('should not re-apply a fan-out retry when newer events reach the scope first', async () => {
+    const primary = new InMemoryProvider();
+    const secondary = new InMemoryProvider();
+    secondary.failScopes('s');
+    const fanOut = new FanOutProvider({ primary, secondaries: [secondary] });
+    const fanOutHarness = new TestHarness({ provider: fanOut, bridge: { idempotent: true } });
+    try {
+      await fanOutHarness.start();
+      await fanOutHarness.client.inc('s');
+      await fanOutHarness.advance(1_000);
+      expect(await primary.get('s')).toBe(1);
+      expect(await secondary.get('s')).toBe(0);
+
+      await fanOutHarness.client.add('s', 10);
+      await fanOutHarness.advance(1_000);
+      secondary.heal();
+      await fanOutHarness.drain();
+
+      expect(await primary.get('s')).toBe(11);
+      expect(await secondary.get('s')).toBe(11);
+    } finally {
+      await fanOutHarness.stop();
+    }
+  });
+
+  it('should not claim its own entries back while the provider is down', async () => {
+    harness = new TestHarness({ bridge: { claim: { minIdleMs: 60_000, intervalMs: 30_000 } } });
+    await harness.start();
+    harness.provider.failNextFlush(new Error('down'), 1_000);
+
+    await harness.client.inc('a');
+    await harness.advance(12 * 60_000);
+    const [[, owner, , deliveries]] = await harness.redis.xpending(
+      'counter-bridge:events', 'counter-bridge-group', '-', '+', 10
+    ) as [string, string, number, number][];
+    expect([owner, deliveries]).toEqual(['test-consumer', 1]);
+
+    harness.provider.heal();
+    await harness.drain();
+    expect(await harness.provider.get('a')).toBe(1);
+    expect(harness.bridge.getStats().deadLettered).toBe(0);
+  });
+
+  it('should serve read-your-writes reads until the window flushes', async () => {
+    harness = new TestHarness({ client: { trackPending: true } });
+    await harness.start();
+
+    await harness.client.add('a', 2);
+    expect(await harness.bridge.get('a', { consistent: true })).toBe(2);
+    expect(await harness.client.getPending('a')).toBe(2);
+
+    await harness.drain();
+    expect(await harness.client.getPending('a')).toBe(0);
+    expect(await harness.bridge.get('a', { consistent: true })).toBe(2);
+  });
+
+  it('should spread partitioned writes and drain every partition', async () => {
+    harness = new TestHarness({ bridge: { partitions: { count: 4 } } });
+    await harness.start();
+
+    for (let i = 0; i < 20; i++) await harness.client.inc(`scope-${i}`);
+    await harness.drain();
+
+    expect([...harness.provider.snapshot().values()].reduce((sum, value) => sum + value, 0)).toBe(20);
+  });
+
+  it("should send the client's buffered writes before draining", async () => {
+    harness = new TestHarness({ client: { batching: { maxWaitMs: 50 } } });
+    await harness.start();
+
+    const writes = [harness.client.add('a', 1), harness.client.add('a', 2)];
+    await harness.drain();
+    await Promise.all(writes);
+
+    expect(await harness.provider.get('a')).toBe(3);
+  });
+
+  it('should carry pre-aggregated writes through as one entry per scope', async () => {
+    harness = new TestHarness({ client: { aggregation: { windowMs: 100 } } });
+    await harness.start();
+
+    const writes = [harness.client.inc('a'), harness.client.inc('a'), harness.client.add('a', 3)];
+    await harness.drain();
+    await Promise.all(writes);
+
+    expect(await harness.provider.get('a')).toBe(5);
+    expect(await harness.redis.xlen('counter-bridge:events')).toBe(1);
+  });
+
+  it('should report what is still buffered when it cannot drain', async () => {
+    harness = new TestHarness({ provider: new InMemoryProvider() });
+    await harness.start();
+    harness.provider.failScopes('a');
+
+    await harness.client.add('a', 1);
+    await expect(harness.drain(3)).rejects.toThrow('Bridge did not drain within 3 windows: 1 scopes');
+    harness.provider.heal();
+  });
+
+  it('should restore the real clock on stop', async () => {
+    const before = Date.now();
+    harness = new TestHarness({ startTime: 0 });
+    expect(Date.now()).toBe(0);
+
+    await harness.start();
+    await harness.stop();
+    expect(Date.now()).toBeGreaterThanOrEqual(before);
+  });
+});
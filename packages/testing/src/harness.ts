@@ -0,0 +1,130 @@
+import type Redis from 'ioredis';
+import { CounterBridge } from '@counter-bridge/core';
+import type { CoreConfig } from '@counter-bridge/core';
+import { CounterClient } from '@counter-bridge/sdk';
+import type { CounterClientConfig } from '@counter-bridge/sdk';
+import type { ICounterProvider } from '@counter-bridge/types';
+import { FakeClock } from './clock';
+import { InMemoryProvider } from './provider';
+import { InMemoryRedis } from './redis';
+
+export interface TestHarnessConfig<P extends ICounterProvider = InMemoryProvider> {
+  /** Provider the bridge flushes to. Default: a new InMemoryProvider */
+  provider?: P;
+  /**
+   * Bridge options. `streamKey` and `partitions.count` are passed on to
+   * the client. Default `consumerId`: "test-consumer"
+   */
+  bridge?: Omit<CoreConfig, 'redis' | 'provider'>;
+  /** Client options besides the connection, stream key and partitions. */
+  client?: Omit<CounterClientConfig, 'redis' | 'streamKey' | 'partitions'>;
+  /** Fake clock start time (epoch ms). Default: 2025-01-01T00:00:00Z */
+  startTime?: number;
+}
+
+/**
+ * Runs a CounterBridge and a CounterClient end-to-end against an
+ * `InMemoryRedis` and (by default) an `InMemoryProvider`, on a
+ * `FakeClock`, so a test decides exactly when windows close, retries
+ * back off and stale entries become claimable.
+ *
+ * Creating a harness installs the fake clock globally; `stop` uninstalls
+ * it, so always stop the harness (e.g. in `afterEach`). The bridge and
+ * client each get their own connection to the shared store, and `redis`
+ * stays open after `stop` for inspecting the streams.
+ *
+ * ```ts
+ * const harness = new TestHarness();
+ * await harness.start();
+ * await harness.client.add('v1:post:1:likes', 3);
+ * await harness.drain();
+ * expect(await harness.provider.get('v1:post:1:likes')).toBe(3);
+ * await harness.stop();
+ * ```
+ */
+export class TestHarness<P extends ICounterProvider = InMemoryProvider> {
+  readonly clock: FakeClock;
+  readonly redis = new InMemoryRedis();
+  readonly provider: P;
+  readonly bridge: CounterBridge;
+  readonly client: CounterClient;
+  /** Every 'error' the bridge emitted, so flush and read failures don't go unhandled. */
+  readonly errors: unknown[] = [];
+  private readonly windowMs: number;
+
+  constructor(config: TestHarnessConfig<P> = {}) {
+    // Installed first: the bridge reads Date.now while it is constructed
+    this.clock = new FakeClock(config.startTime).install();
+    this.provider = config.provider ?? (new InMemoryProvider() as unknown as P);
+    this.windowMs = config.bridge?.batching?.maxWaitMs ?? 500;
+
+    this.bridge = new CounterBridge({
+      consumerId: 'test-consumer',
+      ...config.bridge,
+      redis: this.redis.duplicate(),
+      provider: this.provider,
+    });
+    this.bridge.on('error', (err) => this.errors.push(err));
+    this.client = new CounterClient({
+      ...config.client,
+      redis: this.redis.duplicate() as unknown as Redis,
+      streamKey: config.bridge?.streamKey,
+      partitions: config.bridge?.partitions?.count,
+    });
+  }
+
+  /** Start the bridge and let its startup reads settle. */
+  async start(): Promise<void> {
+    await this.bridge.start();
+    await this.clock.settle();
+  }
+
+  /** Move the fake clock forward, running every timer that falls due. */
+  async advance(ms: number): Promise<void> {
+    await this.clock.advance(ms);
+  }
+
+  /** Advance one batching window, so events read so far are flushed. */
+  async flushWindow(): Promise<void> {
+    await this.clock.advance(this.windowMs);
+  }
+
+  /**
+   * Send anything the client has buffered, then advance window by window
+   * until every written event has been read, flushed and ACK'd (or
+   * dead-lettered). Throws if that takes more than `maxWindows`, e.g.
+   * because the provider keeps failing.
+   */
+  async drain(maxWindows = 100): Promise<void> {
+    await this.client.flush();
+    for (let window = 0; window < maxWindows; window++) {
+      if (await this.drained()) return;
+      await this.flushWindow();
+    }
+    if (await this.drained()) return;
+
+    const stats = this.bridge.getStats();
+    throw new Error(
+      `Bridge did not drain within ${maxWindows} windows: ` +
+      `${stats.bufferedScopes} scopes and ${stats.bufferedIds} entries still buffered`
+    );
+  }
+
+  /** Stop the bridge, close the client and restore the real clock. */
+  async stop(): Promise<void> {
+    try {
+      await this.bridge.stop();
+      await this.client.close();
+    } finally {
+      this.clock.uninstall();
+    }
+  }
+
+  private async drained(): Promise<boolean> {
+    const stats = this.bridge.getStats();
+    if (stats.bufferedScopes > 0 || stats.bufferedIds > 0) return false;
+
+    const lag = await this.bridge.getGroupLag();
+    return [...lag.values()].every((entries) => entries === 0);
+  }
+}
@@ -0,0 +1,10 @@
+export { InMemoryRedis } from './redis';
+export type { InMemoryTransaction, ScriptHandler, StreamEntryReply } from './redis';
+export { InMemoryProvider } from './provider';
+export type { InMemoryProviderConfig, RecordedFlush } from './provider';
+export { FakeClock } from './clock';
+export type { FakeTimerHandle } from './clock';
+export { TestHarness } from './harness';
+export type { TestHarnessConfig } from './harness';
+export { describeProviderConformance } from './conformance';
+export type { ConformanceTestApi, ProviderConformanceOptions } from './conformance';
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { bucketKey } from '@counter-bridge/types';
+import { InMemoryProvider } from './provider';
+
+describe('InMemoryProvider', () => {
+  let provider: InMemoryProvider;
+
+  beforeEach(() => {
+    provider = new InMemoryProvider();
+  });
+
+  it('should add deltas and apply bounded updates', async () => {
+    await provider.flush(new Map([['a', 5], ['b', 4]]));
+    await provider.flush(new Map([['a', 1], ['b', 0]]), {
+      updates: new Map([['b', { delta: 0, floor: 10, ceiling: 10 }]]),
+    });
+
+    expect(await provider.getBatch(['a', 'b', 'c'])).toEqual(new Map([['a', 6], ['b', 10], ['c', 0]]));
+  });
+
+  it('should skip scopes at or below their stored watermark', async () => {
+    await provider.flush(new Map([['a', 1]]), { watermarks: new Map([['a', '100-5']]) });
+
+    const result = await provider.flush(new Map([['a', 1], ['b', 1]]), {
+      watermarks: new Map([['a', '100-5'], ['b', '100-6']]),
+    });
+
+    expect(result).toEqual({ skipped: new Map([['a', 1]]) });
+    expect(await provider.getWatermarks(['a', 'b', 'c'])).toEqual(new Map([['a', '100-5'], ['b', '100-6']]));
+  });
+
+  it('should keep the latest metadata and record every flush', async () => {
+    await provider.flush(new Map([['a', 1]]), { metadata: new Map([['a', { tenantId: 'acme' }]]) });
+    await provider.flush(new Map([['a', 1]]));
+
+    expect(provider.getMetadata('a')).toEqual({ tenantId: 'acme' });
+    expect(provider.flushes.map((flush) => flush.batch)).toEqual([new Map([['a', 1]]), new Map([['a', 1]])]);
+  });
+
+  describe('failure injection', () => {
+    it('should reject the next flushes without applying them', async () => {
+      const error = new Error('down');
+      provider.failNextFlush(error, 2);
+
+      await expect(provider.flush(new Map([['a', 1]]))).rejects.toBe(error);
+      await expect(provider.flush(new Map([['a', 1]]))).rejects.toBe(error);
+      await provider.flush(new Map([['a', 1]]));
+
+      expect(await provider.get('a')).toBe(1);
+      expect(provider.flushes.map((flush) => flush.result)).toEqual([error, error, undefined]);
+    });
+
+    it('should report failing scopes and apply the rest', async () => {
+      provider.failScopes('b');
+
+      expect(await provider.flush(new Map([['a', 1], ['b', 2]]))).toEqual({ failed: new Map([['b', 2]]) });
+      await expect(provider.flush(new Map([['b', 2]]))).rejects.toThrow('Injected failure for 1 scopes');
+
+      provider.heal();
+      await provider.flush(new Map([['b', 2]]));
+      expect(provider.snapshot()).toEqual(new Map([['a', 1], ['b', 2]]));
+    });
+
+    it('should fail health checks until healed', async () => {
+      provider.failHealthCheck();
+      await expect(provider.healthCheck()).rejects.toThrow('Injected health check failure');
+
+      provider.heal();
+      await expect(provider.healthCheck()).resolves.toBeUndefined();
+    });
+  });
+
+  it('should read bucket rows as a series', async () => {
+    const hour = 3_600_000;
+    await provider.flush(new Map([[bucketKey('views', 'hour', hour), 4], [bucketKey('views', 'day', 0), 5]]));
+
+    const series = await provider.getSeries('views', new Date(0), new Date(2 * hour), 'hour');
+    expect(series).toEqual([{ start: new Date(0), value: 0 }, { start: new Date(hour), value: 4 }]);
+  });
+
+  it('should delete a scope with its watermark', async () => {
+    await provider.flush(new Map([['a', 1]]), { watermarks: new Map([['a', '1-0']]) });
+    await provider.delete('a');
+
+    expect(await provider.get('a')).toBe(0);
+    expect(await provider.getWatermarks(['a'])).toEqual(new Map());
+  });
+});
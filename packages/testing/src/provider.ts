@@ -0,0 +1,193 @@
+import { compareStreamIds } from '@counter-bridge/core';
+import { bucketRange, parseBucketKey } from '@counter-bridge/types';
+import type {
+  ICounterProvider,
+  CounterOp,
+  FlushResult,
+  FlushContext,
+  Granularity,
+  ScopeMetadata,
+  SeriesPoint,
+} from '@counter-bridge/types';
+
+export interface InMemoryProviderConfig {
+  /** Operations to advertise besides 'add'. Default: ['add', 'set', 'max', 'min'] */
+  operations?: readonly CounterOp[];
+  /**
+   * Delay every flush by this long, on the global `setTimeout` (so a
+   * `FakeClock` controls it). Default: 0 (flushes resolve immediately).
+   */
+  flushLatencyMs?: number;
+}
+
+/** A flush the provider received, with the outcome it reported. */
+export interface RecordedFlush {
+  batch: Map<string, number>;
+  context?: FlushContext;
+  /** What the flush returned, or the error it rejected with. */
+  result: FlushResult | void | Error;
+}
+
+/**
+ * In-memory ICounterProvider for tests, with failure injection.
+ *
+ * Applies the full `min(max(value + delta, floor), ceiling)` update,
+ * honours stream watermarks (skipping scopes already applied at or past
+ * them), keeps the latest metadata per scope and serves time-bucket rows
+ * through `getSeries`, so it can stand in for any of the real providers.
+ * Every flush is recorded in `flushes`.
+ *
+ * Failures are injected with `failNextFlush` (the whole flush rejects),
+ * `failScopes` (those scopes are reported as failed, the rest apply) and
+ * `failHealthCheck`; `heal` clears them all.
+ */
+export class InMemoryProvider implements ICounterProvider {
+  readonly operations: readonly CounterOp[];
+  /** Every flush call, oldest first. */
+  readonly flushes: RecordedFlush[] = [];
+  initialized = false;
+  closed = false;
+
+  private readonly values = new Map<string, number>();
+  private readonly watermarks = new Map<string, string>();
+  private readonly metadata = new Map<string, ScopeMetadata>();
+  private readonly flushLatencyMs: number;
+  private readonly flushFailures: Error[] = [];
+  private readonly failingScopes = new Set<string>();
+  private healthFailure: Error | null = null;
+
+  constructor(config: InMemoryProviderConfig = {}) {
+    this.operations = config.operations ?? ['add', 'set', 'max', 'min'];
+    this.flushLatencyMs = config.flushLatencyMs ?? 0;
+  }
+
+  /** Make the next `times` flushes reject with `error`. */
+  failNextFlush(error = new Error('Injected flush failure'), times = 1): void {
+    for (let i = 0; i < times; i++) this.flushFailures.push(error);
+  }
+
+  /** Report these scopes as failed on every flush until `heal` is called. */
+  failScopes(...scopes: string[]): void {
+    for (const scope of scopes) this.failingScopes.add(scope);
+  }
+
+  /** Make `healthCheck` reject with `error` until `heal` is called. */
+  failHealthCheck(error = new Error('Injected health check failure')): void {
+    this.healthFailure = error;
+  }
+
+  /** Clear all injected failures. */
+  heal(): void {
+    this.flushFailures.length = 0;
+    this.failingScopes.clear();
+    this.healthFailure = null;
+  }
+
+  /** Every stored scope and its value. */
+  snapshot(): Map<string, number> {
+    return new Map(this.values);
+  }
+
+  /** The latest metadata stored for a scope. */
+  getMetadata(scope: string): ScopeMetadata | undefined {
+    return this.metadata.get(scope);
+  }
+
+  async flush(batch: Map<string, number>, context?: FlushContext): Promise<FlushResult | void> {
+    const recorded: RecordedFlush = { batch: new Map(batch), context, result: undefined };
+    this.flushes.push(recorded);
+
+    if (this.flushLatencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.flushLatencyMs));
+    }
+
+    const injected = this.flushFailures.shift();
+    if (injected) {
+      recorded.result = injected;
+      throw injected;
+    }
+
+    const failed = new Map<string, number>();
+    const skipped = new Map<string, number>();
+    for (const [scope, delta] of batch) {
+      if (this.failingScopes.has(scope)) {
+        failed.set(scope, delta);
+        continue;
+      }
+
+      const watermark = context?.watermarks?.get(scope);
+      const stored = this.watermarks.get(scope);
+      if (watermark && stored && compareStreamIds(stored, watermark) >= 0) {
+        skipped.set(scope, delta);
+        continue;
+      }
+
+      const update = context?.updates?.get(scope);
+      const value = (this.values.get(scope) ?? 0) + delta;
+      this.values.set(scope, Math.min(Math.max(value, update?.floor ?? -Infinity), update?.ceiling ?? Infinity));
+      if (watermark) this.watermarks.set(scope, watermark);
+      const metadata = context?.metadata?.get(scope);
+      if (metadata) this.metadata.set(scope, metadata);
+    }
+
+    if (failed.size > 0 && failed.size === batch.size) {
+      const error = new Error(`Injected failure for ${failed.size} scopes`);
+      recorded.result = error;
+      throw error;
+    }
+
+    const result: FlushResult = {};
+    if (failed.size > 0) result.failed = failed;
+    if (skipped.size > 0) result.skipped = skipped;
+    recorded.result = result.failed || result.skipped ? result : undefined;
+    return recorded.result;
+  }
+
+  async get(scope: string): Promise<number> {
+    return this.values.get(scope) ?? 0;
+  }
+
+  async getBatch(scopes: string[]): Promise<Map<string, number>> {
+    return new Map(scopes.map((scope) => [scope, this.values.get(scope) ?? 0]));
+  }
+
+  async getWatermarks(scopes: string[]): Promise<Map<string, string>> {
+    const result = new Map<string, string>();
+    for (const scope of scopes) {
+      const watermark = this.watermarks.get(scope);
+      if (watermark) result.set(scope, watermark);
+    }
+    return result;
+  }
+
+  async getSeries(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]> {
+    const values = new Map<number, number>();
+    for (const [key, value] of this.values) {
+      const bucket = parseBucketKey(key);
+      if (bucket?.scope === scope && bucket.granularity === granularity) values.set(bucket.start, value);
+    }
+
+    return bucketRange(from.getTime(), to.getTime(), granularity).map((start) => ({
+      start: new Date(start),
+      value: values.get(start) ?? 0,
+    }));
+  }
+
+  async delete(scope: string): Promise<void> {
+    this.values.delete(scope);
+    this.watermarks.delete(scope);
+    this.metadata.delete(scope);
+  }
+
+  async healthCheck(): Promise<void> {
+    if (this.healthFailure) throw this.healthFailure;
+  }
+
+  async initialize(): Promise<void> {
+    this.initialized = true;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
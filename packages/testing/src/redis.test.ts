@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { RELEASE_PENDING_SCRIPT } from '@counter-bridge/types';
+import { FakeClock } from './clock';
+import { InMemoryRedis } from './redis';
+
+describe('InMemoryRedis', () => {
+  let clock: FakeClock;
+  let redis: InMemoryRedis;
+
+  beforeEach(() => {
+    clock = new FakeClock(1_000).install();
+    redis = new InMemoryRedis();
+  });
+
+  afterEach(() => {
+    clock.uninstall();
+  });
+
+  describe('XADD', () => {
+    it('should generate increasing IDs from the clock', async () => {
+      expect(await redis.xadd('s', '*', 'a', '1')).toBe('1000-0');
+      expect(await redis.xadd('s', '*', 'a', '2')).toBe('1000-1');
+      await clock.advance(5);
+      expect(await redis.xadd('s', '*', 'a', '3')).toBe('1005-0');
+    });
+
+    it('should reject explicit IDs at or below the top entry', async () => {
+      await redis.xadd('s', '10-1', 'a', '1');
+      await expect(redis.xadd('s', '10-1', 'a', '1')).rejects.toThrow('equal or smaller');
+      expect(await redis.xadd('s', '10-*', 'a', '1')).toBe('10-2');
+    });
+
+    it('should trim to MAXLEN', async () => {
+      for (let i = 0; i < 5; i++) await redis.xadd('s', 'MAXLEN', '~', 3, '*', 'i', i);
+
+      expect(await redis.xlen('s')).toBe(3);
+      expect((await redis.xrange('s', '-', '+')).map(([, fields]) => fields[1])).toEqual(['2', '3', '4']);
+    });
+  });
+
+  describe('consumer groups', () => {
+    beforeEach(async () => {
+      await redis.xgroup('CREATE', 's', 'g', '0', 'MKSTREAM');
+    });
+
+    it('should refuse to create a group twice', async () => {
+      await expect(redis.xgroup('CREATE', 's', 'g', '0', 'MKSTREAM')).rejects.toThrow('BUSYGROUP');
+    });
+
+    it('should deliver new entries once and track them as pending', async () => {
+      const first = (await redis.xadd('s', '*', 'a', '1'))!;
+      const second = (await redis.xadd('s', '*', 'a', '2'))!;
+
+      expect(await redis.xreadgroup('GROUP', 'g', 'c1', 'COUNT', 1, 'STREAMS', 's', '>')).toEqual([
+        ['s', [[first, ['a', '1']]]],
+      ]);
+      expect(await redis.xreadgroup('GROUP', 'g', 'c2', 'STREAMS', 's', '>')).toEqual([
+        ['s', [[second, ['a', '2']]]],
+      ]);
+      expect(await redis.xreadgroup('GROUP', 'g', 'c2', 'STREAMS', 's', '>')).toBeNull();
+
+      expect(await redis.xpending('s', 'g')).toEqual([2, first, second, [['c1', '1'], ['c2', '1']]]);
+      expect(await redis.xack('s', 'g', first, second, '9-9')).toBe(2);
+      expect(await redis.xpending('s', 'g')).toEqual([0, null, null, null]);
+    });
+
+    it("should replay a consumer's pending history and count redeliveries", async () => {
+      const id = await redis.xadd('s', '*', 'a', '1');
+      await redis.xreadgroup('GROUP', 'g', 'c1', 'STREAMS', 's', '>');
+      await clock.advance(100);
+
+      expect(await redis.xreadgroup('GROUP', 'g', 'c1', 'STREAMS', 's', '0')).toEqual([['s', [[id, ['a', '1']]]]]);
+      expect(await redis.xreadgroup('GROUP', 'g', 'c2', 'STREAMS', 's', '0')).toEqual([['s', []]]);
+      expect(await redis.xpending('s', 'g', '-', '+', 10)).toEqual([[id, 'c1', 0, 2]]);
+    });
+
+    it('should block until an entry arrives from another connection', async () => {
+      const reading = redis.xreadgroup('GROUP', 'g', 'c1', 'BLOCK', 1_000, 'STREAMS', 's', '>');
+      await clock.advance(500);
+
+      const id = await redis.duplicate().xadd('s', '*', 'a', '1');
+      expect(await reading).toEqual([['s', [[id, ['a', '1']]]]]);
+    });
+
+    it('should return null when a block times out or the connection quits', async () => {
+      const timedOut = redis.xreadgroup('GROUP', 'g', 'c1', 'BLOCK', 1_000, 'STREAMS', 's', '>');
+      await clock.advance(1_000);
+      expect(await timedOut).toBeNull();
+
+      const quitting = redis.xreadgroup('GROUP', 'g', 'c1', 'BLOCK', 0, 'STREAMS', 's', '>');
+      await redis.quit();
+      expect(await quitting).toBeNull();
+      await expect(redis.ping()).rejects.toThrow('Connection is closed.');
+    });
+
+    it('should claim idle entries and report deleted ones', async () => {
+      const kept = (await redis.xadd('s', '*', 'a', '1'))!;
+      const deleted = (await redis.xadd('s', '*', 'a', '2'))!;
+      await redis.xreadgroup('GROUP', 'g', 'c1', 'STREAMS', 's', '>');
+      await redis.xdel('s', deleted);
+
+      expect(await redis.xpending('s', 'g', 'IDLE', 60_000, '-', '+', 10)).toEqual([]);
+      await clock.advance(60_000);
+      expect(await redis.xpending('s', 'g', 'IDLE', 60_000, '-', '+', 10)).toHaveLength(2);
+
+      expect(await redis.xautoclaim('s', 'g', 'c2', 60_000, '0-0', 'COUNT', 10)).toEqual([
+        '0-0', [[kept, ['a', '1']]], [deleted],
+      ]);
+      expect(await redis.xpending('s', 'g', '-', '+', 10)).toEqual([[kept, 'c2', 0, 2]]);
+    });
+
+    it('should claim explicit idle IDs and drop deleted ones from the PEL', async () => {
+      const kept = (await redis.xadd('s', '*', 'a', '1'))!;
+      const deleted = (await redis.xadd('s', '*', 'a', '2'))!;
+      const fresh = (await redis.xadd('s', '*', 'a', '3'))!;
+      await redis.xreadgroup('GROUP', 'g', 'c1', 'COUNT', 2, 'STREAMS', 's', '>');
+      await redis.xdel('s', deleted);
+      await clock.advance(60_000);
+      await redis.xreadgroup('GROUP', 'g', 'c1', 'STREAMS', 's', '>');
+
+      expect(await redis.xclaim('s', 'g', 'c2', 60_000, kept, deleted, fresh)).toEqual([[kept, ['a', '1']]]);
+      expect(await redis.xpending('s', 'g', '-', '+', 10)).toEqual([[kept, 'c2', 0, 2], [fresh, 'c1', 0, 1]]);
+    });
+
+    it('should report group lag and stream length', async () => {
+      await redis.xadd('s', '*', 'a', '1');
+      await redis.xadd('s', '*', 'a', '2');
+      await redis.xreadgroup('GROUP', 'g', 'c1', 'COUNT', 1, 'STREAMS', 's', '>');
+
+      const [group] = await redis.xinfo('GROUPS', 's') as unknown[][];
+      expect(group).toEqual([
+        'name', 'g', 'consumers', 1, 'pending', 1, 'last-delivered-id', '1000-0', 'entries-read', 1, 'lag', 1,
+      ]);
+      expect((await redis.xinfo('STREAM', 's') as unknown[]).slice(0, 2)).toEqual(['length', 2]);
+    });
+  });
+
+  describe('transactions and scripts', () => {
+    it('should run MULTI commands together and report per-command errors', async () => {
+      await redis.hset('h', 'x', '1');
+      redis.failNext('hincrbyfloat');
+
+      const replies = await redis.multi().xadd('s', '*', 'a', '1').hincrbyfloat('h', 'x', 2).hget('h', 'x').exec();
+
+      expect(replies).toEqual([[null, '1000-0'], [new Error('Injected HINCRBYFLOAT failure'), null], [null, '1']]);
+    });
+
+    it('should run the pending-delta release script', async () => {
+      await redis.hset('{s}:pending', 'a', '3', 'b', '1');
+
+      await redis.eval(RELEASE_PENDING_SCRIPT, 1, '{s}:pending', 'a', '-3', 'b', '-0.5', 'c', '-2');
+
+      expect(await redis.hgetall('{s}:pending')).toEqual({ b: '0.5' });
+    });
+
+    it('should expire keys once their PEXPIRE deadline passes', async () => {
+      await redis.hset('h', 'x', '1');
+      expect(await redis.pexpire('h', 100)).toBe(1);
+      expect(await redis.pexpire('missing', 100)).toBe(0);
+      expect(await redis.pttl('h')).toBe(100);
+
+      await clock.advance(100);
+      expect(await redis.exists('h')).toBe(0);
+      expect(await redis.pttl('h')).toBe(-2);
+    });
+
+    it('should reject scripts it has no handler for', async () => {
+      await expect(redis.eval('return 1', 0)).rejects.toThrow('defineScript');
+
+      redis.defineScript('return 1', () => 1);
+      expect(await redis.eval('return 1', 0)).toBe(1);
+    });
+  });
+
+  it('should refuse commands against a key of another type', async () => {
+    await redis.hset('k', 'f', '1');
+    await expect(redis.xadd('k', '*', 'a', '1')).rejects.toThrow('WRONGTYPE');
+  });
+});
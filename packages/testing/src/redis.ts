@@ -0,0 +1,874 @@
+import { compareStreamIds } from '@counter-bridge/core';
+import { RELEASE_PENDING_SCRIPT } from '@counter-bridge/types';
+
+type Arg = string | number;
+
+/** A stream entry as Redis replies with it: `[id, [field, value, ...]]`. */
+export type StreamEntryReply = [string, string[]];
+
+/**
+ * JavaScript stand-in for a Lua script run by `EVAL`. Runs atomically
+ * against the store; `redis` executes commands like `redis.call` does.
+ */
+export type ScriptHandler = (
+  redis: (command: string, ...args: Arg[]) => unknown,
+  keys: string[],
+  args: string[],
+) => unknown;
+
+interface Entry {
+  id: string;
+  fields: string[];
+}
+
+interface PendingEntry {
+  consumer: string;
+  deliveredAt: number;
+  deliveries: number;
+}
+
+interface Group {
+  lastDeliveredId: string;
+  entriesRead: number | null;
+  pending: Map<string, PendingEntry>;
+  consumers: Map<string, number>;
+}
+
+interface Stream {
+  entries: Entry[];
+  lastId: string;
+  entriesAdded: number;
+  groups: Map<string, Group>;
+}
+
+interface BlockedRead {
+  keys: string[];
+  connection: InMemoryRedis;
+  attempt(): [string, StreamEntryReply[]][] | null;
+  resolve(result: [string, StreamEntryReply[]][] | null): void;
+  reject(err: unknown): void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** Data shared by an `InMemoryRedis` and the connections it `duplicate`s. */
+interface Store {
+  streams: Map<string, Stream>;
+  hashes: Map<string, Map<string, string>>;
+  /** Deadlines (epoch ms) set by PEXPIRE, checked before every command */
+  expiries: Map<string, number>;
+  scripts: Map<string, ScriptHandler>;
+  blocked: Set<BlockedRead>;
+}
+
+/** Commands queued on a MULTI or pipeline, chainable like ioredis' `ChainableCommander`. */
+export type InMemoryTransaction = {
+  [Command in CommandName]: (...args: Arg[]) => InMemoryTransaction;
+} & {
+  /** Run the queued commands back to back. Each reply is `[error, result]`. */
+  exec(): Promise<[Error | null, unknown][]>;
+};
+
+type CommandName = typeof COMMAND_NAMES[number];
+
+const COMMAND_NAMES = [
+  'xadd', 'xgroup', 'xreadgroup', 'xack', 'xpending', 'xclaim', 'xautoclaim', 'xinfo',
+  'xrange', 'xrevrange', 'xlen', 'xdel', 'xtrim', 'del', 'exists', 'pexpire', 'pttl',
+  'hget', 'hmget', 'hset', 'hgetall', 'hexists', 'hincrbyfloat', 'hdel', 'eval', 'ping',
+] as const;
+
+const MAX_SEQ = Number.MAX_SAFE_INTEGER;
+
+/**
+ * In-memory Redis stand-in covering the stream, hash and transaction
+ * commands CounterBridge and CounterClient use, with Redis 7 semantics:
+ *
+ * - XADD with `*` or explicit IDs, MAXLEN/MINID trimming (always exact)
+ * - Consumer groups: XGROUP CREATE/DESTROY, XREADGROUP with COUNT, BLOCK
+ *   and NOACK, reading new entries (`>`) or a consumer's pending history
+ * - The pending entries list: XACK, XPENDING (summary and range forms,
+ *   with IDLE), XCLAIM, XAUTOCLAIM and delivery counts
+ * - XINFO GROUPS/STREAM/CONSUMERS, XRANGE, XREVRANGE, XLEN, XDEL, XTRIM
+ * - Hashes, and key expiry with PEXPIRE/PTTL against `Date.now()`
+ * - MULTI/EXEC, run atomically, and pipelines
+ * - EVAL for scripts registered with `defineScript`; the bridge's
+ *   pending-delta release script is registered by default
+ *
+ * Pass it wherever an ioredis instance is accepted. Commands run
+ * synchronously behind a resolved promise, and BLOCK waits on the global
+ * `setTimeout`, so a blocked read is woken by an XADD from any connection
+ * sharing the store, or times out when a `FakeClock` is advanced.
+ *
+ * `failNext` makes the next call of a command reject, for testing how
+ * callers handle Redis errors.
+ */
+export class InMemoryRedis {
+  private store: Store = {
+    streams: new Map(),
+    hashes: new Map(),
+    expiries: new Map(),
+    scripts: new Map([[RELEASE_PENDING_SCRIPT, releasePending]]),
+    blocked: new Set(),
+  };
+  private readonly failures = new Map<string, Error[]>();
+  private closed = false;
+
+  /** ioredis-style connection status. */
+  get status(): 'ready' | 'end' {
+    return this.closed ? 'end' : 'ready';
+  }
+
+  /** A new connection to the same data, e.g. one per bridge in a multi-consumer test. */
+  duplicate(): InMemoryRedis {
+    const connection = new InMemoryRedis();
+    connection.store = this.store;
+    return connection;
+  }
+
+  /** Give `EVAL` a JavaScript implementation of a Lua script. */
+  defineScript(source: string, handler: ScriptHandler): void {
+    this.store.scripts.set(source, handler);
+  }
+
+  /** Reject the next call of `command` (also when queued in a MULTI). */
+  failNext(command: CommandName, error = new Error(`Injected ${command.toUpperCase()} failure`)): void {
+    this.failures.set(command, [...(this.failures.get(command) ?? []), error]);
+  }
+
+  // ─── Streams ─────────────────────────────────────────────────────────────
+
+  async xadd(key: string, ...args: Arg[]): Promise<string | null> {
+    return this.call<string | null>('xadd', [key, ...args]);
+  }
+
+  async xgroup(subcommand: string, ...args: Arg[]): Promise<unknown> {
+    return this.call('xgroup', [subcommand, ...args]);
+  }
+
+  /** XREADGROUP, blocking when asked to and nothing new is available. */
+  async xreadgroup(...args: Arg[]): Promise<[string, StreamEntryReply[]][] | null> {
+    this.checkConnection('xreadgroup');
+    const read = parseReadGroup(args.map(String));
+    const attempt = () => this.readGroup(read);
+
+    const result = attempt();
+    if (result || read.block === undefined || read.ids.some((id) => id !== '>')) return result;
+
+    return new Promise((resolve, reject) => {
+      const settle = () => {
+        this.store.blocked.delete(blocked);
+        if (blocked.timer) clearTimeout(blocked.timer);
+      };
+      const blocked: BlockedRead = {
+        keys: read.keys,
+        connection: this,
+        attempt,
+        resolve: (value) => {
+          settle();
+          resolve(value);
+        },
+        reject: (err) => {
+          settle();
+          reject(err);
+        },
+      };
+      if (read.block! > 0) blocked.timer = setTimeout(() => blocked.resolve(null), read.block);
+      this.store.blocked.add(blocked);
+    });
+  }
+
+  async xack(key: string, group: string, ...ids: Arg[]): Promise<number> {
+    return this.call<number>('xack', [key, group, ...ids]);
+  }
+
+  async xpending(key: string, group: string, ...args: Arg[]): Promise<unknown> {
+    return this.call('xpending', [key, group, ...args]);
+  }
+
+  async xclaim(key: string, group: string, consumer: string, minIdle: Arg, ...args: Arg[]): Promise<unknown> {
+    return this.call('xclaim', [key, group, consumer, minIdle, ...args]);
+  }
+
+  async xautoclaim(key: string, group: string, consumer: string, ...args: Arg[]): Promise<unknown> {
+    return this.call('xautoclaim', [key, group, consumer, ...args]);
+  }
+
+  async xinfo(subcommand: string, ...args: Arg[]): Promise<unknown> {
+    return this.call('xinfo', [subcommand, ...args]);
+  }
+
+  async xrange(key: string, start: Arg, end: Arg, ...args: Arg[]): Promise<StreamEntryReply[]> {
+    return this.call<StreamEntryReply[]>('xrange', [key, start, end, ...args]);
+  }
+
+  async xrevrange(key: string, end: Arg, start: Arg, ...args: Arg[]): Promise<StreamEntryReply[]> {
+    return this.call<StreamEntryReply[]>('xrevrange', [key, end, start, ...args]);
+  }
+
+  async xlen(key: string): Promise<number> {
+    return this.call<number>('xlen', [key]);
+  }
+
+  async xdel(key: string, ...ids: Arg[]): Promise<number> {
+    return this.call<number>('xdel', [key, ...ids]);
+  }
+
+  async xtrim(key: string, ...args: Arg[]): Promise<number> {
+    return this.call<number>('xtrim', [key, ...args]);
+  }
+
+  // ─── Keys and hashes ─────────────────────────────────────────────────────
+
+  async del(...keys: string[]): Promise<number> {
+    return this.call<number>('del', keys);
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    return this.call<number>('exists', keys);
+  }
+
+  async pexpire(key: string, ms: Arg): Promise<number> {
+    return this.call<number>('pexpire', [key, ms]);
+  }
+
+  async pttl(key: string): Promise<number> {
+    return this.call<number>('pttl', [key]);
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.call<string | null>('hget', [key, field]);
+  }
+
+  async hmget(key: string, ...fields: string[]): Promise<(string | null)[]> {
+    return this.call<(string | null)[]>('hmget', [key, ...fields]);
+  }
+
+  async hset(key: string, ...args: Arg[]): Promise<number> {
+    return this.call<number>('hset', [key, ...args]);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.call<Record<string, string>>('hgetall', [key]);
+  }
+
+  async hexists(key: string, field: string): Promise<number> {
+    return this.call<number>('hexists', [key, field]);
+  }
+
+  async hincrbyfloat(key: string, field: string, increment: Arg): Promise<string> {
+    return this.call<string>('hincrbyfloat', [key, field, increment]);
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<number> {
+    return this.call<number>('hdel', [key, ...fields]);
+  }
+
+  // ─── Scripts, transactions and connection ────────────────────────────────
+
+  async eval(script: string, numKeys: Arg, ...args: Arg[]): Promise<unknown> {
+    return this.call('eval', [script, numKeys, ...args]);
+  }
+
+  /**
+   * A pipeline. Commands run back to back without interleaving, exactly
+   * like `multi`, since nothing else can run between them here.
+   */
+  pipeline(): InMemoryTransaction {
+    return this.multi();
+  }
+
+  multi(): InMemoryTransaction {
+    const queued: [CommandName, Arg[]][] = [];
+    const tx: InMemoryTransaction = new Proxy({} as InMemoryTransaction, {
+      get: (_, name) => {
+        if (name === 'exec') return () => this.execTransaction(queued);
+        if (!COMMAND_NAMES.includes(name as CommandName)) return undefined;
+        return (...args: Arg[]) => {
+          queued.push([name as CommandName, args]);
+          return tx;
+        };
+      },
+    });
+    return tx;
+  }
+
+  async ping(): Promise<string> {
+    return this.call<string>('ping', []);
+  }
+
+  /** Close the connection. Its blocked reads return null, as if they timed out. */
+  async quit(): Promise<'OK'> {
+    this.disconnect();
+    return 'OK';
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    for (const blocked of this.store.blocked) {
+      if (blocked.connection === this) blocked.resolve(null);
+    }
+  }
+
+  // ─── Internal ────────────────────────────────────────────────────────────
+
+  private async call<T = unknown>(command: CommandName, args: Arg[]): Promise<T> {
+    this.checkConnection(command);
+    const result = this.run(command, args.map(String));
+    if (command === 'xadd' || command === 'eval') this.wakeBlocked();
+    return result as T;
+  }
+
+  private checkConnection(command: CommandName): void {
+    if (this.closed) throw new Error('Connection is closed.');
+    const injected = this.failures.get(command)?.shift();
+    if (injected) throw injected;
+  }
+
+  private async execTransaction(queued: [CommandName, Arg[]][]): Promise<[Error | null, unknown][]> {
+    if (this.closed) throw new Error('Connection is closed.');
+
+    const replies: [Error | null, unknown][] = queued.map(([command, args]) => {
+      try {
+        this.checkConnection(command);
+        return [null, this.run(command, args.map(String))];
+      } catch (err) {
+        return [err as Error, null];
+      }
+    });
+    this.wakeBlocked();
+    return replies;
+  }
+
+  /** Retry blocked reads after a write; those that now have entries return them. */
+  private wakeBlocked(): void {
+    for (const blocked of this.store.blocked) {
+      try {
+        const result = blocked.attempt();
+        if (result) blocked.resolve(result);
+      } catch (err) {
+        // e.g. the group was destroyed while the read was blocked
+        blocked.reject(err);
+      }
+    }
+  }
+
+  private run(command: string, args: string[]): unknown {
+    this.expireKeys();
+    switch (command.toLowerCase()) {
+      case 'xadd': return this.xaddSync(args);
+      case 'xgroup': return this.xgroupSync(args);
+      case 'xreadgroup': return this.readGroup(parseReadGroup(args));
+      case 'xack': return this.xackSync(args);
+      case 'xpending': return this.xpendingSync(args);
+      case 'xclaim': return this.xclaimSync(args);
+      case 'xautoclaim': return this.xautoclaimSync(args);
+      case 'xinfo': return this.xinfoSync(args);
+      case 'xrange': return this.rangeSync(args[0], args[1], args[2], args.slice(3), false);
+      case 'xrevrange': return this.rangeSync(args[0], args[2], args[1], args.slice(3), true);
+      case 'xlen': return this.streamFor(args[0])?.entries.length ?? 0;
+      case 'xdel': return this.xdelSync(args);
+      case 'xtrim': return this.trim(this.streamFor(args[0]), args.slice(1)).trimmed;
+      case 'del': return this.delSync(args);
+      case 'exists': return args.filter((key) => this.store.streams.has(key) || this.store.hashes.has(key)).length;
+      case 'pexpire': return this.pexpireSync(args);
+      case 'pttl': return this.pttlSync(args[0]);
+      case 'hget': return this.hashFor(args[0])?.get(args[1]) ?? null;
+      case 'hmget': return args.slice(1).map((field) => this.hashFor(args[0])?.get(field) ?? null);
+      case 'hset': return this.hsetSync(args);
+      case 'hgetall': return Object.fromEntries(this.hashFor(args[0]) ?? []);
+      case 'hexists': return this.hashFor(args[0])?.has(args[1]) ? 1 : 0;
+      case 'hincrbyfloat': return this.hincrbyfloatSync(args);
+      case 'hdel': return this.hdelSync(args);
+      case 'eval': return this.evalSync(args);
+      case 'ping': return 'PONG';
+      default: throw new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
+  private xaddSync(args: string[]): string | null {
+    const [key, ...rest] = args;
+    let i = 0;
+    let noMkStream = false;
+    const trimArgs: string[] = [];
+    for (; i < rest.length; i++) {
+      const option = rest[i].toUpperCase();
+      if (option === 'NOMKSTREAM') {
+        noMkStream = true;
+      } else if (option === 'MAXLEN' || option === 'MINID') {
+        const end = i + (rest[i + 1] === '~' || rest[i + 1] === '=' ? 3 : 2);
+        const limit = rest[end]?.toUpperCase() === 'LIMIT' ? 2 : 0;
+        trimArgs.push(...rest.slice(i, end + limit));
+        i = end + limit - 1;
+      } else {
+        break;
+      }
+    }
+    const fields = rest.slice(i + 1);
+    if (fields.length === 0 || fields.length % 2 !== 0) {
+      throw new Error("ERR wrong number of arguments for 'xadd' command");
+    }
+
+    let stream = this.streamFor(key);
+    if (!stream) {
+      if (noMkStream) return null;
+      stream = this.createStream(key);
+    }
+
+    const id = nextId(stream.lastId, rest[i]);
+    stream.entries.push({ id, fields });
+    stream.lastId = id;
+    stream.entriesAdded++;
+    if (trimArgs.length > 0) this.trim(stream, trimArgs);
+    return id;
+  }
+
+  private trim(stream: Stream | undefined, args: string[]): { trimmed: number } {
+    if (!stream) return { trimmed: 0 };
+    const strategy = args[0].toUpperCase();
+    const threshold = args[args[1] === '~' || args[1] === '=' ? 2 : 1];
+    const before = stream.entries.length;
+
+    if (strategy === 'MAXLEN') {
+      stream.entries.splice(0, Math.max(0, before - Number(threshold)));
+    } else if (strategy === 'MINID') {
+      stream.entries = stream.entries.filter((entry) => compareStreamIds(entry.id, threshold) >= 0);
+    } else {
+      throw new Error('ERR syntax error');
+    }
+    return { trimmed: before - stream.entries.length };
+  }
+
+  private xgroupSync(args: string[]): unknown {
+    const [subcommand, key, name, id, ...options] = args;
+    switch (subcommand.toUpperCase()) {
+      case 'CREATE': {
+        let stream = this.streamFor(key);
+        if (!stream) {
+          if (!options.some((option) => option.toUpperCase() === 'MKSTREAM')) {
+            throw new Error('ERR The XGROUP subcommand requires the key to exist. Note that for CREATE you may want to use the MKSTREAM option to create an empty stream automatically.');
+          }
+          stream = this.createStream(key);
+        }
+        if (stream.groups.has(name)) {
+          throw new Error('BUSYGROUP Consumer Group name already exists');
+        }
+        const lastDeliveredId = id === '$' ? stream.lastId : normalizeId(id, 0);
+        stream.groups.set(name, {
+          lastDeliveredId,
+          entriesRead: lastDeliveredId === '0-0' ? 0 : id === '$' ? stream.entriesAdded : null,
+          pending: new Map(),
+          consumers: new Map(),
+        });
+        return 'OK';
+      }
+      case 'DESTROY':
+        return this.streamFor(key)?.groups.delete(name) ? 1 : 0;
+      default:
+        throw new Error(`ERR unknown subcommand '${subcommand}'`);
+    }
+  }
+
+  private readGroup(read: ReadGroupArgs): [string, StreamEntryReply[]][] | null {
+    const results: [string, StreamEntryReply[]][] = [];
+
+    read.keys.forEach((key, i) => {
+      const stream = this.streamFor(key);
+      const group = stream?.groups.get(read.group);
+      if (!stream || !group) {
+        throw new Error(`NOGROUP No such key '${key}' or consumer group '${read.group}' in XREADGROUP with GROUP option`);
+      }
+      group.consumers.set(read.consumer, Date.now());
+
+      if (read.ids[i] !== '>') {
+        // History: this consumer's pending entries after the given ID
+        const history = sortedPending(group)
+          .filter(([id, entry]) => entry.consumer === read.consumer && compareStreamIds(id, read.ids[i]) > 0)
+          .slice(0, read.count);
+        results.push([key, history.map(([id, entry]) => {
+          entry.deliveries++;
+          entry.deliveredAt = Date.now();
+          // Entries deleted since delivery come back with null fields
+          return [id, findEntry(stream, id)?.fields ?? null] as StreamEntryReply;
+        })]);
+        return;
+      }
+
+      const fresh = stream.entries
+        .filter((entry) => compareStreamIds(entry.id, group.lastDeliveredId) > 0)
+        .slice(0, read.count);
+      if (fresh.length === 0) return;
+
+      group.lastDeliveredId = fresh[fresh.length - 1].id;
+      if (group.entriesRead !== null) group.entriesRead += fresh.length;
+      if (!read.noAck) {
+        for (const entry of fresh) {
+          group.pending.set(entry.id, { consumer: read.consumer, deliveredAt: Date.now(), deliveries: 1 });
+        }
+      }
+      results.push([key, fresh.map((entry) => [entry.id, [...entry.fields]])]);
+    });
+
+    return results.length > 0 ? results : null;
+  }
+
+  private xackSync(args: string[]): number {
+    const [key, groupName, ...ids] = args;
+    const group = this.streamFor(key)?.groups.get(groupName);
+    if (!group) return 0;
+    return ids.filter((id) => group.pending.delete(id)).length;
+  }
+
+  private xpendingSync(args: string[]): unknown {
+    const [key, groupName, ...rest] = args;
+    const group = this.requireGroup(key, groupName, 'XPENDING');
+
+    if (rest.length === 0) {
+      const pending = sortedPending(group);
+      if (pending.length === 0) return [0, null, null, null];
+
+      const perConsumer = new Map<string, number>();
+      for (const [, entry] of pending) perConsumer.set(entry.consumer, (perConsumer.get(entry.consumer) ?? 0) + 1);
+      return [
+        pending.length,
+        pending[0][0],
+        pending[pending.length - 1][0],
+        [...perConsumer].map(([consumer, count]) => [consumer, String(count)]),
+      ];
+    }
+
+    const minIdle = rest[0].toUpperCase() === 'IDLE' ? Number(rest[1]) : 0;
+    const [start, end, count, consumer] = rest[0].toUpperCase() === 'IDLE' ? rest.slice(2) : rest;
+    const now = Date.now();
+    return sortedPending(group)
+      .filter(([id, entry]) => inRange(id, start, end)
+        && now - entry.deliveredAt >= minIdle
+        && (consumer === undefined || entry.consumer === consumer))
+      .slice(0, Number(count))
+      .map(([id, entry]) => [id, entry.consumer, now - entry.deliveredAt, entry.deliveries]);
+  }
+
+  /** XCLAIM of explicit IDs; only JUSTID among the options is supported. */
+  private xclaimSync(args: string[]): unknown {
+    const [key, groupName, consumer, minIdle, ...rest] = args;
+    const stream = this.streamFor(key);
+    const group = this.requireGroup(key, groupName, 'XCLAIM');
+    const ids = rest.filter((arg) => /^\d+-\d+$/.test(arg));
+    const justId = rest.some((option) => option.toUpperCase() === 'JUSTID');
+
+    const now = Date.now();
+    const claimed: (StreamEntryReply | string)[] = [];
+    for (const id of ids) {
+      const entry = group.pending.get(id);
+      if (!entry || now - entry.deliveredAt < Number(minIdle)) continue;
+
+      // Redis 7: entries deleted from the stream leave the PEL and are not returned
+      const found = stream && findEntry(stream, id);
+      if (!found) {
+        group.pending.delete(id);
+        continue;
+      }
+      entry.consumer = consumer;
+      entry.deliveredAt = now;
+      if (!justId) entry.deliveries++;
+      claimed.push(justId ? id : [id, [...found.fields]]);
+    }
+    group.consumers.set(consumer, now);
+    return claimed;
+  }
+
+  private xautoclaimSync(args: string[]): unknown {
+    const [key, groupName, consumer, minIdle, start, ...options] = args;
+    const stream = this.streamFor(key);
+    const group = this.requireGroup(key, groupName, 'XAUTOCLAIM');
+    const countAt = options.findIndex((option) => option.toUpperCase() === 'COUNT');
+    const count = countAt >= 0 ? Number(options[countAt + 1]) : 100;
+    const justId = options.some((option) => option.toUpperCase() === 'JUSTID');
+
+    const now = Date.now();
+    const candidates = sortedPending(group).filter(([id]) => compareStreamIds(id, normalizeId(start, 0)) >= 0);
+    const claimed: (StreamEntryReply | string)[] = [];
+    const deleted: string[] = [];
+    let scanned = 0;
+
+    for (const [id, entry] of candidates) {
+      if (claimed.length + deleted.length >= count) break;
+      scanned++;
+      if (now - entry.deliveredAt < Number(minIdle)) continue;
+
+      const found = stream && findEntry(stream, id);
+      if (!found) {
+        group.pending.delete(id);
+        deleted.push(id);
+        continue;
+      }
+      entry.consumer = consumer;
+      entry.deliveredAt = now;
+      if (!justId) entry.deliveries++;
+      claimed.push(justId ? id : [id, [...found.fields]]);
+    }
+    group.consumers.set(consumer, now);
+
+    const cursor = scanned < candidates.length ? candidates[scanned][0] : '0-0';
+    return [cursor, claimed, deleted];
+  }
+
+  private xinfoSync(args: string[]): unknown {
+    const [subcommand, key, groupName] = args;
+    const stream = this.streamFor(key);
+    if (!stream) throw new Error('ERR no such key');
+
+    switch (subcommand.toUpperCase()) {
+      case 'GROUPS':
+        return [...stream.groups].map(([name, group]) => [
+          'name', name,
+          'consumers', group.consumers.size,
+          'pending', group.pending.size,
+          'last-delivered-id', group.lastDeliveredId,
+          'entries-read', group.entriesRead,
+          'lag', group.entriesRead === null ? null : stream.entriesAdded - group.entriesRead,
+        ]);
+      case 'STREAM': {
+        const first = stream.entries[0];
+        const last = stream.entries[stream.entries.length - 1];
+        return [
+          'length', stream.entries.length,
+          'last-generated-id', stream.lastId,
+          'entries-added', stream.entriesAdded,
+          'groups', stream.groups.size,
+          'first-entry', first ? [first.id, [...first.fields]] : null,
+          'last-entry', last ? [last.id, [...last.fields]] : null,
+        ];
+      }
+      case 'CONSUMERS': {
+        const group = this.requireGroup(key, groupName, 'XINFO');
+        const now = Date.now();
+        return [...group.consumers].map(([name, seenAt]) => [
+          'name', name,
+          'pending', [...group.pending.values()].filter((entry) => entry.consumer === name).length,
+          'idle', now - seenAt,
+        ]);
+      }
+      default:
+        throw new Error(`ERR unknown subcommand '${subcommand}'`);
+    }
+  }
+
+  private rangeSync(key: string, start: string, end: string, options: string[], reverse: boolean): StreamEntryReply[] {
+    const count = options[0]?.toUpperCase() === 'COUNT' ? Number(options[1]) : Infinity;
+    const entries = (this.streamFor(key)?.entries ?? []).filter((entry) => inRange(entry.id, start, end));
+    if (reverse) entries.reverse();
+    return entries.slice(0, count).map((entry) => [entry.id, [...entry.fields]]);
+  }
+
+  private xdelSync(args: string[]): number {
+    const [key, ...ids] = args;
+    const stream = this.streamFor(key);
+    if (!stream) return 0;
+    const before = stream.entries.length;
+    const removed = new Set(ids.map((id) => normalizeId(id, 0)));
+    stream.entries = stream.entries.filter((entry) => !removed.has(entry.id));
+    return before - stream.entries.length;
+  }
+
+  private delSync(keys: string[]): number {
+    return keys.filter((key) => {
+      this.store.expiries.delete(key);
+      return this.store.streams.delete(key) || this.store.hashes.delete(key);
+    }).length;
+  }
+
+  private pexpireSync(args: string[]): number {
+    const [key, ms] = args;
+    if (!this.store.streams.has(key) && !this.store.hashes.has(key)) return 0;
+    this.store.expiries.set(key, Date.now() + Number(ms));
+    return 1;
+  }
+
+  private pttlSync(key: string): number {
+    if (!this.store.streams.has(key) && !this.store.hashes.has(key)) return -2;
+    const expiresAt = this.store.expiries.get(key);
+    return expiresAt === undefined ? -1 : expiresAt - Date.now();
+  }
+
+  /** Drop keys whose PEXPIRE deadline has passed. */
+  private expireKeys(): void {
+    const now = Date.now();
+    for (const [key, expiresAt] of this.store.expiries) {
+      if (expiresAt > now) continue;
+      this.delSync([key]);
+    }
+  }
+
+  private hsetSync(args: string[]): number {
+    const [key, ...pairs] = args;
+    const hash = this.hashFor(key, true)!;
+    let added = 0;
+    for (let i = 0; i < pairs.length; i += 2) {
+      if (!hash.has(pairs[i])) added++;
+      hash.set(pairs[i], pairs[i + 1]);
+    }
+    return added;
+  }
+
+  private hincrbyfloatSync(args: string[]): string {
+    const [key, field, increment] = args;
+    const hash = this.hashFor(key, true)!;
+    const current = Number(hash.get(field) ?? 0);
+    if (!Number.isFinite(current) || !Number.isFinite(Number(increment))) {
+      throw new Error('ERR value is not a valid float');
+    }
+    const value = String(current + Number(increment));
+    hash.set(field, value);
+    return value;
+  }
+
+  private hdelSync(args: string[]): number {
+    const [key, ...fields] = args;
+    const hash = this.hashFor(key);
+    if (!hash) return 0;
+    const removed = fields.filter((field) => hash.delete(field)).length;
+    if (hash.size === 0) this.delSync([key]);
+    return removed;
+  }
+
+  private evalSync(args: string[]): unknown {
+    const [script, numKeys, ...rest] = args;
+    const handler = this.store.scripts.get(script);
+    if (!handler) {
+      throw new Error('InMemoryRedis cannot run this Lua script; register a handler with defineScript()');
+    }
+    const keys = rest.slice(0, Number(numKeys));
+    return handler(
+      (command, ...commandArgs) => this.run(command, commandArgs.map(String)),
+      keys,
+      rest.slice(keys.length),
+    );
+  }
+
+  private createStream(key: string): Stream {
+    this.assertFree(key, this.store.hashes);
+    const stream: Stream = { entries: [], lastId: '0-0', entriesAdded: 0, groups: new Map() };
+    this.store.streams.set(key, stream);
+    return stream;
+  }
+
+  private streamFor(key: string): Stream | undefined {
+    this.assertFree(key, this.store.hashes);
+    return this.store.streams.get(key);
+  }
+
+  private hashFor(key: string, create = false): Map<string, string> | undefined {
+    this.assertFree(key, this.store.streams);
+    let hash = this.store.hashes.get(key);
+    if (!hash && create) {
+      hash = new Map();
+      this.store.hashes.set(key, hash);
+    }
+    return hash;
+  }
+
+  private assertFree(key: string, other: Map<string, unknown>): void {
+    if (other.has(key)) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+  }
+
+  private requireGroup(key: string, name: string, command: string): Group {
+    const group = this.streamFor(key)?.groups.get(name);
+    if (!group) throw new Error(`NOGROUP No such key '${key}' or consumer group '${name}' in ${command}`);
+    return group;
+  }
+}
+
+interface ReadGroupArgs {
+  group: string;
+  consumer: string;
+  count: number;
+  block?: number;
+  noAck: boolean;
+  keys: string[];
+  ids: string[];
+}
+
+function parseReadGroup(args: string[]): ReadGroupArgs {
+  if (args[0]?.toUpperCase() !== 'GROUP') throw new Error('ERR syntax error');
+  const read: ReadGroupArgs = { group: args[1], consumer: args[2], count: Infinity, noAck: false, keys: [], ids: [] };
+
+  let i = 3;
+  for (; i < args.length && args[i].toUpperCase() !== 'STREAMS'; i++) {
+    const option = args[i].toUpperCase();
+    if (option === 'COUNT') read.count = Number(args[++i]);
+    else if (option === 'BLOCK') read.block = Number(args[++i]);
+    else if (option === 'NOACK') read.noAck = true;
+    else throw new Error('ERR syntax error');
+  }
+
+  const streams = args.slice(i + 1);
+  if (streams.length === 0 || streams.length % 2 !== 0) {
+    throw new Error("ERR Unbalanced 'xreadgroup' list of streams: for each stream key an ID or '>' must be specified.");
+  }
+  read.keys = streams.slice(0, streams.length / 2);
+  read.ids = streams.slice(streams.length / 2).map((id) => (id === '>' ? id : normalizeId(id, 0)));
+  return read;
+}
+
+/** The ID XADD assigns after `lastId` for a requested `*`, `<ms>-*` or explicit ID. */
+function nextId(lastId: string, requested: string): string {
+  const [lastMs, lastSeq] = lastId.split('-').map(Number);
+  let id: string;
+  if (requested === '*') {
+    const ms = Math.max(Date.now(), lastMs);
+    id = `${ms}-${ms === lastMs ? lastSeq + 1 : 0}`;
+  } else if (requested.endsWith('-*')) {
+    const ms = Number(requested.slice(0, -2));
+    id = `${ms}-${ms === lastMs ? lastSeq + 1 : 0}`;
+  } else {
+    id = normalizeId(requested, 0);
+  }
+
+  if (id === '0-0') throw new Error('ERR The ID specified in XADD must be greater than 0-0');
+  if (compareStreamIds(id, lastId) <= 0) {
+    throw new Error('ERR The ID specified in XADD is equal or smaller than the target stream top item');
+  }
+  return id;
+}
+
+/** Complete an ID missing its sequence, e.g. "5" to "5-0" (or "5-<max>" for range ends). */
+function normalizeId(id: string, seq: number): string {
+  if (!/^\d+(-\d+)?$/.test(id)) throw new Error('ERR Invalid stream ID specified as stream command argument');
+  return id.includes('-') ? id : `${id}-${seq}`;
+}
+
+/** Whether an ID falls in an XRANGE-style range: `-`/`+`, inclusive IDs, or `(`-prefixed exclusive ones. */
+function inRange(id: string, start: string, end: string): boolean {
+  if (start !== '-') {
+    const exclusive = start.startsWith('(');
+    const bound = normalizeId(exclusive ? start.slice(1) : start, 0);
+    const diff = compareStreamIds(id, bound);
+    if (diff < 0 || (exclusive && diff === 0)) return false;
+  }
+  if (end !== '+') {
+    const exclusive = end.startsWith('(');
+    const bound = normalizeId(exclusive ? end.slice(1) : end, MAX_SEQ);
+    const diff = compareStreamIds(id, bound);
+    if (diff > 0 || (exclusive && diff === 0)) return false;
+  }
+  return true;
+}
+
+function sortedPending(group: Group): [string, PendingEntry][] {
+  return [...group.pending].sort(([a], [b]) => compareStreamIds(a, b));
+}
+
+function findEntry(stream: Stream, id: string): Entry | undefined {
+  return stream.entries.find((entry) => entry.id === id);
+}
+
+/** JavaScript version of the bridge's RELEASE_PENDING_SCRIPT. */
+const releasePending: ScriptHandler = (redis, [key], args) => {
+  for (let i = 0; i < args.length; i += 2) {
+    if (redis('HEXISTS', key, args[i]) === 1 && Number(redis('HINCRBYFLOAT', key, args[i], args[i + 1])) === 0) {
+      redis('HDEL', key, args[i]);
+    }
+  }
+  return 0;
+};
@@ -0,0 +1,56 @@
+/** Width of a time bucket */
+export type Granularity = 'minute' | 'hour' | 'day';
+
+/** Bucket width in milliseconds. Buckets are aligned to UTC. */
+export const GRANULARITY_MS: Record<Granularity, number> = {
+  minute: 60_000,
+  hour: 3_600_000,
+  day: 86_400_000,
+};
+
+const SEPARATOR = '#';
+
+/** A bucket row's identity, as parsed from its key. */
+export interface BucketRef {
+  /** Counter scope the bucket belongs to */
+  scope: string;
+  granularity: Granularity;
+  /** Bucket start (epoch ms, UTC-aligned) */
+  start: number;
+}
+
+/** Start (epoch ms) of the bucket containing `timestamp`. */
+export function bucketStart(timestamp: number, granularity: Granularity): number {
+  const width = GRANULARITY_MS[granularity];
+  return Math.floor(timestamp / width) * width;
+}
+
+/**
+ * Key a bucket is aggregated and stored under, e.g.
+ * "v1:post:123:views#hour#1760878800000".
+ */
+export function bucketKey(scope: string, granularity: Granularity, start: number): string {
+  return `${scope}${SEPARATOR}${granularity}${SEPARATOR}${start}`;
+}
+
+/** Parse a bucket key. Returns undefined for plain counter scopes. */
+export function parseBucketKey(key: string): BucketRef | undefined {
+  const startAt = key.lastIndexOf(SEPARATOR);
+  const granularityAt = key.lastIndexOf(SEPARATOR, startAt - 1);
+  if (granularityAt <= 0) return undefined;
+
+  const granularity = key.slice(granularityAt + 1, startAt);
+  const start = Number(key.slice(startAt + 1));
+  if (!(granularity in GRANULARITY_MS) || !Number.isSafeInteger(start)) return undefined;
+
+  return { scope: key.slice(0, granularityAt), granularity: granularity as Granularity, start };
+}
+
+/** Starts of every bucket overlapping [from, to), oldest first. */
+export function bucketRange(from: number, to: number, granularity: Granularity): number[] {
+  const starts: number[] = [];
+  for (let start = bucketStart(from, granularity); start < to; start += GRANULARITY_MS[granularity]) {
+    starts.push(start);
+  }
+  return starts;
+}
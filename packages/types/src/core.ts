@@ -1,5 +1,7 @@
-import type { ICounterProvider } from './provider';
+import type { CounterUpdate, FlushResult, ICounterProvider } from './provider';
 import type { ScopeMetadata } from './provider';
+import type { Granularity } from './bucket';
+import type { TraceLink } from './tracing';
 
 /**
  * Configuration for the core CounterBridge sync engine
@@ -14,6 +16,12 @@ export interface CoreConfig {
   /** Redis Stream key name. Default: "counter-bridge:events" */
   streamKey?: string;
 
+  /**
+   * Consume hash-partitioned streams ("<streamKey>:<n>") instead of
+   * `streamKey` itself. Must match the producers' partition count.
+   */
+  partitions?: PartitionConfig;
+
   /** Consumer group name. Default: "counter-bridge-group" */
   consumerGroup?: string;
 
@@ -22,6 +30,56 @@ export interface CoreConfig {
 
   /** Flush trigger options */
   batching?: BatchingConfig;
+
+  /** Scopes that also get per-minute/hour/day bucket rows */
+  buckets?: BucketDefinition[];
+
+  /** Hooks run on every drained batch around `provider.flush`, in order */
+  middleware?: FlushMiddleware[];
+
+  /** Memory bounds that pause stream reads while flushes fall behind */
+  backpressure?: BackpressureConfig;
+
+  /** Periodic consumer-group lag and stream health collection */
+  monitoring?: MonitoringConfig;
+
+  /** Thresholds for `checkLiveness()` / `checkReadiness()` */
+  healthCheck?: HealthCheckConfig;
+
+  /** Reclaiming of stale pending entries left by dead consumers */
+  claim?: ClaimConfig;
+
+  /** Dead-letter stream for events that can never be applied */
+  deadLetter?: DeadLetterConfig;
+
+  /** Validation applied to every consumed delta before it is aggregated */
+  numericPolicy?: NumericPolicy;
+
+  /** Backoff between retries after provider flush or stream read failures */
+  retry?: RetryConfig;
+
+  /** Circuit breaker around provider flushes */
+  circuitBreaker?: CircuitBreakerConfig;
+
+  /**
+   * Pass per-scope stream watermarks to the provider so replayed messages
+   * are never applied twice. Requires a provider that implements
+   * `getWatermarks`, and each scope must be consumed by a single consumer.
+   * Default: false (at-least-once)
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Partitioned stream configuration. Producers hash each scope onto one of
+ * `count` streams, so all of a scope's events land on a single consumer.
+ */
+export interface PartitionConfig {
+  /** Total number of partition streams producers write to */
+  count: number;
+
+  /** Partitions (0-based) this consumer reads. Default: all of them */
+  assigned?: number[];
 }
 
 /**
@@ -35,6 +93,299 @@ export interface BatchingConfig {
   maxMessages?: number;
 }
 
+/**
+ * Time-bucketed rollups for matching scopes. Every add to a matching scope
+ * is also added to the bucket containing the event timestamp, stored by
+ * the provider as its own row (see `bucketKey`). Set/max/min events only
+ * affect the running total.
+ */
+export interface BucketDefinition {
+  /**
+   * Scope pattern. `*` matches one `:`-separated segment,
+   * e.g. "v1:post:*:views".
+   */
+  pattern: string;
+
+  /** Bucket widths to maintain */
+  granularities: Granularity[];
+}
+
+/**
+ * One scope of a drained batch, as passed through flush middleware.
+ * With `floor`/`ceiling` set it carries a set/max/min update.
+ */
+export interface FlushEntry extends CounterUpdate {
+  /** Scope the provider receives */
+  scope: string;
+
+  /** Highest stream entry ID folded into the update (idempotent mode) */
+  watermark?: string;
+
+  /** Latest metadata sent with the scope's events */
+  metadata?: ScopeMetadata;
+
+  /**
+   * Aggregated scope the entry derives from. Keep it when transforming or
+   * splitting an entry (`{ ...entry, scope }`); it must name a scope of
+   * the drained batch.
+   */
+  readonly source: string;
+}
+
+/**
+ * Flush hooks. For each batch, `before` hooks run in array order, each
+ * receiving the previous one's output, then the provider flushes what the
+ * last returned, then `after` hooks run in array order. Batches never
+ * overlap: the next one's hooks start only once these have finished.
+ *
+ * A `before` hook that throws fails the whole flush, which is retried
+ * like a provider failure. A throwing `after` hook is reported as an
+ * 'error' event and does not affect the flush or the other hooks.
+ */
+export interface FlushMiddleware {
+  /** Used in error messages */
+  name?: string;
+
+  /**
+   * Transform the batch: return the entries to flush — filtered to drop
+   * scopes (their events are still ACK'd), mapped to rename or rescale
+   * them, or with extra entries to split them. Entries returned for the
+   * same scope are merged; only adds can be merged.
+   */
+  before?(entries: FlushEntry[]): FlushEntry[] | Promise<FlushEntry[]>;
+
+  /**
+   * Observe a flush the provider responded to: the entries the hooks
+   * produced and its result (`failed` scopes are retried, `skipped` ones
+   * were already applied). Failed scopes are retried as flushed, without
+   * passing through `before` again, so they don't appear in later
+   * batches' entries.
+   */
+  after?(entries: readonly FlushEntry[], result: FlushResult): void | Promise<void>;
+}
+
+/**
+ * Limits on what the consumer buffers in memory between flushes. When any
+ * limit is exceeded the read loop pauses until a flush drains the buffers.
+ * Limits are soft: one read batch (`batching.maxMessages`) may overshoot.
+ * Set a limit to 0 to disable it.
+ */
+export interface BackpressureConfig {
+  /** Maximum distinct scopes held in the aggregation window. Default: 100000 */
+  maxScopes?: number;
+
+  /** Maximum un-ACK'd message IDs held for the next flush. Default: 100000 */
+  maxPendingIds?: number;
+
+  /** Maximum estimated memory (bytes) for scopes and message IDs. Default: 67108864 (64 MiB) */
+  maxMemoryBytes?: number;
+}
+
+/**
+ * Periodic collection of consumer-group lag and stream health
+ * (`XINFO GROUPS`, `XINFO STREAM`, `XPENDING`). A 'lag' event is emitted
+ * when a stream crosses any threshold, in either direction.
+ * Set a threshold to 0 to disable it.
+ */
+export interface MonitoringConfig {
+  /** Collection interval (ms). 0 disables collection. Default: 15000 */
+  intervalMs?: number;
+
+  /** Entries not yet delivered to the group. Default: 10000 */
+  maxLag?: number;
+
+  /** Age (ms) of the oldest entry delivered but not ACK'd. Default: 300000 */
+  maxPendingAgeMs?: number;
+
+  /**
+   * The producers' `maxStreamLength`: a stream trimmed at this length may
+   * drop entries the group has not read yet. Default: 100000
+   */
+  maxStreamLength?: number;
+
+  /** Fraction (0–1) of `maxStreamLength` at which the stream counts as full. Default: 0.9 */
+  maxStreamFill?: number;
+}
+
+export type LagThreshold = 'maxLag' | 'maxPendingAgeMs' | 'maxStreamFill';
+
+/**
+ * Consumer-group health of one stream, as of the last collection
+ */
+export interface StreamHealth {
+  stream: string;
+
+  /** Entries in the stream */
+  length: number;
+
+  /** `length` as a fraction of `monitoring.maxStreamLength` */
+  fill: number;
+
+  /** Entries not yet delivered to the group (undefined before Redis 7.0) */
+  lag?: number;
+
+  /** Last entry ID delivered to the group */
+  lastDeliveredId?: string;
+
+  /** Entries delivered to the group but not yet ACK'd */
+  pending: number;
+
+  /** Age (ms) of the oldest pending entry, by its stream ID */
+  oldestPendingAgeMs?: number;
+
+  /** Pending entries per consumer */
+  consumers: Record<string, number>;
+
+  /** Thresholds currently exceeded */
+  exceeded: LagThreshold[];
+
+  /** When this was collected (epoch ms) */
+  collectedAt: number;
+}
+
+/**
+ * Liveness and readiness checks, for probes such as Kubernetes'
+ */
+export interface HealthCheckConfig {
+  /**
+   * Liveness fails when the read loop has not completed a read (or a
+   * deliberate pause for backpressure or an open circuit) for this long (ms).
+   * 0 disables the check. Default: 60000
+   */
+  maxReadAgeMs?: number;
+
+  /** Time (ms) each readiness dependency check (Redis PING, provider) may take. Default: 2000 */
+  timeoutMs?: number;
+}
+
+/**
+ * Outcome of a liveness or readiness check
+ */
+export interface HealthCheckResult {
+  ok: boolean;
+
+  /** Why the check failed; empty when `ok` */
+  reasons: string[];
+}
+
+/**
+ * Exponential backoff with jitter
+ */
+export interface RetryConfig {
+  /** Delay (ms) before the first retry. Default: 500 */
+  initialDelayMs?: number;
+
+  /** Upper bound (ms) on the delay between retries. Default: 30000 */
+  maxDelayMs?: number;
+
+  /** Growth factor applied per consecutive failure. Default: 2 */
+  multiplier?: number;
+
+  /** Fraction (0–1) of each delay randomly shaved off to spread retries. Default: 0.2 */
+  jitter?: number;
+}
+
+/**
+ * Circuit breaker configuration. While open, the consumer stops reading
+ * from the stream and holds off flushing until a half-open probe succeeds.
+ */
+export interface CircuitBreakerConfig {
+  /** Consecutive provider failures that open the circuit. Default: 5. Set to 0 to disable. */
+  failureThreshold?: number;
+
+  /** Time (ms) the circuit stays open before a half-open probe flush. Default: 30000 */
+  resetTimeoutMs?: number;
+}
+
+/** Circuit breaker state */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Rules a counter delta must satisfy. Shared by the SDK (checked before
+ * XADD) and the consumer (checked before aggregation).
+ */
+export interface NumericPolicy {
+  /** Reject deltas with a fractional part. Default: false */
+  integerOnly?: boolean;
+
+  /** Reject deltas whose absolute value exceeds this. Default: Number.MAX_SAFE_INTEGER */
+  maxAbsDelta?: number;
+
+  /** Reject ±Infinity. NaN is always rejected. Default: true */
+  finiteOnly?: boolean;
+}
+
+/**
+ * Stale pending entry reclaim configuration (XPENDING + XCLAIM)
+ */
+export interface ClaimConfig {
+  /** Minimum idle time (ms) before another consumer's pending entry is claimed. Default: 60000 */
+  minIdleMs?: number;
+
+  /** How often (ms) to scan the group's pending entries. Default: 30000. Set to 0 to disable. */
+  intervalMs?: number;
+}
+
+/**
+ * Dead-letter stream configuration
+ */
+export interface DeadLetterConfig {
+  /** Route poison messages to the dead-letter stream. Default: true */
+  enabled?: boolean;
+
+  /** Dead-letter stream key. Default: "<streamKey>:dlq" */
+  streamKey?: string;
+
+  /** Deliveries (per XPENDING) after which a redelivered entry is dead-lettered. Default: 10 */
+  maxDeliveries?: number;
+
+  /** Consecutive partial flush failures after which a scope is dead-lettered. Default: 5 */
+  maxFlushFailures?: number;
+}
+
+/** Why an event was moved to the dead-letter stream */
+export type DeadLetterReason =
+  | 'malformed'
+  | 'invalid-delta'
+  | 'unsupported-op'
+  | 'max-deliveries'
+  | 'flush-failed';
+
+/**
+ * Entry in the dead-letter stream
+ */
+export interface DeadLetterEntry {
+  /** Entry ID in the dead-letter stream */
+  id: string;
+
+  /** Why the event was dead-lettered */
+  reason: DeadLetterReason;
+
+  /** Original stream fields, re-published as-is on requeue */
+  fields: string[];
+
+  /** When the event was dead-lettered (epoch ms) */
+  deadAt: number;
+
+  /** Source stream entry ID (absent for scopes dead-lettered after flush failures) */
+  sourceId?: string;
+
+  /** Stream the event came from, and is re-published to on requeue */
+  stream?: string;
+
+  /** Human-readable detail, e.g. the parse error or delivery count */
+  detail?: string;
+}
+
+/**
+ * How an event's value is applied to the stored counter:
+ * - `add`: add the value (positive or negative)
+ * - `set`: overwrite with the value
+ * - `max`: keep the larger of the stored value and the value
+ * - `min`: keep the smaller of the stored value and the value
+ */
+export type CounterOp = 'add' | 'set' | 'max' | 'min';
+
 /**
  * Counter increment/decrement event
  */
@@ -42,14 +393,29 @@ export interface CounterEvent {
   /** Scope identifier (e.g., 'v1:post:123:likes') */
   scope: string;
 
-  /** Delta value (positive for increment, negative for decrement) */
+  /** Delta value (positive for increment, negative for decrement), or the operand of a set/max/min */
   delta: number;
 
+  /** Operation applied with `delta`. Default: 'add' */
+  op?: CounterOp;
+
   /** Optional metadata for routing */
   metadata?: ScopeMetadata;
 
   /** Event timestamp (epoch ms) */
   timestamp?: number;
+
+  /** Redis Stream entry ID the event was read from (set by the consumer) */
+  id?: string;
+
+  /** Producer span context from the entry's trace fields (set by the consumer) */
+  trace?: TraceLink;
+
+  /**
+   * The producer also counted this add in the stream's pending-delta hash
+   * (see `pendingDeltaKey`); the consumer releases it once persisted.
+   */
+  pending?: boolean;
 }
 
 /**
@@ -65,7 +431,10 @@ export interface SyncStats {
   /** Last flush timestamp */
   lastFlushAt?: Date;
 
-  /** Current pending message count */
+  /** Last successful stream read (including reads that returned nothing) */
+  lastReadAt?: Date;
+
+  /** Events in the current aggregation window (the group's PEL is in `streams`) */
   pendingMessages: number;
 
   /** Average batch size */
@@ -73,4 +442,31 @@ export interface SyncStats {
 
   /** Errors encountered */
   errorCount: number;
+
+  /** Total pending entries claimed from other (idle or dead) consumers */
+  claimedMessages: number;
+
+  /** Total events and scopes moved to the dead-letter stream */
+  deadLettered: number;
+
+  /** Provider circuit breaker state */
+  circuitState: CircuitState;
+
+  /** Provider flush failures since the last successful flush */
+  consecutiveFailures: number;
+
+  /** Whether the read loop is paused by backpressure */
+  backpressured: boolean;
+
+  /** Distinct scopes in the current aggregation window */
+  bufferedScopes: number;
+
+  /** Message IDs waiting to be ACK'd by the next flush */
+  bufferedIds: number;
+
+  /** Estimated memory (bytes) held by buffered scopes and message IDs */
+  estimatedMemoryBytes: number;
+
+  /** Per-stream consumer-group health from the last collection (empty until the first) */
+  streams: StreamHealth[];
 }
@@ -1,2 +1,7 @@
 export * from './provider';
 export * from './core';
+export * from './numeric';
+export * from './partition';
+export * from './bucket';
+export * from './tracing';
+export * from './scope';
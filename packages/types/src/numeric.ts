@@ -0,0 +1,27 @@
+import type { NumericPolicy } from './core';
+
+/**
+ * Check a counter delta against a numeric policy.
+ *
+ * NaN is always rejected. By default only finite deltas within
+ * ±Number.MAX_SAFE_INTEGER are accepted; fractional deltas are allowed
+ * unless `integerOnly` is set.
+ *
+ * @returns A description of the violation, or undefined if the delta is acceptable
+ */
+export function validateDelta(delta: number, policy: NumericPolicy = {}): string | undefined {
+  if (typeof delta !== 'number' || Number.isNaN(delta)) {
+    return 'delta is not a number';
+  }
+  if ((policy.finiteOnly ?? true) && !Number.isFinite(delta)) {
+    return 'delta is not finite';
+  }
+  if (policy.integerOnly && !Number.isInteger(delta)) {
+    return 'delta is not an integer';
+  }
+  const maxAbsDelta = policy.maxAbsDelta ?? Number.MAX_SAFE_INTEGER;
+  if (Math.abs(delta) > maxAbsDelta) {
+    return `delta exceeds the maximum absolute value of ${maxAbsDelta}`;
+  }
+  return undefined;
+}
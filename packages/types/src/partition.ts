@@ -0,0 +1,63 @@
+/**
+ * Partition a scope hashes onto, in [0, count).
+ *
+ * Uses 32-bit FNV-1a over the scope's UTF-16 code units so producers and
+ * consumers agree on the mapping without sharing state. With `count` of 1
+ * or less every scope maps to partition 0.
+ */
+export function partitionOf(scope: string, count: number): number {
+  if (count <= 1) return 0;
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < scope.length; i++) {
+    hash ^= scope.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % count;
+}
+
+/** Stream key for a partition, e.g. "counter-bridge:events:3". */
+export function partitionStreamKey(streamKey: string, partition: number): string {
+  return `${streamKey}:${partition}`;
+}
+
+/**
+ * Stream key a scope's events are written to: the partition stream when
+ * `count` is greater than 1, otherwise `streamKey` itself.
+ */
+export function streamKeyFor(streamKey: string, scope: string, count: number): string {
+  return count > 1 ? partitionStreamKey(streamKey, partitionOf(scope, count)) : streamKey;
+}
+
+/**
+ * Hash of add deltas written to a stream but not yet persisted, keyed by
+ * scope, e.g. "{counter-bridge:events:3}:pending". The stream key is the
+ * hash tag, so on Redis Cluster the hash shares a slot with the stream
+ * and both can be updated in one MULTI.
+ */
+export function pendingDeltaKey(streamKey: string): string {
+  return `{${streamKey}}:pending`;
+}
+
+/**
+ * How long (ms) a pending-delta hash outlives its last tracked write.
+ * Entries deleted before the consumer persisted them (trimmed, or found
+ * deleted when claimed) are never released, so their deltas would count
+ * as pending forever; the TTL drops them once a stream's writes go quiet.
+ */
+export const PENDING_DELTA_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Subtract released deltas from a pending-delta hash. ARGV holds
+ * scope/negated-delta pairs; fields that reach zero are removed so the
+ * hash only holds scopes with writes in flight. Fields already gone with
+ * an expired hash are skipped rather than driven negative.
+ */
+export const RELEASE_PENDING_SCRIPT = `
+for i = 1, #ARGV, 2 do
+  if redis.call('HEXISTS', KEYS[1], ARGV[i]) == 1
+    and tonumber(redis.call('HINCRBYFLOAT', KEYS[1], ARGV[i], ARGV[i + 1])) == 0 then
+    redis.call('HDEL', KEYS[1], ARGV[i])
+  end
+end
+return 0`;
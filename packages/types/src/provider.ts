@@ -1,3 +1,6 @@
+import type { CounterOp } from './core';
+import type { Granularity } from './bucket';
+
 /**
  * Result of a flush operation. Providers that can detect partial failures
  * should return the failed scopes so the core can retry only those.
@@ -5,13 +8,66 @@
 export interface FlushResult {
   /** Scopes that failed to persist, with their original deltas. */
   failed?: Map<string, number>;
+
+  /**
+   * Scopes that were not applied because the provider had already stored
+   * a watermark at or above the one in the FlushContext (idempotent mode).
+   */
+  skipped?: Map<string, number>;
+}
+
+/**
+ * Folded effect of a window that mixed set/max/min with adds on one scope:
+ * the new value is `min(max(stored + delta, floor), ceiling)`, with an
+ * absent bound meaning unbounded. `floor === ceiling` is a plain set.
+ */
+export interface CounterUpdate {
+  delta: number;
+  floor?: number;
+  ceiling?: number;
+}
+
+/**
+ * Extra information passed alongside a batch to `ICounterProvider.flush`.
+ */
+export interface FlushContext {
+  /**
+   * Highest Redis Stream entry ID folded into each scope's delta.
+   * Only set when the core runs in idempotent mode.
+   *
+   * Providers that honour watermarks store the ID atomically with the
+   * delta and skip any scope whose stored watermark is at or above it,
+   * so a batch replayed after a crash is never applied twice.
+   */
+  watermarks?: Map<string, string>;
+
+  /**
+   * Full update for scopes whose window included a set, max or min event;
+   * their `batch` entry holds only `delta`. Only set for providers that
+   * list those operations in `ICounterProvider.operations`.
+   */
+  updates?: Map<string, CounterUpdate>;
+
+  /**
+   * Latest metadata sent with each scope's events in this batch. Scopes
+   * whose events carried none are omitted. Providers that store metadata
+   * replace what they hold with it.
+   */
+  metadata?: Map<string, ScopeMetadata>;
 }
 
 /**
  * Core abstraction for persistence backends.
- * All database-specific implementations must conform to this interface.
+ * All database-specific implementations must conform to this interface;
+ * `describeProviderConformance` in @counter-bridge/testing checks it.
  */
 export interface ICounterProvider {
+  /**
+   * Optional: Operations the provider can apply besides 'add'. Events with
+   * any other op are dead-lettered as 'unsupported-op'. Default: ['add']
+   */
+  readonly operations?: readonly CounterOp[];
+
   /**
    * Persist a batch of aggregated counter deltas.
    *
@@ -20,13 +76,14 @@ export interface ICounterProvider {
    * only the failed scopes instead of the entire batch.
    *
    * @param batch - Map of scope keys to their net change values
+   * @param context - Optional per-batch context (e.g. stream watermarks)
    * @example
    * await provider.flush(new Map([
    *   ['v1:post:123:likes', 5],
    *   ['v1:post:456:views', -2]
    * ]))
    */
-  flush(batch: Map<string, number>): Promise<FlushResult | void>;
+  flush(batch: Map<string, number>, context?: FlushContext): Promise<FlushResult | void>;
 
   /**
    * Retrieve the current persisted value for a given scope.
@@ -41,15 +98,43 @@ export interface ICounterProvider {
    * Providers can optimize this with native bulk reads.
    *
    * @param scopes - Array of scope identifiers
-   * @returns Map of scopes to their current values
+   * @returns Map of every requested scope to its current value, 0 if not found
    */
   getBatch?(scopes: string[]): Promise<Map<string, number>>;
 
+  /**
+   * Optional: Read the applied stream watermark for each scope.
+   * Required for idempotent mode, where the core uses it to drop
+   * recovered messages that were already persisted.
+   *
+   * @param scopes - Array of scope identifiers
+   * @returns Map of scopes to their stored watermark; scopes without one are omitted
+   */
+  getWatermarks?(scopes: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Optional: Read a scope's time-bucketed values. Bucket rows arrive in
+   * `flush` batches keyed by `bucketKey(scope, granularity, start)`.
+   *
+   * @param scope - The counter scope
+   * @param from - Range start (inclusive)
+   * @param to - Range end (exclusive)
+   * @param granularity - Bucket width
+   * @returns One point per bucket overlapping the range, oldest first, 0 where nothing was stored
+   */
+  getSeries?(scope: string, from: Date, to: Date, granularity: Granularity): Promise<SeriesPoint[]>;
+
   /**
    * Optional: Delete a counter scope entirely.
    */
   delete?(scope: string): Promise<void>;
 
+  /**
+   * Optional: Check the backend is reachable, e.g. with a ping. Rejects
+   * with the reason when it is not, failing the consumer's readiness.
+   */
+  healthCheck?(): Promise<void>;
+
   /**
    * Optional: Initialize provider resources (connections, schemas, etc.)
    */
@@ -61,6 +146,17 @@ export interface ICounterProvider {
   close?(): Promise<void>;
 }
 
+/**
+ * One bucket of a time series
+ */
+export interface SeriesPoint {
+  /** Bucket start (UTC-aligned) */
+  start: Date;
+
+  /** Total of the deltas added during the bucket */
+  value: number;
+}
+
 /**
  * Metadata that can be attached to a scope for routing/partitioning.
  * Useful for providers that need to distribute data across tables/collections.
@@ -0,0 +1,100 @@
+/**
+ * Structured counter scopes: "v{version}:{model}:{id}:{field}",
+ * e.g. "v1:post:123:likes".
+ *
+ * The ID may contain anything: ':' and '%' are percent-encoded so the
+ * scope always splits into four segments. The model and field are names
+ * and must not contain ':' or '%'. Time-bucket keys (see `bucketKey`) are
+ * not scopes — run them through `parseBucketKey` first.
+ */
+
+/** Scope format version written by `buildScope` */
+export const SCOPE_VERSION = 1;
+
+const SEPARATOR = ':';
+const VERSION_PATTERN = /^v(\d+)$/;
+
+/** The components of a scope */
+export interface ScopeParts {
+  /** Entity type, e.g. "post" */
+  model: string;
+
+  /** Entity ID, e.g. a document ID */
+  id: string;
+
+  /** Counter name on the entity, e.g. "likes" */
+  field: string;
+}
+
+/** A parsed scope, with its ID decoded */
+export interface ParsedScope extends ScopeParts {
+  version: number;
+}
+
+/**
+ * Build a scope from its components. Throws a RangeError for an empty
+ * component, or a model or field containing ':' or '%'.
+ */
+export function buildScope(parts: ScopeParts & { version?: number }): string {
+  const version = parts.version ?? SCOPE_VERSION;
+  if (!Number.isSafeInteger(version) || version < 0) {
+    throw new RangeError(`Invalid scope version: ${version}`);
+  }
+  for (const name of ['model', 'field'] as const) {
+    const value = parts[name];
+    if (!value || value.includes(SEPARATOR) || value.includes('%')) {
+      throw new RangeError(`Invalid scope ${name} "${value}": must be non-empty without ':' or '%'`);
+    }
+  }
+  if (!parts.id) {
+    throw new RangeError('Invalid scope id: must be non-empty');
+  }
+
+  return [`v${version}`, parts.model, escapeId(parts.id), parts.field].join(SEPARATOR);
+}
+
+/** Parse a scope built by `buildScope`. Returns undefined for anything else. */
+export function parseScope(scope: string): ParsedScope | undefined {
+  const segments = scope.split(SEPARATOR);
+  if (segments.length !== 4 || segments.some((segment) => segment === '')) return undefined;
+
+  const [version, model, id, field] = segments;
+  const match = VERSION_PATTERN.exec(version);
+  if (!match || model.includes('%') || field.includes('%')) return undefined;
+
+  const decoded = unescapeId(id);
+  if (decoded === undefined) return undefined;
+  return { version: Number(match[1]), model, id: decoded, field };
+}
+
+/**
+ * Check a scope is in the structured format.
+ *
+ * @returns A description of the violation, or undefined if the scope parses
+ */
+export function validateScope(scope: string): string | undefined {
+  if (typeof scope !== 'string' || scope === '') {
+    return 'scope is empty';
+  }
+  if (!parseScope(scope)) {
+    return 'scope is not in the "v{version}:{model}:{id}:{field}" format';
+  }
+  return undefined;
+}
+
+function escapeId(id: string): string {
+  return id.replace(/%/g, '%25').replace(/:/g, '%3A');
+}
+
+/** Decode an escaped ID; undefined if it has a malformed or unexpected escape. */
+function unescapeId(id: string): string | undefined {
+  let valid = true;
+  const decoded = id.replace(/%(..)?/g, (_, code: string | undefined) => {
+    switch (code?.toUpperCase()) {
+      case '25': return '%';
+      case '3A': return ':';
+      default: valid = false; return '';
+    }
+  });
+  return valid ? decoded : undefined;
+}
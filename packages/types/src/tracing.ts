@@ -0,0 +1,129 @@
+/**
+ * Optional OpenTelemetry tracing.
+ *
+ * `@opentelemetry/api` is an optional peer dependency: when it is installed
+ * spans go to whatever tracer provider the application registered (and are
+ * non-recording if none is), otherwise every call is a no-op.
+ */
+
+/** Name spans are recorded under (the instrumentation scope). */
+export const TRACER_NAME = 'counter-bridge';
+
+/** Stream entry fields carrying W3C trace context. */
+export const TRACE_FIELDS = ['traceparent', 'tracestate'] as const;
+
+/** A producer span context, in the shape OpenTelemetry links expect. */
+export interface TraceLink {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  isRemote?: boolean;
+  traceState?: unknown;
+}
+
+export type TraceAttributes = Record<string, string | number | boolean>;
+
+export interface TraceSpanOptions {
+  kind?: 'internal' | 'producer' | 'consumer' | 'client';
+  attributes?: TraceAttributes;
+  links?: TraceLink[];
+}
+
+export interface TraceSpan {
+  setAttributes(attributes: TraceAttributes): void;
+  /** Record an error without throwing, marking the span as failed. */
+  recordError(err: unknown): void;
+}
+
+export interface Tracing {
+  /**
+   * Run `fn` in a new span, a child of the active one, that ends when
+   * `fn` settles. A thrown error is recorded on the span and re-thrown.
+   */
+  withSpan<T>(name: string, options: TraceSpanOptions, fn: (span: TraceSpan) => Promise<T>): Promise<T>;
+  /** Trace-context stream fields (`[name, value, ...]`) for the active span. */
+  inject(): string[];
+  /** Producer span context from a stream entry's fields, if it carries one. */
+  extract(fields: string[]): TraceLink | undefined;
+}
+
+const NOOP_SPAN: TraceSpan = {
+  setAttributes: () => {},
+  recordError: () => {},
+};
+
+const noopTracing: Tracing = {
+  withSpan: (_name, _options, fn) => fn(NOOP_SPAN),
+  inject: () => [],
+  extract: () => undefined,
+};
+
+let tracing: Tracing | undefined;
+
+/** The shared tracing facade, backed by `@opentelemetry/api` when installed. */
+export function getTracing(): Tracing {
+  if (!tracing) {
+    let api: any;
+    try {
+      api = require('@opentelemetry/api');
+    } catch {
+      api = undefined;
+    }
+    tracing = api ? otelTracing(api) : noopTracing;
+  }
+  return tracing;
+}
+
+function otelTracing(api: any): Tracing {
+  const kinds = {
+    internal: api.SpanKind.INTERNAL,
+    producer: api.SpanKind.PRODUCER,
+    consumer: api.SpanKind.CONSUMER,
+    client: api.SpanKind.CLIENT,
+  };
+
+  return {
+    withSpan(name, options, fn) {
+      // Resolved per call so a tracer provider registered later still applies
+      const tracer = api.trace.getTracer(TRACER_NAME);
+      return tracer.startActiveSpan(name, {
+        kind: kinds[options.kind ?? 'internal'],
+        attributes: options.attributes,
+        links: options.links?.map((context) => ({ context })),
+      }, async (span: any) => {
+        const wrapped: TraceSpan = {
+          setAttributes: (attributes) => span.setAttributes(attributes),
+          recordError: (err) => {
+            span.recordException(err instanceof Error ? err : String(err));
+            span.setStatus({ code: api.SpanStatusCode.ERROR, message: String(err) });
+          },
+        };
+        try {
+          return await fn(wrapped);
+        } catch (err) {
+          wrapped.recordError(err);
+          throw err;
+        } finally {
+          span.end();
+        }
+      });
+    },
+
+    inject() {
+      const carrier: Record<string, string> = {};
+      api.propagation.inject(api.context.active(), carrier);
+      return TRACE_FIELDS.flatMap((field) => (carrier[field] ? [field, carrier[field]] : []));
+    },
+
+    extract(fields) {
+      const carrier: Record<string, string> = {};
+      for (let i = 0; i < fields.length; i += 2) {
+        if ((TRACE_FIELDS as readonly string[]).includes(fields[i])) carrier[fields[i]] = fields[i + 1];
+      }
+      if (!carrier.traceparent) return undefined;
+
+      const context = api.trace.getSpanContext(api.propagation.extract(api.ROOT_CONTEXT, carrier));
+      return context && api.isSpanContextValid(context) ? context : undefined;
+    },
+  };
+}